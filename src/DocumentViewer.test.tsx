@@ -1,20 +1,34 @@
-import { describe, it, expect, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest'
+import { createRef, useEffect, useRef } from 'react'
+import { render, screen, waitFor, act, fireEvent, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
+import { PaginatedDocument } from 'docxodus/react'
+import type { PaginationResult } from 'docxodus/react'
 import { DocumentViewer } from './DocumentViewer'
+import { DocxodusProvider } from './DocxodusProvider'
+import type { DocumentViewerHandle } from './types'
+import { DEFAULT_SETTINGS } from './types'
+import { computeCacheKey, computeFileHash, createMemoryConversionCache } from './utils/conversionCache'
+import type { DocumentViewerError } from './utils/errors'
+import { createWorkerDocxodus } from 'docxodus/worker'
+import type { WorkerDocxodus } from 'docxodus/worker'
+import { createDocxFile, createZipBytes } from './test/createZipFile'
 
 // Use useWorker={false} in tests to avoid async worker initialization
 // which causes act() warnings
 
+// The engine loads asynchronously; wait until the viewer accepts documents
+const waitForEngine = () => waitFor(() => expect(screen.queryByText('Loading document engine...')).not.toBeInTheDocument())
+
 describe('DocumentViewer', () => {
   it('renders without crashing', () => {
     render(<DocumentViewer useWorker={false} />)
     expect(screen.getByText('Open Document')).toBeInTheDocument()
   })
 
-  it('displays custom placeholder text', () => {
+  it('displays custom placeholder text', async () => {
     render(<DocumentViewer useWorker={false} placeholder="Drop a file here" />)
-    expect(screen.getByText('Drop a file here')).toBeInTheDocument()
+    expect(await screen.findByText('Drop a file here')).toBeInTheDocument()
   })
 
   it('renders toolbar at top by default', () => {
@@ -79,6 +93,25 @@ describe('DocumentViewer', () => {
     expect(screen.queryByText('Viewer Settings')).not.toBeInTheDocument()
   })
 
+  it('only reconverts when conversion settings change', async () => {
+    const user = userEvent.setup()
+    const onConversionStart = vi.fn()
+    const file = createDocxFile()
+    render(<DocumentViewer useWorker={false} file={file} onConversionStart={onConversionStart} />)
+    await waitFor(() => expect(screen.getByTestId('paginated-document')).toBeInTheDocument())
+    expect(onConversionStart).toHaveBeenCalledTimes(1)
+
+    await user.click(screen.getByTitle('Settings'))
+    await user.click(screen.getByLabelText('Show page numbers'))
+    await user.click(screen.getByText('Apply & Close'))
+    expect(onConversionStart).toHaveBeenCalledTimes(1)
+
+    await user.click(screen.getByTitle('Settings'))
+    await user.click(screen.getByLabelText('Show headers and footers'))
+    await user.click(screen.getByText('Apply & Close'))
+    await waitFor(() => expect(onConversionStart).toHaveBeenCalledTimes(2))
+  })
+
   it('calls onError callback when an error occurs', async () => {
     const onError = vi.fn()
     render(<DocumentViewer useWorker={false} onError={onError} />)
@@ -92,4 +125,1166 @@ describe('DocumentViewer', () => {
     expect(input).toBeInTheDocument()
     expect(input).toHaveAttribute('accept', '.docx')
   })
+
+  it('loads and converts an in-memory source', async () => {
+    const onFileChange = vi.fn()
+    render(
+      <DocumentViewer useWorker={false} source={createZipBytes(['[Content_Types].xml'])} onFileChange={onFileChange} />
+    )
+
+    expect(await screen.findByTestId('paginated-document')).toBeInTheDocument()
+    expect(onFileChange).toHaveBeenCalledWith(expect.objectContaining({ name: 'document.docx' }))
+  })
+
+  it('shows download progress and can cancel a URL source', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => new Promise(() => {})))
+    const user = userEvent.setup()
+    render(<DocumentViewer useWorker={false} source="https://example.com/big.docx" />)
+
+    expect(screen.getByText('Downloading document...')).toBeInTheDocument()
+    await user.click(screen.getByText('Cancel'))
+
+    await waitFor(() => {
+      expect(screen.queryByText('Downloading document...')).not.toBeInTheDocument()
+    })
+    expect(screen.getByText('Open a DOCX file to view')).toBeInTheDocument()
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps downloading when re-rendered with an equal inline source', () => {
+    const fetchMock = vi.fn(() => new Promise<Response>(() => {}))
+    vi.stubGlobal('fetch', fetchMock)
+    const renderViewer = () => (
+      <DocumentViewer
+        useWorker={false}
+        source={{ url: 'https://example.com/big.docx', headers: { Authorization: 'Bearer t' } }}
+      />
+    )
+    const { rerender } = render(renderViewer())
+    rerender(renderViewer())
+    rerender(renderViewer())
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(screen.getByText('Downloading document...')).toBeInTheDocument()
+    vi.unstubAllGlobals()
+  })
+
+  describe('imperative handle', () => {
+    it('exposes the current document state', () => {
+      const ref = createRef<DocumentViewerHandle>()
+      render(<DocumentViewer ref={ref} useWorker={false} html="<div>Preconverted</div>" />)
+
+      expect(ref.current?.getHtml()).toBe('<div>Preconverted</div>')
+      expect(ref.current?.getRevisions()).toEqual([])
+      expect(ref.current?.getCurrentPage()).toBe(1)
+      expect(ref.current?.getTotalPages()).toBe(0)
+    })
+
+    it('sets a clamped zoom level', () => {
+      const ref = createRef<DocumentViewerHandle>()
+      const onSettingsChange = vi.fn()
+      render(<DocumentViewer ref={ref} useWorker={false} onSettingsChange={onSettingsChange} />)
+
+      act(() => ref.current?.setZoom(1.5))
+      expect(onSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ paginationScale: 1.5 }))
+
+      act(() => ref.current?.setZoom(5))
+      expect(onSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ paginationScale: 2 }))
+    })
+
+    it('switches between fit modes and a custom zoom', () => {
+      const ref = createRef<DocumentViewerHandle>()
+      const onSettingsChange = vi.fn()
+      render(<DocumentViewer ref={ref} useWorker={false} onSettingsChange={onSettingsChange} />)
+
+      act(() => ref.current?.setZoom('fit-width'))
+      expect(onSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ zoomMode: 'fit-width' }))
+
+      act(() => ref.current?.setZoom(1.25))
+      expect(onSettingsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ zoomMode: 'custom', paginationScale: 1.25 })
+      )
+      expect(ref.current?.getZoom()).toBe(1.25)
+    })
+
+    it('restores and saves settings under persistKey', () => {
+      const values = new Map([['viewer:settings', JSON.stringify({ version: 1, settings: { zoomMode: 'custom', paginationScale: 1.5 } })]])
+      const storage = {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => void values.set(key, value),
+        removeItem: (key: string) => void values.delete(key),
+      }
+      const ref = createRef<DocumentViewerHandle>()
+      render(<DocumentViewer ref={ref} useWorker={false} persistKey="viewer" persistStorage={storage} />)
+      expect(ref.current?.getZoom()).toBe(1.5)
+
+      act(() => ref.current?.setZoom(1.25))
+      expect(JSON.parse(values.get('viewer:settings')!).settings).toEqual(expect.objectContaining({ paginationScale: 1.25 }))
+    })
+
+    it('loads the settings stored under a new persistKey', () => {
+      const stored = (paginationScale: number) => JSON.stringify({ version: 1, settings: { zoomMode: 'custom', paginationScale } })
+      const values = new Map([['first:settings', stored(1.5)], ['second:settings', stored(0.75)]])
+      const storage = {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => void values.set(key, value),
+        removeItem: (key: string) => void values.delete(key),
+      }
+      const ref = createRef<DocumentViewerHandle>()
+      const { rerender } = render(<DocumentViewer ref={ref} useWorker={false} persistKey="first" persistStorage={storage} />)
+      expect(ref.current?.getZoom()).toBe(1.5)
+
+      rerender(<DocumentViewer ref={ref} useWorker={false} persistKey="second" persistStorage={storage} />)
+      expect(ref.current?.getZoom()).toBe(0.75)
+    })
+
+    it('rejects print() when no document is displayed', async () => {
+      const ref = createRef<DocumentViewerHandle>()
+      render(<DocumentViewer ref={ref} useWorker={false} />)
+
+      await expect(ref.current!.print()).rejects.toThrow('No document to print')
+    })
+
+    it('switches between document and revisions views', () => {
+      const ref = createRef<DocumentViewerHandle>()
+      render(<DocumentViewer ref={ref} useWorker={false} html="<div>Preconverted</div>" />)
+
+      act(() => ref.current?.showRevisions())
+      expect(screen.getByText('No tracked changes found in this document.')).toBeInTheDocument()
+      expect(screen.queryByTestId('paginated-document')).not.toBeInTheDocument()
+
+      act(() => ref.current?.showDocument())
+      expect(screen.getByTestId('paginated-document')).toBeInTheDocument()
+    })
+
+    it('clears the loaded document', async () => {
+      const ref = createRef<DocumentViewerHandle>()
+      const onFileChange = vi.fn()
+      render(<DocumentViewer ref={ref} useWorker={false} source={createZipBytes(['[Content_Types].xml'])} onFileChange={onFileChange} />)
+      await screen.findByTestId('paginated-document')
+
+      act(() => ref.current?.clear())
+
+      expect(onFileChange).toHaveBeenLastCalledWith(null)
+      expect(screen.queryByTestId('paginated-document')).not.toBeInTheDocument()
+      expect(ref.current?.getHtml()).toBeNull()
+    })
+  })
+
+  describe('search', () => {
+    it('shows the search box once a document is displayed', () => {
+      render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" />)
+      expect(screen.getByLabelText('Search document')).toBeInTheDocument()
+    })
+
+    it('focuses the search box on Ctrl+F', async () => {
+      const user = userEvent.setup()
+      const { container } = render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" />)
+
+      ;(container.querySelector('.rdv-viewer') as HTMLElement).focus()
+      await user.keyboard('{Control>}f{/Control}')
+
+      expect(screen.getByLabelText('Search document')).toHaveFocus()
+    })
+
+    it('reports results through onSearchResults', async () => {
+      const user = userEvent.setup()
+      const onSearchResults = vi.fn()
+      render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" onSearchResults={onSearchResults} />)
+
+      await user.type(screen.getByLabelText('Search document'), 'x')
+
+      expect(screen.getByText('No results')).toBeInTheDocument()
+      expect(onSearchResults).toHaveBeenLastCalledWith(
+        expect.objectContaining({ query: 'x', matches: [], activeIndex: -1 })
+      )
+    })
+  })
+
+  describe('sidebar', () => {
+    it('toggles the outline sidebar from the toolbar', async () => {
+      const user = userEvent.setup()
+      const onOutlineToggle = vi.fn()
+      const { container } = render(
+        <DocumentViewer useWorker={false} html="<div>Preconverted</div>" onOutlineToggle={onOutlineToggle} />
+      )
+      expect(container.querySelector('.rdv-sidebar')).not.toBeInTheDocument()
+
+      await user.click(screen.getByTitle('Toggle Sidebar'))
+
+      expect(container.querySelector('.rdv-sidebar')).toBeInTheDocument()
+      expect(onOutlineToggle).toHaveBeenCalledWith(true)
+    })
+
+    it('respects the controlled showOutline prop', async () => {
+      const user = userEvent.setup()
+      const { container } = render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" showOutline />)
+      expect(container.querySelector('.rdv-sidebar')).toBeInTheDocument()
+
+      await user.click(screen.getByTitle('Toggle Sidebar'))
+
+      expect(container.querySelector('.rdv-sidebar')).toBeInTheDocument()
+    })
+
+    it('switches between thumbnails and outline panels', async () => {
+      const user = userEvent.setup()
+      const onSidebarChange = vi.fn()
+      render(
+        <DocumentViewer
+          useWorker={false}
+          html="<div>Preconverted</div>"
+          defaultSettings={{}}
+          onSidebarChange={onSidebarChange}
+        />
+      )
+
+      await user.click(screen.getByTitle('Toggle Sidebar'))
+      await user.click(screen.getByRole('tab', { name: 'Pages' }))
+
+      expect(screen.getByRole('list', { name: 'Page thumbnails' })).toBeInTheDocument()
+      expect(onSidebarChange).toHaveBeenLastCalledWith('thumbnails')
+
+      await user.click(screen.getByTitle('Toggle Sidebar'))
+      expect(onSidebarChange).toHaveBeenLastCalledWith('none')
+      await user.click(screen.getByTitle('Toggle Sidebar'))
+      expect(onSidebarChange).toHaveBeenLastCalledWith('thumbnails')
+    })
+
+    it('shows the panel chosen by the sidebar prop', () => {
+      render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" sidebar="thumbnails" showOutline />)
+      expect(screen.getByRole('tab', { name: 'Pages' })).toHaveAttribute('aria-selected', 'true')
+    })
+  })
+
+  describe('gesture zoom', () => {
+    it('zooms in on ctrl+wheel over the pages', async () => {
+      const onSettingsChange = vi.fn()
+      const { container } = render(
+        <DocumentViewer useWorker={false} html="<div>Preconverted</div>" onSettingsChange={onSettingsChange} />
+      )
+      const pages = container.querySelector('.rdv-pages') as HTMLElement
+
+      pages.dispatchEvent(new WheelEvent('wheel', { deltaY: -20, ctrlKey: true, bubbles: true, cancelable: true }))
+
+      await waitFor(() => expect(onSettingsChange).toHaveBeenCalled())
+      const { paginationScale, zoomMode } = onSettingsChange.mock.lastCall![0]
+      expect(zoomMode).toBe('custom')
+      expect(paginationScale).toBeGreaterThan(0.8)
+    })
+
+    it('adds up small pinch steps that each round back to the same zoom', async () => {
+      const onSettingsChange = vi.fn()
+      const { container } = render(
+        <DocumentViewer useWorker={false} html="<div>Preconverted</div>" onSettingsChange={onSettingsChange} />
+      )
+      const pages = container.querySelector('.rdv-pages') as HTMLElement
+
+      for (let i = 0; i < 5; i++) {
+        pages.dispatchEvent(new WheelEvent('wheel', { deltaY: -0.4, ctrlKey: true, bubbles: true, cancelable: true }))
+        await act(() => new Promise((resolve) => requestAnimationFrame(resolve)))
+      }
+
+      expect(onSettingsChange.mock.lastCall![0].paginationScale).toBe(0.82)
+    })
+
+    it('leaves plain wheel scrolling alone', async () => {
+      const onSettingsChange = vi.fn()
+      const { container } = render(
+        <DocumentViewer useWorker={false} html="<div>Preconverted</div>" onSettingsChange={onSettingsChange} />
+      )
+      const pages = container.querySelector('.rdv-pages') as HTMLElement
+      const wheel = new WheelEvent('wheel', { deltaY: -20, bubbles: true, cancelable: true })
+
+      pages.dispatchEvent(wheel)
+      await new Promise((resolve) => requestAnimationFrame(resolve))
+
+      expect(wheel.defaultPrevented).toBe(false)
+      expect(onSettingsChange).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('keyboard shortcuts', () => {
+    function focusViewer(container: HTMLElement) {
+      ;(container.querySelector('.rdv-viewer') as HTMLElement).focus()
+    }
+
+    it('opens the shortcuts help with ? and closes it with Escape', async () => {
+      const user = userEvent.setup()
+      const { container } = render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" />)
+
+      focusViewer(container)
+      await user.keyboard('?')
+      expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeInTheDocument()
+      expect(screen.getByText('Search document')).toBeInTheDocument()
+
+      await user.keyboard('{Escape}')
+      expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument()
+    })
+
+    it('closes the settings modal with Escape', async () => {
+      const user = userEvent.setup()
+      render(<DocumentViewer useWorker={false} />)
+
+      await user.click(screen.getByTitle('Settings'))
+      await user.keyboard('{Escape}')
+
+      expect(screen.queryByText('Viewer Settings')).not.toBeInTheDocument()
+    })
+
+    it('zooms with + and resets with 0', async () => {
+      const user = userEvent.setup()
+      const onSettingsChange = vi.fn()
+      const { container } = render(
+        <DocumentViewer useWorker={false} html="<div>Preconverted</div>" onSettingsChange={onSettingsChange} />
+      )
+
+      focusViewer(container)
+      await user.keyboard('+')
+      expect(onSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ paginationScale: 0.9 }))
+
+      await user.keyboard('0')
+      expect(onSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ paginationScale: 1 }))
+    })
+
+    it('ignores single-key shortcuts while typing in a field', async () => {
+      const user = userEvent.setup()
+      render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" />)
+
+      await user.type(screen.getByLabelText('Search document'), '?')
+
+      expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument()
+    })
+
+    it('applies keyBindings overrides', async () => {
+      const user = userEvent.setup()
+      const { container } = render(
+        <DocumentViewer useWorker={false} html="<div>Preconverted</div>" keyBindings={{ showShortcuts: 'h' }} />
+      )
+
+      focusViewer(container)
+      await user.keyboard('?')
+      expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument()
+
+      await user.keyboard('h')
+      expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeInTheDocument()
+    })
+  })
+
+  describe('file intake', () => {
+    function dropFile(target: Element, file: File) {
+      const dataTransfer = { types: ['Files'], files: [file], dropEffect: 'none' }
+      fireEvent.dragEnter(target, { dataTransfer })
+      fireEvent.drop(target, { dataTransfer })
+    }
+
+    it('passes the accept prop to the file input', () => {
+      const { container } = render(<DocumentViewer useWorker={false} accept=".docx,.docm" />)
+      expect(container.querySelector('input[type="file"]')).toHaveAttribute('accept', '.docx,.docm')
+    })
+
+    it('shows drop feedback while a file is dragged over the content', async () => {
+      const { container } = render(<DocumentViewer useWorker={false} />)
+      await waitForEngine()
+      const content = container.querySelector('.rdv-content')!
+      const dataTransfer = { types: ['Files'], files: [] }
+
+      fireEvent.dragEnter(content, { dataTransfer })
+      expect(screen.getByText('Drop to open')).toBeInTheDocument()
+
+      fireEvent.dragLeave(content, { dataTransfer })
+      expect(screen.queryByText('Drop to open')).not.toBeInTheDocument()
+    })
+
+    it('opens a dropped document', async () => {
+      const onFileChange = vi.fn()
+      const { container } = render(<DocumentViewer useWorker={false} onFileChange={onFileChange} />)
+      await waitForEngine()
+
+      dropFile(container.querySelector('.rdv-content')!, createDocxFile('dropped.docx'))
+
+      expect(await screen.findByTestId('paginated-document')).toBeInTheDocument()
+      expect(onFileChange).toHaveBeenCalledWith(expect.objectContaining({ name: 'dropped.docx' }))
+    })
+
+    it('reads a dropped file\'s package only once', async () => {
+      const { container } = render(<DocumentViewer useWorker={false} />)
+      await waitForEngine()
+      const file = createDocxFile('dropped.docx')
+      const slice = vi.spyOn(file, 'slice')
+
+      dropFile(container.querySelector('.rdv-content')!, file)
+
+      expect(await screen.findByTestId('paginated-document')).toBeInTheDocument()
+      expect(slice.mock.calls.filter(([start, end]) => start === 0 && end === 4)).toHaveLength(1)
+    })
+
+    it('opens a pasted document', async () => {
+      const onFileChange = vi.fn()
+      const { container } = render(<DocumentViewer useWorker={false} onFileChange={onFileChange} />)
+      await waitForEngine()
+
+      fireEvent.paste(container.querySelector('.rdv-viewer')!, { clipboardData: { files: [createDocxFile('pasted.docx')] } })
+
+      await waitFor(() => expect(onFileChange).toHaveBeenCalledWith(expect.objectContaining({ name: 'pasted.docx' })))
+    })
+
+    it('rejects files of other types with a clear message', async () => {
+      const onError = vi.fn()
+      const onFileChange = vi.fn()
+      const { container } = render(<DocumentViewer useWorker={false} onError={onError} onFileChange={onFileChange} />)
+      await waitForEngine()
+
+      dropFile(container.querySelector('.rdv-content')!, new File(['%PDF'], 'scan.pdf', { type: 'application/pdf' }))
+
+      expect(await screen.findByText(/"scan.pdf" is not a supported file type/)).toBeInTheDocument()
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ reason: 'unsupported-type' }))
+      expect(onFileChange).not.toHaveBeenCalled()
+    })
+
+    it('rejects files that are not Word packages', async () => {
+      const { container } = render(<DocumentViewer useWorker={false} />)
+      await waitForEngine()
+
+      dropFile(container.querySelector('.rdv-content')!, new File(['not a zip'], 'renamed.docx'))
+
+      expect(await screen.findByText('Error: "renamed.docx" is not a Word document.')).toBeInTheDocument()
+    })
+
+    it('rejects files over maxFileSize', async () => {
+      const onError = vi.fn()
+      const { container } = render(<DocumentViewer useWorker={false} maxFileSize={10} onError={onError} />)
+      await waitForEngine()
+      await waitForEngine()
+
+      dropFile(container.querySelector('.rdv-content')!, createDocxFile())
+
+      await waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({ reason: 'too-large' })))
+    })
+  })
+
+  describe('conversion sequencing', () => {
+    const defaultCreateWorker = vi.mocked(createWorkerDocxodus).getMockImplementation()!
+    afterEach(() => {
+      vi.mocked(createWorkerDocxodus).mockImplementation(defaultCreateWorker)
+    })
+
+    // Worker whose conversions and revision extractions resolve only when the test says so
+    function createControlledWorker() {
+      const conversions = new Map<string, (html: string) => void>()
+      const revisionRequests = new Map<string, (revisions: []) => void>()
+      const worker = {
+        convertDocxToHtml: vi.fn((file: File) => new Promise<string>((resolve) => conversions.set(file.name, resolve))),
+        getRevisions: vi.fn((file: File) => new Promise<[]>((resolve) => revisionRequests.set(file.name, resolve))),
+        getDocumentMetadata: vi.fn().mockRejectedValue(new Error('no metadata')),
+        terminate: vi.fn(),
+        isActive: vi.fn().mockReturnValue(true),
+      }
+      // Cancelling terminates the worker; the pool's replacement is the same controllable mock
+      vi.mocked(createWorkerDocxodus).mockImplementation(async () => worker as unknown as WorkerDocxodus)
+      return { worker, conversions, revisionRequests }
+    }
+
+    async function openFile(container: HTMLElement, name: string) {
+      await waitFor(() => expect(vi.mocked(createWorkerDocxodus)).toHaveBeenCalled())
+      await waitFor(() => expect(screen.queryByText('Loading document engine...')).not.toBeInTheDocument())
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [createDocxFile(name)] } })
+    }
+
+    it('ignores results from a conversion superseded by another file', async () => {
+      const { worker, conversions, revisionRequests } = createControlledWorker()
+      const onConversionComplete = vi.fn()
+      const onConversionCancelled = vi.fn()
+      const onRevisionsExtracted = vi.fn()
+      const { container } = render(
+        <DocumentViewer
+          onConversionComplete={onConversionComplete}
+          onConversionCancelled={onConversionCancelled}
+          onRevisionsExtracted={onRevisionsExtracted}
+        />
+      )
+
+      await openFile(container, 'a.docx')
+      await waitFor(() => expect(conversions.has('a.docx')).toBe(true))
+      await openFile(container, 'b.docx')
+      await waitFor(() => expect(conversions.has('b.docx')).toBe(true))
+      expect(onConversionCancelled).toHaveBeenCalledTimes(1)
+
+      await act(async () => conversions.get('b.docx')!('<p>B</p>'))
+      await act(async () => conversions.get('a.docx')!('<p>A</p>'))
+
+      expect(screen.getByTestId('paginated-document')).toHaveTextContent('<p>B</p>')
+      expect(onConversionComplete).toHaveBeenCalledTimes(1)
+      expect(onConversionComplete).toHaveBeenCalledWith('<p>B</p>', { cacheHit: false })
+      expect(worker.getRevisions).toHaveBeenCalledTimes(1)
+      await act(async () => revisionRequests.get('b.docx')!([]))
+      expect(onRevisionsExtracted).toHaveBeenCalledTimes(1)
+    })
+
+    it('cancels a conversion and restarts the worker', async () => {
+      const { worker, conversions } = createControlledWorker()
+      const onConversionCancelled = vi.fn()
+      const onError = vi.fn()
+      const { container } = render(<DocumentViewer onConversionCancelled={onConversionCancelled} onError={onError} />)
+
+      await openFile(container, 'slow.docx')
+      await waitFor(() => expect(conversions.has('slow.docx')).toBe(true))
+      await userEvent.click(screen.getByRole('button', { name: 'Cancel' }))
+
+      expect(onConversionCancelled).toHaveBeenCalledTimes(1)
+      expect(worker.terminate).toHaveBeenCalled()
+      expect(await screen.findByText('Conversion cancelled.')).toBeInTheDocument()
+      await userEvent.click(await screen.findByRole('button', { name: 'Convert again' }))
+      await waitFor(() => expect(worker.convertDocxToHtml).toHaveBeenCalledTimes(2))
+      await act(async () => conversions.get('slow.docx')!('<p>Done</p>'))
+      expect(screen.getByTestId('paginated-document')).toHaveTextContent('<p>Done</p>')
+      expect(onError).not.toHaveBeenCalled()
+    })
+
+    it('fails conversions that exceed conversionTimeout', async () => {
+      const { worker, conversions } = createControlledWorker()
+      const onError = vi.fn()
+      const { container } = render(<DocumentViewer conversionTimeout={50} onError={onError} />)
+
+      await openFile(container, 'slow.docx')
+      await waitFor(() => expect(conversions.has('slow.docx')).toBe(true))
+
+      expect(await screen.findByText('Error: Conversion timed out after 50 ms')).toBeInTheDocument()
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'CONVERSION_TIMEOUT' }))
+      expect(worker.terminate).toHaveBeenCalled()
+    })
+
+    it('retries a failed conversion', async () => {
+      const { worker, conversions } = createControlledWorker()
+      worker.convertDocxToHtml.mockRejectedValueOnce(new Error('Converter crashed'))
+      const onError = vi.fn()
+      const { container } = render(<DocumentViewer onError={onError} />)
+
+      await openFile(container, 'flaky.docx')
+      expect(await screen.findByRole('alert')).toHaveTextContent('Error: Converter crashed')
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'CONVERSION_FAILED' }))
+
+      await userEvent.click(screen.getByRole('button', { name: 'Retry' }))
+      await waitFor(() => expect(conversions.has('flaky.docx')).toBe(true))
+      await act(async () => conversions.get('flaky.docx')!('<p>Recovered</p>'))
+      expect(screen.getByTestId('paginated-document')).toHaveTextContent('<p>Recovered</p>')
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+    })
+
+    it('renders errors with renderError', async () => {
+      const { worker } = createControlledWorker()
+      worker.convertDocxToHtml.mockRejectedValueOnce(new Error('Converter crashed'))
+      const renderError = vi.fn((error: DocumentViewerError, actions: { retry?: () => void }) => (
+        <p>Custom {error.code} {actions.retry ? 'retryable' : 'final'}</p>
+      ))
+      const { container } = render(<DocumentViewer renderError={renderError} />)
+
+      await openFile(container, 'flaky.docx')
+      expect(await screen.findByText('Custom CONVERSION_FAILED retryable')).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: 'Retry' })).not.toBeInTheDocument()
+    })
+
+    it('reports failed metadata and revision extraction as warnings', async () => {
+      const { worker, conversions } = createControlledWorker()
+      worker.getRevisions.mockRejectedValueOnce(new Error('Bad revision markup'))
+      const onWarning = vi.fn()
+      const onError = vi.fn()
+      const { container } = render(<DocumentViewer onWarning={onWarning} onError={onError} />)
+
+      await openFile(container, 'odd.docx')
+      await waitFor(() => expect(conversions.has('odd.docx')).toBe(true))
+      await act(async () => conversions.get('odd.docx')!('<p>Odd</p>'))
+
+      await waitFor(() => expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ code: 'REVISION_EXTRACTION_FAILED' })))
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ code: 'METADATA_EXTRACTION_FAILED' }))
+      expect(onError).not.toHaveBeenCalled()
+      expect(screen.getByTestId('paginated-document')).toHaveTextContent('<p>Odd</p>')
+    })
+
+    it('drops results that arrive after unmount', async () => {
+      const { conversions } = createControlledWorker()
+      const onConversionComplete = vi.fn()
+      const { container, unmount } = render(<DocumentViewer onConversionComplete={onConversionComplete} />)
+
+      await openFile(container, 'a.docx')
+      await waitFor(() => expect(conversions.has('a.docx')).toBe(true))
+      unmount()
+      await act(async () => conversions.get('a.docx')!('<p>A</p>'))
+
+      expect(onConversionComplete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('shared engine', () => {
+    it('shares one worker between viewers inside a provider', async () => {
+      vi.mocked(createWorkerDocxodus).mockClear()
+      render(
+        <DocxodusProvider wasmBasePath="/shared/">
+          <DocumentViewer />
+          <DocumentViewer />
+        </DocxodusProvider>
+      )
+
+      await waitFor(() => expect(screen.getAllByText('Open a DOCX file to view')).toHaveLength(2))
+      expect(createWorkerDocxodus).toHaveBeenCalledTimes(1)
+    })
+
+    it('reports the engine mode', async () => {
+      const onEngineModeChange = vi.fn()
+      render(<DocumentViewer useWorker={false} onEngineModeChange={onEngineModeChange} />)
+      await waitFor(() => expect(onEngineModeChange).toHaveBeenCalledWith('main-thread'))
+    })
+
+    it('gives each viewer its own file input id', () => {
+      const { container } = render(
+        <>
+          <DocumentViewer useWorker={false} />
+          <DocumentViewer useWorker={false} />
+        </>
+      )
+
+      const inputs = container.querySelectorAll('input[type="file"]')
+      expect(inputs[0].id).not.toBe(inputs[1].id)
+      container.querySelectorAll('.rdv-toolbar-file-btn').forEach((label, i) => {
+        expect(label).toHaveAttribute('for', inputs[i].id)
+      })
+    })
+
+    it('keeps each viewer\'s settings radios separate', async () => {
+      const user = userEvent.setup()
+      const { container } = render(
+        <>
+          <DocumentViewer useWorker={false} />
+          <DocumentViewer useWorker={false} />
+        </>
+      )
+      const [first, second] = Array.from(container.querySelectorAll<HTMLElement>('.rdv-viewer'))
+      await user.click(within(first).getByTitle('Settings'))
+      await user.click(within(second).getByTitle('Settings'))
+
+      await user.click(within(first).getByRole('radio', { name: 'Margin' }))
+      expect(within(first).getByRole('radio', { name: 'Margin' })).toBeChecked()
+      expect(within(second).getAllByRole('radio', { checked: true })).toHaveLength(2)
+    })
+  })
+
+  describe('conversion cache', () => {
+    it('serves a previously converted document from the cache', async () => {
+      const cache = createMemoryConversionCache()
+      const onConversionComplete = vi.fn()
+      const { container, unmount } = render(
+        <DocumentViewer useWorker={false} cache={cache} onConversionComplete={onConversionComplete} />
+      )
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [createDocxFile()] } })
+      await waitFor(() => expect(onConversionComplete).toHaveBeenCalledWith('<div>Mock HTML</div>', { cacheHit: false }))
+      // The entry is written once revisions and metadata are available
+      await waitFor(async () => expect(await cache.get(
+        await computeCacheKey(await computeFileHash(createDocxFile()), DEFAULT_SETTINGS)
+      )).not.toBeNull())
+      unmount()
+
+      onConversionComplete.mockClear()
+      const second = render(<DocumentViewer useWorker={false} cache={cache} onConversionComplete={onConversionComplete} />)
+      fireEvent.change(second.container.querySelector('input[type="file"]')!, { target: { files: [createDocxFile('copy.docx')] } })
+      await waitFor(() => expect(onConversionComplete).toHaveBeenCalledWith('<div>Mock HTML</div>', { cacheHit: true }))
+    })
+
+    it('hashes the file once for both the cache and the reading position', async () => {
+      const digest = vi.spyOn(crypto.subtle, 'digest')
+      const file = createDocxFile()
+      const onConversionComplete = vi.fn()
+      const { container } = render(
+        <DocumentViewer
+          useWorker={false}
+          cache={createMemoryConversionCache()}
+          persistKey="viewer"
+          persistStorage={{ getItem: () => null, setItem: () => {}, removeItem: () => {} }}
+          onConversionComplete={onConversionComplete}
+        />
+      )
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [file] } })
+      await waitFor(() => expect(onConversionComplete).toHaveBeenCalled())
+
+      const fileDigests = digest.mock.calls.filter(([, data]) => (data as ArrayBufferView).byteLength === file.size)
+      expect(fileDigests).toHaveLength(1)
+      digest.mockRestore()
+    })
+  })
+
+  describe('metrics', () => {
+    const defaultPaginatedDocument = vi.mocked(PaginatedDocument).getMockImplementation()!
+
+    afterEach(() => {
+      vi.mocked(PaginatedDocument).mockImplementation(defaultPaginatedDocument)
+    })
+
+    it('reports load timings once the document is paginated', async () => {
+      vi.mocked(PaginatedDocument).mockImplementation(function Paginating({ html, onPaginationComplete }) {
+        useEffect(() => {
+          onPaginationComplete?.({ totalPages: 4, pages: [] })
+        }, [html, onPaginationComplete])
+        return <div data-testid="paginated-document">{html}</div>
+      })
+      const onMetrics = vi.fn()
+      const { container } = render(<DocumentViewer useWorker={false} onMetrics={onMetrics} showMetricsOverlay />)
+      await waitForEngine()
+
+      const file = createDocxFile()
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [file] } })
+
+      await waitFor(() => expect(onMetrics).toHaveBeenCalledTimes(1))
+      expect(onMetrics).toHaveBeenCalledWith(expect.objectContaining({
+        engineMode: 'main-thread',
+        workerUsed: false,
+        fileSize: file.size,
+        cacheHit: false,
+        htmlSize: '<div>Mock HTML</div>'.length,
+        pageCount: 4,
+        conversionTime: expect.any(Number),
+        metadataTime: expect.any(Number),
+        revisionExtractionTime: expect.any(Number),
+        paginationTime: expect.any(Number),
+      }))
+      expect(screen.getByLabelText('Load metrics')).toHaveTextContent('Pages4')
+    })
+  })
+
+  describe('URL hash sync', () => {
+    const defaultPaginatedDocument = vi.mocked(PaginatedDocument).getMockImplementation()!
+    const scrollIntoView = vi.fn()
+
+    beforeEach(() => {
+      Element.prototype.scrollIntoView = scrollIntoView
+      vi.mocked(PaginatedDocument).mockImplementation(function Paginating({ html, onPaginationComplete }) {
+        useEffect(() => {
+          onPaginationComplete?.({ totalPages: 3, pages: [] })
+        }, [html, onPaginationComplete])
+        return (
+          <div data-testid="paginated-document">
+            <div data-page-number="1">First page</div>
+            <div data-page-number="2"><h2 id="Section_2">Second page</h2></div>
+            <div data-page-number="3">Third page</div>
+          </div>
+        )
+      })
+    })
+
+    afterEach(() => {
+      vi.mocked(PaginatedDocument).mockImplementation(defaultPaginatedDocument)
+      scrollIntoView.mockClear()
+      delete (Element.prototype as Partial<Element>).scrollIntoView
+    })
+
+    // Adapter standing in for a router: `navigate` changes the hash the way a link would
+    function createHashAdapter(initialHash: string) {
+      let hash = initialHash
+      const listeners = new Set<() => void>()
+      return {
+        getHash: () => hash,
+        setHash: vi.fn((next: string) => { hash = next }),
+        subscribe: (listener: () => void) => {
+          listeners.add(listener)
+          return () => { listeners.delete(listener) }
+        },
+        navigate: (next: string) => {
+          hash = next
+          listeners.forEach((listener) => listener())
+        },
+      }
+    }
+
+    it('opens at the page and search in the hash and writes changes back', async () => {
+      const adapter = createHashAdapter('page=3&search=Third&tab=notes')
+      const ref = createRef<DocumentViewerHandle>()
+      const { container } = render(
+        <DocumentViewer ref={ref} useWorker={false} html="<div>Preconverted</div>" syncUrlHash={adapter} />
+      )
+
+      await waitFor(() => expect(scrollIntoView.mock.contexts).toContain(container.querySelector('[data-page-number="3"]')))
+      expect(container.querySelector('mark')).toHaveTextContent('Third')
+
+      act(() => ref.current?.setZoom(1.5))
+      await waitFor(() => expect(adapter.setHash).toHaveBeenCalledWith('tab=notes&page=1&zoom=150&search=Third'))
+    })
+
+    it('follows bookmarks and views navigated to', async () => {
+      const adapter = createHashAdapter('')
+      const { container } = render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" syncUrlHash={adapter} />)
+      await screen.findByTestId('paginated-document')
+
+      act(() => adapter.navigate('bookmark=Section_2'))
+      expect(scrollIntoView.mock.contexts).toContain(container.querySelector('#Section_2'))
+
+      act(() => adapter.navigate('view=revisions'))
+      expect(screen.queryByTestId('paginated-document')).not.toBeInTheDocument()
+      act(() => adapter.navigate('page=2'))
+      expect(await screen.findByTestId('paginated-document')).toBeInTheDocument()
+      await waitFor(() => expect(scrollIntoView.mock.contexts).toContain(container.querySelector('[data-page-number="2"]')))
+    })
+  })
+
+  describe('revision navigation', () => {
+    const defaultCreateWorker = vi.mocked(createWorkerDocxodus).getMockImplementation()!
+    const defaultPaginatedDocument = vi.mocked(PaginatedDocument).getMockImplementation()!
+    const scrollIntoView = vi.fn()
+
+    beforeEach(() => {
+      Element.prototype.scrollIntoView = scrollIntoView
+      // Pages are rendered outside React, as pagination does
+      vi.mocked(PaginatedDocument).mockImplementation(function Paginating({ html, onPaginationComplete }) {
+        const pageRef = useRef<HTMLDivElement>(null)
+        useEffect(() => {
+          pageRef.current!.innerHTML = html
+          const dimensions = { pageWidth: 612, pageHeight: 792 } as PaginationResult['pages'][number]['dimensions']
+          const pages = [{ pageNumber: 1, sectionIndex: 0, element: pageRef.current!, dimensions }]
+          onPaginationComplete?.({ totalPages: 1, pages })
+        }, [html, onPaginationComplete])
+        return <div ref={pageRef} data-testid="paginated-document" data-page-number="1" />
+      })
+    })
+
+    afterEach(() => {
+      vi.mocked(createWorkerDocxodus).mockImplementation(defaultCreateWorker)
+      vi.mocked(PaginatedDocument).mockImplementation(defaultPaginatedDocument)
+      scrollIntoView.mockClear()
+      delete (Element.prototype as Partial<Element>).scrollIntoView
+    })
+
+    it('jumps between revisions and their markup, rendering tracked changes first', async () => {
+      const worker = {
+        // Tracked changes are only marked up when rendered
+        convertDocxToHtml: vi.fn(async (_file: File, options: { renderTrackedChanges: boolean }) => (
+          options.renderTrackedChanges ? '<p>Kept <ins data-author="Ann">added</ins></p>' : '<p>Kept added</p>'
+        )),
+        getRevisions: vi.fn().mockResolvedValue([
+          { author: 'Ann', date: '2024-01-15T10:30:00Z', revisionType: 'Inserted', text: 'added' },
+        ]),
+        getDocumentMetadata: vi.fn().mockResolvedValue(null),
+        terminate: vi.fn(),
+        isActive: vi.fn().mockReturnValue(true),
+      }
+      vi.mocked(createWorkerDocxodus).mockImplementation(async () => worker as unknown as WorkerDocxodus)
+      const user = userEvent.setup()
+      const { container } = render(<DocumentViewer />)
+      await waitForEngine()
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [createDocxFile()] } })
+
+      await user.click(await screen.findByText('Changes (1)'))
+      await user.click(screen.getByTitle('Show in document'))
+
+      const inserted = await waitFor(() => {
+        const element = container.querySelector('ins')
+        expect(element).toBeInTheDocument()
+        return element!
+      })
+      expect(worker.convertDocxToHtml).toHaveBeenLastCalledWith(
+        expect.anything(), expect.objectContaining({ renderTrackedChanges: true })
+      )
+      await waitFor(() => expect(scrollIntoView.mock.contexts).toContain(inserted))
+      expect(inserted).toHaveClass('rdv-footnote-highlight')
+
+      await user.click(inserted)
+      expect(screen.queryByTestId('paginated-document')).not.toBeInTheDocument()
+      expect(screen.getByTitle('Show in document')).toHaveAttribute('aria-current', 'true')
+    })
+
+    it('shows the document and its changes side by side', async () => {
+      const worker = {
+        convertDocxToHtml: vi.fn().mockResolvedValue('<p>Kept <del data-author="Ann">removed</del></p>'),
+        getRevisions: vi.fn().mockResolvedValue([
+          { author: 'Ann', date: '2024-01-15T10:30:00Z', revisionType: 'Deleted', text: 'removed' },
+        ]),
+        getDocumentMetadata: vi.fn().mockResolvedValue(null),
+        terminate: vi.fn(),
+        isActive: vi.fn().mockReturnValue(true),
+      }
+      vi.mocked(createWorkerDocxodus).mockImplementation(async () => worker as unknown as WorkerDocxodus)
+      const user = userEvent.setup()
+      const onSettingsChange = vi.fn()
+      const { container } = render(
+        <DocumentViewer defaultSettings={{ renderTrackedChanges: true }} onSettingsChange={onSettingsChange} />
+      )
+      await waitForEngine()
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [createDocxFile()] } })
+
+      await user.click(await screen.findByText('Split'))
+      const item = screen.getByTitle('Show in document')
+      await waitFor(() => expect(item).toHaveClass('rdv-revision-item--current-page'))
+
+      await user.click(container.querySelector('del')!)
+      expect(item).toHaveAttribute('aria-current', 'true')
+      expect(screen.getByTestId('paginated-document')).toBeInTheDocument()
+
+      screen.getByRole('separator').focus()
+      await user.keyboard('{ArrowLeft}')
+      expect(onSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ revisionPanelWidth: 40 }))
+      expect(container.querySelector('.rdv-split-panel')).toHaveStyle({ width: '40%' })
+    })
+
+    it('groups the changes list by page, keeping the grouping in the settings', async () => {
+      const worker = {
+        convertDocxToHtml: vi.fn().mockResolvedValue('<p>Kept <del data-author="Ann">removed</del></p>'),
+        getRevisions: vi.fn().mockResolvedValue([
+          { author: 'Ann', date: '2024-01-15T10:30:00Z', revisionType: 'Deleted', text: 'removed' },
+          { author: 'Ann', date: '2024-01-15T10:30:00Z', revisionType: 'FormatChanged', text: '' },
+        ]),
+        getDocumentMetadata: vi.fn().mockResolvedValue(null),
+        terminate: vi.fn(),
+        isActive: vi.fn().mockReturnValue(true),
+      }
+      vi.mocked(createWorkerDocxodus).mockImplementation(async () => worker as unknown as WorkerDocxodus)
+      const user = userEvent.setup()
+      const onSettingsChange = vi.fn()
+      const { container } = render(
+        <DocumentViewer defaultSettings={{ renderTrackedChanges: true }} onSettingsChange={onSettingsChange} />
+      )
+      await waitForEngine()
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [createDocxFile()] } })
+      await waitFor(() => expect(container.querySelector('del')).toBeInTheDocument())
+
+      // Pages are mapped while the document is showing and kept for the Changes tab
+      await user.click(screen.getByText('Changes (2)'))
+      expect(screen.getByText('p. 1')).toBeInTheDocument()
+      await user.selectOptions(screen.getByLabelText('Group'), 'page')
+      expect(onSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ revisionGroupBy: 'page' }))
+      expect(screen.getByRole('button', { name: /Page 1/ })).toHaveAttribute('aria-expanded', 'true')
+      expect(screen.getByRole('button', { name: /Not on a page/ })).toBeInTheDocument()
+    })
+
+    it('keeps the changes list filtered across views', async () => {
+      const worker = {
+        convertDocxToHtml: vi.fn().mockResolvedValue('<p>Kept</p>'),
+        getRevisions: vi.fn().mockResolvedValue([
+          { author: 'Ann', date: '2024-01-15T10:30:00Z', revisionType: 'Inserted', text: 'liability cap' },
+          { author: 'Bob', date: '2024-01-16T10:30:00Z', revisionType: 'Deleted', text: 'indemnity' },
+        ]),
+        getDocumentMetadata: vi.fn().mockResolvedValue(null),
+        terminate: vi.fn(),
+        isActive: vi.fn().mockReturnValue(true),
+      }
+      vi.mocked(createWorkerDocxodus).mockImplementation(async () => worker as unknown as WorkerDocxodus)
+      const user = userEvent.setup()
+      const onRevisionFilterChange = vi.fn()
+      const { container } = render(<DocumentViewer onRevisionFilterChange={onRevisionFilterChange} />)
+      await waitForEngine()
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [createDocxFile()] } })
+
+      await user.click(await screen.findByText('Changes (2)'))
+      await user.type(screen.getByLabelText('Filter changes by text'), 'cap')
+      expect(onRevisionFilterChange).toHaveBeenLastCalledWith(expect.objectContaining({ text: 'cap' }))
+
+      await user.click(screen.getByText('Document'))
+      await user.click(screen.getByText('Split'))
+      expect(screen.getByText('1 of 2 changes')).toBeInTheDocument()
+      expect(screen.getByText('liability cap')).toBeInTheDocument()
+      expect(screen.queryByText('indemnity')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('progressive rendering', () => {
+    const defaultCreateWorker = vi.mocked(createWorkerDocxodus).getMockImplementation()!
+    const defaultPaginatedDocument = vi.mocked(PaginatedDocument).getMockImplementation()!
+
+    afterEach(() => {
+      vi.mocked(createWorkerDocxodus).mockImplementation(defaultCreateWorker)
+      vi.mocked(PaginatedDocument).mockImplementation(defaultPaginatedDocument)
+    })
+
+    function createLongDocument() {
+      const paragraphs = Array.from({ length: 60 }, (_, i) => `<w:p><w:r><w:t>Paragraph ${i + 1}</w:t></w:r></w:p>`)
+      const xml = `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs.join('')}<w:sectPr/></w:body></w:document>`
+      return new File([createZipBytes({ '[Content_Types].xml': '<Types/>', 'word/document.xml': xml })], 'long.docx')
+    }
+
+    it('shows the first pages while the full document converts', async () => {
+      let finishConversion: (html: string) => void = () => {}
+      const worker = {
+        convertDocxToHtml: vi.fn()
+          .mockResolvedValueOnce('<p>Preview</p>')
+          .mockReturnValueOnce(new Promise<string>((resolve) => { finishConversion = resolve })),
+        getRevisions: vi.fn().mockResolvedValue([]),
+        getDocumentMetadata: vi.fn().mockResolvedValue({
+          sections: [{ pageWidthPt: 612, pageHeightPt: 792 }],
+          totalParagraphs: 400,
+          totalTables: 0,
+          estimatedPageCount: 40,
+        }),
+        terminate: vi.fn(),
+        isActive: vi.fn().mockReturnValue(true),
+      }
+      vi.mocked(createWorkerDocxodus).mockImplementation(async () => worker as unknown as WorkerDocxodus)
+      vi.mocked(PaginatedDocument).mockImplementation(function Paginating({ html, onPaginationComplete }) {
+        useEffect(() => {
+          onPaginationComplete?.({ totalPages: html.includes('Preview') ? 3 : 40, pages: [] })
+        }, [html, onPaginationComplete])
+        return <div data-testid="paginated-document">{html}</div>
+      })
+      const onConversionProgress = vi.fn()
+      const { container } = render(<DocumentViewer progressive onConversionProgress={onConversionProgress} />)
+      await waitForEngine()
+
+      const file = createLongDocument()
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [file] } })
+
+      await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('Showing the first 3 pages while the rest of the document converts'))
+      expect(screen.getByTestId('paginated-document')).toHaveTextContent('<p>Preview</p>')
+      const [[preview], [full]] = worker.convertDocxToHtml.mock.calls
+      expect(preview.size).toBeLessThan(file.size)
+      expect(full).toBe(file)
+      expect(onConversionProgress).toHaveBeenLastCalledWith({ pagesAvailable: 3, estimatedTotalPages: 40, complete: false })
+
+      await act(async () => finishConversion('<p>Full</p>'))
+      expect(screen.getByTestId('paginated-document')).toHaveTextContent('<p>Full</p>')
+      expect(screen.queryByRole('status')).not.toBeInTheDocument()
+      expect(onConversionProgress).toHaveBeenLastCalledWith({ pagesAvailable: 40, estimatedTotalPages: 40, complete: true })
+    })
+  })
+
+  describe('virtualization', () => {
+    const defaultPaginatedDocument = vi.mocked(PaginatedDocument).getMockImplementation()!
+    const scrollIntoView = vi.fn()
+    let observers: FakeIntersectionObserver[] = []
+
+    class FakeIntersectionObserver {
+      callback: IntersectionObserverCallback
+      targets = new Set<Element>()
+      constructor(callback: IntersectionObserverCallback) {
+        this.callback = callback
+        observers.push(this)
+      }
+      observe(target: Element) {
+        this.targets.add(target)
+      }
+      unobserve(target: Element) {
+        this.targets.delete(target)
+      }
+      disconnect() {
+        this.targets.clear()
+      }
+    }
+
+    // Report the observed pages (or their placeholders) near the viewport
+    const showPages = (...pageNumbers: number[]) => act(() => {
+      observers.forEach((observer) => {
+        const entries = Array.from(observer.targets, (target) => ({
+          target,
+          isIntersecting: pageNumbers.includes(Number((target as HTMLElement).dataset.pageNumber)),
+        }))
+        observer.callback(entries as unknown as IntersectionObserverEntry[], observer as unknown as IntersectionObserver)
+      })
+    })
+
+    beforeEach(() => {
+      Element.prototype.scrollIntoView = scrollIntoView
+      vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver)
+      // Pages are rendered outside React, as pagination does
+      vi.mocked(PaginatedDocument).mockImplementation(function Paginating({ html, onPaginationComplete }) {
+        const containerRef = useRef<HTMLDivElement>(null)
+        useEffect(() => {
+          const container = containerRef.current!
+          container.innerHTML = [
+            '<p>First page, <a href="#note-3">see the note</a></p>',
+            '<p>Second page</p>',
+            '<p>Third page with a needle</p><p id="note-3">The note</p>',
+          ].map((content, i) => (
+            `<div class="page-box" style="width: 612pt; height: 792pt" data-page-number="${i + 1}">${content}</div>`
+          )).join('')
+          const dimensions = { pageWidth: 612, pageHeight: 792 } as PaginationResult['pages'][number]['dimensions']
+          const pages = Array.from(container.children, (element, i) => (
+            { pageNumber: i + 1, sectionIndex: 0, dimensions, element: element as HTMLElement }
+          ))
+          onPaginationComplete?.({ totalPages: pages.length, pages })
+        }, [html, onPaginationComplete])
+        return <div ref={containerRef} data-testid="paginated-document" />
+      })
+    })
+
+    afterEach(() => {
+      vi.mocked(PaginatedDocument).mockImplementation(defaultPaginatedDocument)
+      vi.unstubAllGlobals()
+      vi.restoreAllMocks()
+      observers = []
+      scrollIntoView.mockClear()
+      delete (Element.prototype as Partial<Element>).scrollIntoView
+    })
+
+    it('keeps pages away from the viewport out of the DOM', async () => {
+      const { container } = render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" virtualize />)
+      await screen.findByText('Third page with a needle')
+
+      showPages(1)
+      expect(screen.getByText('see the note')).toBeInTheDocument()
+      expect(screen.queryByText('Second page')).not.toBeInTheDocument()
+      expect(screen.queryByText('Third page with a needle')).not.toBeInTheDocument()
+      const placeholder = container.querySelector<HTMLElement>('[data-page-number="3"]')!
+      expect(placeholder).toHaveClass('page-box', 'rdv-page-placeholder')
+      expect(placeholder).toBeEmptyDOMElement()
+      expect(placeholder.style.width).toBe('612pt')
+      expect(placeholder.style.height).toBe('792pt')
+
+      showPages(2, 3)
+      expect(screen.queryByText('see the note')).not.toBeInTheDocument()
+      expect(screen.getByText('Third page with a needle')).toBeInTheDocument()
+    })
+
+    it('swaps out pages away from the viewport as soon as they are paginated', async () => {
+      // A 600px viewport with 1000px pages stacked from its top
+      vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (this: Element) {
+        const pageNumber = Number((this as HTMLElement).dataset.pageNumber ?? 0)
+        const top = pageNumber ? (pageNumber - 1) * 1000 : 0
+        const height = pageNumber ? 1000 : 600
+        return { top, bottom: top + height, left: 0, right: 800, width: 800, height, x: 0, y: top } as DOMRect
+      })
+      const { container } = render(<DocumentViewer useWorker={false} html="<div>Preconverted</div>" virtualize />)
+
+      // Without waiting for the intersection observer to report
+      await waitFor(() => expect(screen.queryByText('Second page')).not.toBeInTheDocument())
+      expect(screen.getByText('see the note')).toBeInTheDocument()
+      expect(screen.queryByText('Third page with a needle')).not.toBeInTheDocument()
+      const placeholder = container.querySelector<HTMLElement>('[data-page-number="3"]')!
+      expect(placeholder).toHaveClass('rdv-page-placeholder')
+      expect(placeholder.style.height).toBe('792pt')
+
+      // The placeholders are watched for the pages coming into range
+      showPages(1, 2)
+      expect(screen.getByText('Second page')).toBeInTheDocument()
+    })
+
+    it('reaches pages outside the viewport by search, anchors and navigation', async () => {
+      const ref = createRef<DocumentViewerHandle>()
+      const { container } = render(<DocumentViewer ref={ref} useWorker={false} html="<div>Preconverted</div>" virtualize />)
+      await screen.findByText('Third page with a needle')
+      showPages(1)
+
+      // Search finds the hit and renders its page to scroll to it
+      act(() => {
+        expect(ref.current!.search('needle')).toBe(1)
+      })
+      const hit = container.querySelector('mark.rdv-search-hit--active')!
+      expect(hit).toHaveTextContent('needle')
+      expect(scrollIntoView.mock.contexts).toContain(hit)
+      expect(screen.queryByText('Second page')).not.toBeInTheDocument()
+
+      // The highlight comes back with the page
+      showPages(1)
+      expect(container.querySelector('mark')).toBeNull()
+      showPages(1, 3)
+      expect(container.querySelector('mark.rdv-search-hit--active')).toHaveTextContent('needle')
+
+      // Links render the page of their target
+      showPages(1)
+      fireEvent.click(screen.getByText('see the note'))
+      const note = screen.getByText('The note')
+      expect(scrollIntoView.mock.contexts).toContain(note)
+      expect(note).toHaveClass('rdv-footnote-highlight')
+
+      // Page navigation scrolls to the placeholder, and the page renders as it comes into range
+      showPages(1)
+      act(() => ref.current!.goToPage(2))
+      const target = scrollIntoView.mock.contexts.at(-1) as HTMLElement
+      expect(target).toHaveClass('rdv-page-placeholder')
+      expect(target.dataset.pageNumber).toBe('2')
+      showPages(2)
+      expect(screen.getByText('Second page')).toBeInTheDocument()
+    })
+  })
 })
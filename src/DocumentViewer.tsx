@@ -1,18 +1,65 @@
-import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { useDocxodus, PaginatedDocument } from 'docxodus/react';
+import { useState, useCallback, useRef, useEffect, useMemo, useId, forwardRef, useImperativeHandle } from 'react';
+import { PaginatedDocument } from 'docxodus/react';
 import type { PaginationResult, Revision, DocumentMetadata } from 'docxodus/react';
-import { CommentRenderMode, PaginationMode, AnnotationLabelMode, getDocumentMetadata } from 'docxodus';
-import { createWorkerDocxodus, isWorkerSupported } from 'docxodus/worker';
-import type { WorkerDocxodus } from 'docxodus/worker';
+import { CommentRenderMode, PaginationMode, AnnotationLabelMode } from 'docxodus';
 import type {
   DocumentViewerProps,
+  DocumentViewerHandle,
   ViewerSettings,
   CommentMode,
   AnnotationMode,
   ViewMode,
+  OutlineItem,
+  SidebarMode,
+  ZoomMode,
+  PrintOptions,
+  DocumentMetrics,
+  ConversionProgress,
+  RevisionFilter,
 } from './types';
-import { DEFAULT_SETTINGS } from './types';
+import { DEFAULT_SETTINGS, DEFAULT_REVISION_FILTER } from './types';
 import { RevisionPanel } from './components/RevisionPanel';
+import { SearchBox } from './components/SearchBox';
+import { OutlinePanel } from './components/OutlinePanel';
+import { ThumbnailRail } from './components/ThumbnailRail';
+import { ShortcutsHelp } from './components/ShortcutsHelp';
+import { PrintDialog } from './components/PrintDialog';
+import { SettingsModal } from './components/SettingsModal';
+import { MetricsOverlay } from './components/MetricsOverlay';
+import { SplitDivider } from './components/SplitDivider';
+import { useLatestRef } from './hooks/useLatestRef';
+import { useDocumentSearch } from './hooks/useDocumentSearch';
+import { useElementSize } from './hooks/useElementSize';
+import { useGestureZoom } from './hooks/useGestureZoom';
+import { useDocxodusEngine } from './hooks/useDocxodusEngine';
+import { usePageVirtualization } from './hooks/usePageVirtualization';
+import { useViewerPersistence } from './hooks/useViewerPersistence';
+import { useConversionCache } from './hooks/useConversionCache';
+import { useUrlHashSync } from './hooks/useUrlHashSync';
+import { useViewerKeymap } from './hooks/useViewerKeymap';
+import { useFileDrop } from './hooks/useFileDrop';
+import { useSourceDownload } from './hooks/useSourceDownload';
+import { formatBytes } from './utils/loadDocumentSource';
+import { buildOutline, getActiveOutlineId, OUTLINE_ID_ATTRIBUTE } from './utils/outline';
+import {
+  MIN_ZOOM,
+  MAX_ZOOM,
+  ZOOM_PRESETS,
+  clampZoom,
+  getPageSizes,
+  getFitScale,
+} from './utils/zoom';
+import { captureScrollAnchor, restoreScrollAnchor } from './utils/scrollAnchor';
+import { createPreviewDocument, getPreviewBlockCount } from './utils/previewDocument';
+import type { ScrollAnchor } from './utils/scrollAnchor';
+import { hasConversionChanges } from './utils/settings';
+import { findRevisionMarkup, getRevisionPageNumbers, getRevisionRenderSettings } from './utils/revisionMarkup';
+import { parsePageRange, printPages, getSectionPageSizes } from './utils/print';
+import { validateDocumentFile, DEFAULT_ACCEPT } from './utils/validateDocumentFile';
+import { computeFileHash } from './utils/conversionCache';
+import type { ViewerHashState } from './utils/urlHash';
+import { DocumentViewerError, toDocumentViewerError, isRetryableError } from './utils/errors';
+import { startMeasure } from './utils/metrics';
 
 function getCommentRenderMode(mode: CommentMode): CommentRenderMode {
   switch (mode) {
@@ -33,15 +80,47 @@ function getAnnotationLabelMode(mode: AnnotationMode): AnnotationLabelMode | und
   }
 }
 
-export function DocumentViewer({
+// Whether `current` has every setting in `required`
+function hasSettings(current: ViewerSettings, required: Partial<ViewerSettings>): boolean {
+  return (Object.keys(required) as (keyof ViewerSettings)[]).every((key) => current[key] === required[key]);
+}
+
+/**
+ * Run `job`, aborting `controller` with a TimeoutError if it takes longer than `timeout` ms.
+ * A worker conversion is stopped by the abort; a main-thread one finishes but is discarded.
+ */
+async function withTimeout<T>(controller: AbortController, timeout: number | undefined, job: () => Promise<T>): Promise<T> {
+  if (!timeout) return job();
+  const timer = setTimeout(() => {
+    const duration = timeout >= 1000 ? `${Math.round(timeout / 1000)} seconds` : `${timeout} ms`;
+    controller.abort(new DocumentViewerError('CONVERSION_TIMEOUT', `Conversion timed out after ${duration}`));
+  }, timeout);
+  try {
+    return await job();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export const DocumentViewer = forwardRef<DocumentViewerHandle, DocumentViewerProps>(function DocumentViewer({
   file: controlledFile,
   html: controlledHtml,
+  source,
+  signal,
   onFileChange,
+  onLoadProgress,
   onConversionStart,
   onConversionComplete,
+  onConversionCancelled,
+  onConversionProgress,
+  onEngineModeChange,
   onError,
+  onWarning,
+  renderError,
   onPageChange,
   onRevisionsExtracted,
+  onSearchResults,
+  onMetrics,
   settings: controlledSettings,
   defaultSettings,
   onSettingsChange,
@@ -49,11 +128,28 @@ export function DocumentViewer({
   style,
   toolbar = 'top',
   showSettingsButton = true,
+  sidebar: controlledSidebar,
+  onSidebarChange,
+  showOutline: controlledShowOutline,
+  onOutlineToggle,
   showRevisionsTab = true,
+  revisionFilter: controlledRevisionFilter,
+  onRevisionFilterChange,
+  keyBindings: keyBindingOverrides,
+  accept = DEFAULT_ACCEPT,
+  maxFileSize,
+  cache = false,
   placeholder = 'Open a DOCX file to view',
+  persistKey,
+  persistStorage,
+  syncUrlHash = false,
+  showMetricsOverlay = false,
+  virtualize = false,
+  progressive = false,
   wasmBasePath,
   useWorker = true,
-}: DocumentViewerProps) {
+  conversionTimeout,
+}, ref) {
   // Merge default settings
   const mergedDefaults = useMemo(
     () => ({ ...DEFAULT_SETTINGS, ...defaultSettings }),
@@ -63,88 +159,193 @@ export function DocumentViewer({
   // Internal state (uncontrolled mode)
   const [internalFile, setInternalFile] = useState<File | null>(null);
   const [internalHtml, setInternalHtml] = useState<string | null>(null);
-  const [internalSettings, setInternalSettings] = useState<ViewerSettings>(mergedDefaults);
 
   // Determine which values to use (controlled vs uncontrolled)
   const file = controlledFile !== undefined ? controlledFile : internalFile;
   const html = controlledHtml !== undefined ? controlledHtml : internalHtml;
-  const settings = useMemo(
-    () => controlledSettings
-      ? { ...mergedDefaults, ...controlledSettings }
-      : internalSettings,
-    [controlledSettings, mergedDefaults, internalSettings]
-  );
-
-  // Docxodus hook (used when not in worker mode)
-  const hookResult = useDocxodus(wasmBasePath);
 
-  // Worker instance state (used when useWorker=true)
-  const [worker, setWorker] = useState<WorkerDocxodus | null>(null);
-  const [workerReady, setWorkerReady] = useState(false);
-  const [workerLoading, setWorkerLoading] = useState(false);
-  const [workerError, setWorkerError] = useState<Error | null>(null);
+  // Conversion engine: shared through a DocxodusProvider, or owned by this viewer
+  const {
+    engine,
+    isReady,
+    isLoading,
+    error: engineLoadError,
+    mode: engineMode,
+    reload: reloadEngine,
+  } = useDocxodusEngine(useWorker, wasmBasePath);
+  const initError = useMemo(
+    () => engineLoadError && toDocumentViewerError(engineLoadError, 'ENGINE_LOAD_FAILED'),
+    [engineLoadError]
+  );
 
-  // Create/destroy worker based on useWorker prop
-  const workerRef = useRef<WorkerDocxodus | null>(null);
+  // Non-fatal problems are reported without interrupting the viewer
+  const onWarningRef = useLatestRef(onWarning);
+  const reportWarning = useCallback((err: unknown, code: DocumentViewerError['code']) => {
+    onWarningRef.current?.(toDocumentViewerError(err, code));
+  }, [onWarningRef]);
 
+  // Report where conversions run, including a fallback from workers to the main thread
+  const onEngineModeChangeRef = useLatestRef(onEngineModeChange);
   useEffect(() => {
-    if (!useWorker || !isWorkerSupported()) {
-      return;
+    if (engineMode) {
+      onEngineModeChangeRef.current?.(engineMode);
     }
+  }, [engineMode, onEngineModeChangeRef]);
 
-    let cancelled = false;
-    setWorkerLoading(true);
-    setWorkerError(null);
-
-    createWorkerDocxodus({ wasmBasePath })
-      .then((workerInstance) => {
-        if (!cancelled) {
-          workerRef.current = workerInstance;
-          setWorker(workerInstance);
-          setWorkerReady(true);
-          setWorkerLoading(false);
-        } else {
-          workerInstance.terminate();
-        }
-      })
-      .catch((err) => {
-        if (!cancelled) {
-          setWorkerError(err instanceof Error ? err : new Error(String(err)));
-          setWorkerLoading(false);
-        }
-      });
-
-    return () => {
-      cancelled = true;
-      if (workerRef.current) {
-        workerRef.current.terminate();
-        workerRef.current = null;
-        setWorker(null);
-        setWorkerReady(false);
-      }
-    };
-  }, [useWorker, wasmBasePath]);
-
-  // Unified ready/loading/error state
-  const isReady = useWorker ? workerReady : hookResult.isReady;
-  const isLoading = useWorker ? workerLoading : hookResult.isLoading;
-  const initError = useWorker ? workerError : hookResult.error;
+  // Scopes element ids so several viewers can share a page
+  const instanceId = useId();
+  const fileInputId = `${instanceId}-file-input`;
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Local UI state
   const [isConverting, setIsConverting] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<DocumentViewerError | null>(null);
   const [fileName, setFileName] = useState<string>('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showPrintDialog, setShowPrintDialog] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('document');
   const [revisions, setRevisions] = useState<Revision[]>([]);
   const [isExtractingRevisions, setIsExtractingRevisions] = useState(false);
+  // Revision selected in the panel or the document, and one waiting for the pages to show it.
+  // A conversion extracts the revisions again, so the pending one keeps the list it's from.
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const pendingRevisionRef = useRef<{ revisions: Revision[]; index: number } | null>(null);
+  // Held here rather than in the panel so it survives switching views
+  const [internalRevisionFilter, setInternalRevisionFilter] = useState<RevisionFilter>(DEFAULT_REVISION_FILTER);
+  const revisionFilter = useMemo(
+    () => controlledRevisionFilter
+      ? { ...DEFAULT_REVISION_FILTER, ...controlledRevisionFilter }
+      : internalRevisionFilter,
+    [controlledRevisionFilter, internalRevisionFilter]
+  );
+  const updateRevisionFilter = useCallback((filter: RevisionFilter) => {
+    if (controlledRevisionFilter === undefined) {
+      setInternalRevisionFilter(filter);
+    }
+    onRevisionFilterChange?.(filter);
+  }, [controlledRevisionFilter, onRevisionFilterChange]);
+
+  // Conversion sequencing: each conversion takes the next id, and results are only applied
+  // while their id is still current. Cancelling, clearing or starting another conversion bumps
+  // it and aborts the engine jobs of the previous one.
+  const conversionIdRef = useRef(0);
+  const activeConversionRef = useRef<number | null>(null);
+  const conversionAbortRef = useRef<AbortController | null>(null);
+  // File whose conversion was cancelled or failed, so it isn't converted again automatically
+  const haltedFileRef = useRef<File | null>(null);
+  // Files already checked on intake or by an earlier conversion, so their package isn't read again
+  const validatedFilesRef = useRef(new WeakSet<File>());
+  const [isCancelled, setIsCancelled] = useState(false);
+  // The HTML shown is a preview of the first pages while the full conversion continues
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  // Progress to report once the HTML just set is paginated
+  const onConversionProgressRef = useLatestRef(onConversionProgress);
+  const paginationProgressRef = useRef<Omit<ConversionProgress, 'pagesAvailable'> | null>(null);
+
+  // Load metrics: the last report (for the overlay), and the pagination the current
+  // conversion is waiting on before reporting
+  const onMetricsRef = useLatestRef(onMetrics);
+  const htmlRef = useLatestRef(html);
+  const [lastMetrics, setLastMetrics] = useState<DocumentMetrics | null>(null);
+  const pendingPaginationRef = useRef<{
+    finish: () => number;
+    resolve: (result: { time: number; pageCount: number }) => void;
+  } | null>(null);
+
+  // Sidebar (page thumbnails / outline)
+  const [outline, setOutline] = useState<OutlineItem[]>([]);
+  const [pages, setPages] = useState<PaginationResult['pages']>([]);
+  const [internalSidebar, setInternalSidebar] = useState<SidebarMode>('none');
+  // Panel the toolbar toggle re-opens
+  const [lastSidebarPanel, setLastSidebarPanel] = useState<Exclude<SidebarMode, 'none'>>('outline');
+  const activeSidebar: SidebarMode = controlledSidebar !== undefined
+    ? controlledSidebar
+    : controlledShowOutline !== undefined
+    ? (controlledShowOutline ? 'outline' : 'none')
+    : internalSidebar;
+
+  // Bookmark last followed, kept in the URL hash while the reader stays on its page
+  const [followedBookmark, setFollowedBookmark] = useState<{ name: string; pageNumber: number } | null>(null);
 
   // Document metadata for progressive loading placeholders
   const [documentMetadata, setDocumentMetadata] = useState<DocumentMetadata | null>(null);
 
   const paginatedContainerRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // The split view shows the pages too
+  const hasDocumentView = viewMode !== 'revisions';
+  const isShowingDocument = hasDocumentView && !!html && (!isConverting || isPreviewing);
+
+  // Settings and reading positions saved across sessions
+  const {
+    isEnabled: isPersisting,
+    settings: internalSettings,
+    saveSettings,
+    trackDocument,
+  } = useViewerPersistence({
+    persistKey,
+    persistStorage,
+    defaults: mergedDefaults,
+    containerRef: paginatedContainerRef,
+    isShowingDocument,
+    reportWarning,
+  });
+  const settings = useMemo(
+    () => controlledSettings
+      ? { ...mergedDefaults, ...controlledSettings }
+      : internalSettings,
+    [controlledSettings, mergedDefaults, internalSettings]
+  );
+  // Width of the split view's revision panel while its divider is dragged
+  const [dragPanelWidth, setDragPanelWidth] = useState<number | null>(null);
+
+  // Zoom: fit modes derive the scale from the viewport and the largest page
+  const pageSizes = useMemo(() => getPageSizes(documentMetadata, pages), [documentMetadata, pages]);
+  const viewportSize = useElementSize(paginatedContainerRef, isShowingDocument && settings.zoomMode !== 'custom');
+  const zoomScale = settings.zoomMode !== 'custom' && viewportSize
+    ? getFitScale(settings.zoomMode, viewportSize, pageSizes)
+    : settings.paginationScale;
+
+  // Reading position to restore once the pages are re-rendered after a zoom, layout or conversion change
+  const scrollAnchorRef = useRef<ScrollAnchor | null>(null);
+  // Settings the current HTML was converted with
+  const convertedSettingsRef = useRef<ViewerSettings | null>(null);
+
+  // Remember the page position at `point` (default: viewport centre) for the next pagination
+  const anchorScrollPosition = useCallback((point?: { x: number; y: number }) => {
+    const container = paginatedContainerRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    scrollAnchorRef.current = captureScrollAnchor(
+      container,
+      point?.x ?? rect.left + rect.width / 2,
+      point?.y ?? rect.top + rect.height / 2
+    );
+  }, []);
+
+  // Only pages near the viewport keep their content mounted in virtualized mode
+  const virtualizer = usePageVirtualization(paginatedContainerRef, virtualize && isShowingDocument);
+  const getThumbnailSource = useCallback(
+    (page: PaginationResult['pages'][number]) => virtualizer.page(page.element),
+    [virtualizer]
+  );
+
+  // Full-text search across the rendered pages
+  const {
+    query: searchQuery,
+    options: searchOptions,
+    matchCount: searchMatchCount,
+    activeIndex: searchActiveIndex,
+    error: searchError,
+    search,
+    refresh: refreshSearch,
+    findNext,
+    findPrevious,
+    clearSearch,
+  } = useDocumentSearch(paginatedContainerRef, onSearchResults, virtualizer);
 
   // Build conversion options from settings
   const getConvertOptions = useCallback(() => ({
@@ -155,7 +356,6 @@ export function DocumentViewer({
     additionalCss: settings.additionalCss || undefined,
     commentCssClassPrefix: settings.commentCssClassPrefix,
     paginationMode: PaginationMode.Paginated,
-    paginationScale: settings.paginationScale,
     renderAnnotations: settings.annotationMode !== 'disabled',
     annotationLabelMode: getAnnotationLabelMode(settings.annotationMode),
     annotationCssClassPrefix: settings.annotationCssClassPrefix,
@@ -166,121 +366,427 @@ export function DocumentViewer({
     renderMoveOperations: settings.renderMoveOperations,
   }), [settings]);
 
+  // Previous conversions by file contents and conversion settings
+  const {
+    isEnabled: isCaching,
+    read: readCache,
+    write: writeCache,
+  } = useConversionCache(cache, settings, reportWarning);
+  // In-flight metadata request, so a conversion can store the metadata alongside its HTML
+  // and report how long it took
+  const metadataRequestRef = useRef<{
+    file: File;
+    promise: Promise<DocumentMetadata | null>;
+    elapsed: number | null;
+  } | null>(null);
+
   // Fetch document metadata quickly (for progressive loading placeholders)
-  const fetchMetadata = useCallback(async (fileToFetch: File) => {
-    try {
-      // Use worker's getDocumentMetadata if available, otherwise direct call
-      const metadata = useWorker && worker
-        ? await worker.getDocumentMetadata(fileToFetch)
-        : await getDocumentMetadata(fileToFetch);
-      setDocumentMetadata(metadata);
-    } catch {
-      // Metadata extraction is non-critical, silently fail
-      setDocumentMetadata(null);
-    }
-  }, [useWorker, worker]);
+  const fetchMetadata = useCallback((fileToFetch: File) => {
+    const request = { file: fileToFetch, promise: Promise.resolve<DocumentMetadata | null>(null), elapsed: null as number | null };
+    request.promise = (async () => {
+      try {
+        if (!engine) throw new Error('Docxodus engine not available');
+        const finishMeasure = startMeasure('metadata');
+        const metadata = await engine.getDocumentMetadata(fileToFetch);
+        request.elapsed = finishMeasure();
+        // Another file may have been opened in the meantime
+        if (metadataRequestRef.current?.file === fileToFetch) {
+          setDocumentMetadata(metadata);
+        }
+        return metadata;
+      } catch (err) {
+        // Metadata only sizes placeholders and print pages, so carry on without it
+        if (metadataRequestRef.current?.file === fileToFetch) {
+          setDocumentMetadata(null);
+          reportWarning(err, 'METADATA_EXTRACTION_FAILED');
+        }
+        return null;
+      }
+    })();
+    metadataRequestRef.current = request;
+    return request.promise;
+  }, [engine, reportWarning]);
 
-  // Extract revisions from document
-  const extractRevisions = useCallback(async (fileToExtract: File) => {
-    if (!isReady || !showRevisionsTab) return;
+  // Extract revisions from document. Resolves to null when extraction is skipped or fails.
+  const extractRevisions = useCallback(async (fileToExtract: File, signal?: AbortSignal) => {
+    if (!engine || !isReady || !showRevisionsTab) return null;
+
+    // Revisions belong to the conversion that requested them
+    const conversionId = conversionIdRef.current;
+    const isCurrent = () => conversionIdRef.current === conversionId;
 
     setIsExtractingRevisions(true);
     try {
-      const extractedRevisions = useWorker && worker
-        ? await worker.getRevisions(fileToExtract)
-        : await hookResult.getRevisions(fileToExtract);
-      setRevisions(extractedRevisions);
-      onRevisionsExtracted?.(extractedRevisions);
-    } catch {
-      // Revision extraction is non-critical, silently fail
-      setRevisions([]);
+      const extractedRevisions = await engine.getRevisions(fileToExtract, signal);
+      if (isCurrent()) {
+        setRevisions(extractedRevisions);
+        onRevisionsExtracted?.(extractedRevisions);
+      }
+      return extractedRevisions;
+    } catch (err) {
+      // The document is still viewable without its tracked changes
+      if (isCurrent()) {
+        setRevisions([]);
+        reportWarning(err, 'REVISION_EXTRACTION_FAILED');
+      }
+      return null;
     } finally {
-      setIsExtractingRevisions(false);
+      if (isCurrent()) {
+        setIsExtractingRevisions(false);
+      }
     }
-  }, [isReady, useWorker, worker, hookResult, showRevisionsTab, onRevisionsExtracted]);
+  }, [engine, isReady, showRevisionsTab, onRevisionsExtracted, reportWarning]);
+
+  // Hash the file's contents once, identifying it for both its reading position and the
+  // conversion cache. Hashing needs a secure context, so failures just mean starting from the
+  // top without the cache.
+  const hashDocument = useCallback(async (fileToHash: File) => {
+    if (!isPersisting && !isCaching) return null;
+    try {
+      return await computeFileHash(fileToHash);
+    } catch (err) {
+      if (isPersisting) reportWarning(err, 'PERSISTENCE_FAILED');
+      if (isCaching) reportWarning(err, 'CACHE_FAILED');
+      return null;
+    }
+  }, [isPersisting, isCaching, reportWarning]);
 
   // Convert file to HTML
   const convert = useCallback(async (fileToConvert: File) => {
-    if (!isReady) return;
+    if (!engine || !isReady) return;
+
+    // A conversion still in flight is superseded by this one
+    if (activeConversionRef.current !== null) {
+      onConversionCancelled?.();
+    }
+    conversionAbortRef.current?.abort();
+    const controller = new AbortController();
+    conversionAbortRef.current = controller;
+    const conversionId = ++conversionIdRef.current;
+    const isCurrent = () => conversionIdRef.current === conversionId;
+    activeConversionRef.current = conversionId;
+    haltedFileRef.current = null;
 
     setIsConverting(true);
+    setIsCancelled(false);
+    setIsPreviewing(false);
+    setIsExtractingRevisions(false);
     setError(null);
     setRevisions([]);
-    setViewMode('document');
+    // The revision panel is hidden while converting, unless it's beside the document
+    setViewMode((mode) => (mode === 'split' ? mode : 'document'));
     // Don't reset documentMetadata here - we want to show placeholders during conversion
     onConversionStart?.();
 
     // Allow React to render loading state before heavy WASM work (only needed for non-worker mode)
     if (!useWorker) {
       await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+      if (!isCurrent()) return;
     }
 
+    const metadataRequest = metadataRequestRef.current?.file === fileToConvert ? metadataRequestRef.current : null;
+
+    // Report timings once the new HTML is paginated and revisions and metadata have settled
+    const reportMetrics = (
+      convertedHtml: string,
+      conversionTime: number,
+      cacheHit: boolean,
+      revisionsRequest: Promise<number | null> | null
+    ) => {
+      // Unchanged HTML isn't paginated again
+      const pagination = convertedHtml === htmlRef.current
+        ? Promise.resolve(null)
+        : new Promise<{ time: number; pageCount: number }>((resolve) => {
+          pendingPaginationRef.current = { finish: startMeasure('pagination'), resolve };
+        });
+      Promise.all([
+        revisionsRequest,
+        metadataRequest?.promise.then(() => metadataRequest.elapsed),
+        pagination,
+      ]).then(([revisionExtractionTime, metadataTime, paginated]) => {
+        if (!isCurrent()) return;
+        const mode = engine.mode();
+        const metrics: DocumentMetrics = {
+          engineInitTime: engine.loadTime(),
+          engineMode: mode,
+          workerUsed: mode === 'worker',
+          fileSize: fileToConvert.size,
+          metadataTime: metadataTime ?? null,
+          conversionTime,
+          cacheHit,
+          htmlSize: convertedHtml.length,
+          revisionExtractionTime: revisionExtractionTime ?? null,
+          paginationTime: paginated?.time ?? null,
+          pageCount: paginated?.pageCount ?? null,
+        };
+        setLastMetrics(metrics);
+        onMetricsRef.current?.(metrics);
+      });
+    };
+    const timeRevisions = (request: Promise<Revision[] | null>) => {
+      const finishMeasure = startMeasure('revision-extraction');
+      return request.then((extracted) => (extracted ? finishMeasure() : null));
+    };
+    // Report progress once `convertedHtml` is paginated (unchanged HTML isn't paginated again)
+    const expectProgress = (convertedHtml: string, progress: Omit<ConversionProgress, 'pagesAvailable'>) => {
+      if (convertedHtml !== htmlRef.current) {
+        paginationProgressRef.current = progress;
+      }
+    };
+
+    // Show the opening pages of a long document from a quick conversion of just its first
+    // paragraphs. A reconversion returning to a saved position skips this, as that position
+    // is usually past the preview.
+    let previewShown = false;
+    const showPreview = async () => {
+      if (!progressive || controlledHtml !== undefined || scrollAnchorRef.current) return;
+      try {
+        const metadata = await (metadataRequest?.promise ?? null);
+        const blockCount = getPreviewBlockCount(metadata);
+        const preview = blockCount === null ? null : await createPreviewDocument(fileToConvert, blockCount);
+        if (!preview || !isCurrent()) return;
+        const previewHtml = await engine.convertDocxToHtml(preview, getConvertOptions(), controller.signal);
+        if (!isCurrent()) return;
+        expectProgress(previewHtml, { estimatedTotalPages: metadata?.estimatedPageCount ?? null, complete: false });
+        setInternalHtml(previewHtml);
+        setIsPreviewing(true);
+        previewShown = true;
+      } catch (err) {
+        // The full conversion follows anyway, unless the whole conversion was stopped
+        if (controller.signal.aborted) throw err;
+        return;
+      }
+      // Let the preview render before a main-thread conversion blocks the page
+      if (!useWorker) {
+        await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+      }
+    };
+
     try {
-      const result = useWorker && worker
-        ? await worker.convertDocxToHtml(fileToConvert, getConvertOptions())
-        : await hookResult.convertToHtml(fileToConvert, getConvertOptions());
+      if (!validatedFilesRef.current.has(fileToConvert)) {
+        await validateDocumentFile(fileToConvert, { maxFileSize });
+        validatedFilesRef.current.add(fileToConvert);
+      }
+
+      const fileHash = await hashDocument(fileToConvert);
+      if (!isCurrent()) return;
+
+      // Return to where the reader left this document, unless a reconversion is already
+      // keeping their place
+      const savedPosition = trackDocument(fileHash);
+      if (savedPosition && !scrollAnchorRef.current) {
+        scrollAnchorRef.current = savedPosition;
+      }
+
+      const finishConversion = startMeasure('conversion');
+      const cached = await readCache(fileHash);
+      if (!isCurrent()) return;
+      if (cached?.entry) {
+        const { html: cachedHtml, revisions: cachedRevisions, metadata } = cached.entry;
+        convertedSettingsRef.current = settings;
+        if (metadata) {
+          setDocumentMetadata(metadata);
+        }
+        if (controlledHtml === undefined) {
+          expectProgress(cachedHtml, { estimatedTotalPages: null, complete: true });
+          setInternalHtml(cachedHtml);
+        }
+        onConversionComplete?.(cachedHtml, { cacheHit: true });
 
+        let revisionsRequest: Promise<number | null> | null = null;
+        if (cachedRevisions && showRevisionsTab) {
+          setRevisions(cachedRevisions);
+          onRevisionsExtracted?.(cachedRevisions);
+        } else {
+          revisionsRequest = timeRevisions(extractRevisions(fileToConvert, controller.signal));
+        }
+        reportMetrics(cachedHtml, finishConversion(), true, revisionsRequest);
+        return;
+      }
+
+      const result = await withTimeout(controller, conversionTimeout, async () => {
+        await showPreview();
+        return engine.convertDocxToHtml(fileToConvert, getConvertOptions(), controller.signal);
+      });
+      if (!isCurrent()) return;
+      const conversionTime = finishConversion();
+
+      convertedSettingsRef.current = settings;
       if (controlledHtml === undefined) {
+        // The preview's pages are the document's first pages, so keep the reader's place on them
+        if (previewShown) {
+          anchorScrollPosition();
+        }
+        expectProgress(result, { estimatedTotalPages: null, complete: true });
         setInternalHtml(result);
       }
-      onConversionComplete?.(result);
-
-      // Extract revisions in background after conversion
-      extractRevisions(fileToConvert);
+      onConversionComplete?.(result, { cacheHit: false });
+
+      // Extract revisions in background after conversion, then cache everything together
+      const revisionsRequest = extractRevisions(fileToConvert, controller.signal);
+      reportMetrics(result, conversionTime, false, timeRevisions(revisionsRequest));
+      if (cached) {
+        writeCache(cached.key, Promise.all([revisionsRequest, metadataRequest?.promise ?? null])
+          .then(([extractedRevisions, metadata]) => ({ html: result, revisions: extractedRevisions, metadata })));
+      }
     } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
+      // Superseded or cancelled conversions (including aborted engine jobs) are not errors
+      if (!isCurrent()) return;
+      haltedFileRef.current = fileToConvert;
+      if (previewShown) {
+        setInternalHtml(null);
+      }
+      const error = toDocumentViewerError(err, 'CONVERSION_FAILED');
       setError(error);
       onError?.(error);
     } finally {
-      setIsConverting(false);
+      if (isCurrent()) {
+        activeConversionRef.current = null;
+        setIsConverting(false);
+        setIsPreviewing(false);
+      }
     }
-  }, [isReady, useWorker, worker, hookResult, getConvertOptions, controlledHtml, onConversionStart, onConversionComplete, onError, extractRevisions]);
+  }, [engine, isReady, useWorker, conversionTimeout, getConvertOptions, settings, maxFileSize, controlledHtml, progressive, hashDocument, trackDocument, readCache, writeCache, showRevisionsTab, onConversionStart, onConversionComplete, onConversionCancelled, onRevisionsExtracted, onError, extractRevisions, anchorScrollPosition, htmlRef, onMetricsRef]);
+
+  // Stop the conversion in progress. A worker conversion is terminated along with its worker
+  // (the engine starts a fresh one when needed); a main-thread conversion can't be interrupted,
+  // so its result is dropped.
+  const cancelConversion = useCallback(() => {
+    if (activeConversionRef.current === null) return;
+    conversionIdRef.current++;
+    activeConversionRef.current = null;
+    conversionAbortRef.current?.abort();
+    haltedFileRef.current = file;
+    // A preview is dropped with its conversion
+    if (isPreviewing) {
+      setInternalHtml(null);
+      setIsPreviewing(false);
+    }
+    setIsConverting(false);
+    setIsExtractingRevisions(false);
+    setIsCancelled(true);
+    onConversionCancelled?.();
+  }, [file, isPreviewing, onConversionCancelled]);
+
+  // Jobs still running at unmount are aborted and their results dropped
+  useEffect(() => () => {
+    conversionIdRef.current++;
+    conversionAbortRef.current?.abort();
+  }, []);
 
   // Auto-convert when WASM ready and file available
   useEffect(() => {
-    if (isReady && file && !html && !isConverting && controlledHtml === undefined) {
+    if (isReady && file && !html && !isConverting && controlledHtml === undefined && file !== haltedFileRef.current) {
       convert(file);
     }
   }, [isReady, file, html, isConverting, convert, controlledHtml]);
 
+  // Load a newly selected or downloaded file
+  const openFile = async (selectedFile: File) => {
+    setFileName(selectedFile.name);
+    setError(null);
+    setCurrentPage(1);
+    setTotalPages(0);
+    setDocumentMetadata(null); // Reset metadata from previous file
+    setRevisions([]); // Reset revisions
+    setSelectedRevision(null);
+    pendingRevisionRef.current = null;
+    setViewMode('document');
+    setIsCancelled(false);
+    setFollowedBookmark(null);
+    scrollAnchorRef.current = null;
+
+    if (controlledFile === undefined) {
+      setInternalFile(selectedFile);
+      setInternalHtml(null);
+    }
+    onFileChange?.(selectedFile);
+
+    // Fetch metadata first for placeholders, then convert
+    fetchMetadata(selectedFile);
+    if (isReady && controlledHtml === undefined) {
+      await convert(selectedFile);
+    }
+  };
+
+  // Open a file picked, dropped or pasted by the user. Rejected files leave the current document in place.
+  const intakeFile = async (selectedFile: File) => {
+    try {
+      await validateDocumentFile(selectedFile, { accept, maxFileSize });
+      validatedFilesRef.current.add(selectedFile);
+    } catch (err) {
+      const error = toDocumentViewerError(err, 'INVALID_PACKAGE');
+      setError(error);
+      onError?.(error);
+      return;
+    }
+    await openFile(selectedFile);
+  };
+
   // Handle file input change
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      setFileName(selectedFile.name);
-      setError(null);
-      setCurrentPage(1);
-      setTotalPages(0);
-      setDocumentMetadata(null); // Reset metadata from previous file
-      setRevisions([]); // Reset revisions
-      setViewMode('document');
+      await intakeFile(selectedFile);
+    }
+  };
 
-      if (controlledFile === undefined) {
-        setInternalFile(selectedFile);
-        setInternalHtml(null);
-      }
-      onFileChange?.(selectedFile);
+  // Load `source` (URL, bytes or Blob) whenever it changes
+  const {
+    progress: downloadProgress,
+    cancel: cancelDownload,
+    retry: retryDownload,
+  } = useSourceDownload(source, {
+    disabled: controlledFile !== undefined,
+    signal,
+    onStart: () => setError(null),
+    onProgress: onLoadProgress,
+    onLoad: openFile,
+    onError: (error) => {
+      setError(error);
+      onError?.(error);
+    },
+  });
 
-      // Fetch metadata first for placeholders, then convert
-      fetchMetadata(selectedFile);
-      if (isReady && controlledHtml === undefined) {
-        await convert(selectedFile);
-      }
+  const onErrorRef = useLatestRef(onError);
+  useEffect(() => {
+    if (initError) onErrorRef.current?.(initError);
+  }, [initError, onErrorRef]);
+
+  // Recover from a retryable error by repeating whatever failed
+  const retry = useCallback(() => {
+    if (initError) {
+      reloadEngine();
+    } else if (error?.code === 'DOWNLOAD_FAILED') {
+      setError(null);
+      retryDownload();
+    } else if (file) {
+      setError(null);
+      haltedFileRef.current = null;
+      convert(file);
     }
-  };
+  }, [initError, error, file, reloadEngine, retryDownload, convert]);
 
-  // Reconvert with current settings
+  // Reconvert with current settings, returning to the same place in the document afterwards
   const reconvert = useCallback(async () => {
     if (file) {
+      anchorScrollPosition();
       if (controlledHtml === undefined) {
         setInternalHtml(null);
       }
       await convert(file);
     }
-  }, [file, convert, controlledHtml]);
+  }, [file, convert, controlledHtml, anchorScrollPosition]);
 
   // Clear document
   const handleClear = () => {
+    // Drop any conversion still in flight for the old document
+    conversionIdRef.current++;
+    activeConversionRef.current = null;
+    conversionAbortRef.current?.abort();
+    setIsConverting(false);
+    setIsCancelled(false);
+    setIsPreviewing(false);
     if (controlledFile === undefined) {
       setInternalFile(null);
     }
@@ -292,54 +798,355 @@ export function DocumentViewer({
     setCurrentPage(1);
     setTotalPages(0);
     setRevisions([]);
+    setSelectedRevision(null);
+    pendingRevisionRef.current = null;
     setViewMode('document');
     setDocumentMetadata(null);
+    trackDocument(null);
+    setFollowedBookmark(null);
+    scrollAnchorRef.current = null;
     onFileChange?.(null);
 
-    const input = document.getElementById('rdv-file-input') as HTMLInputElement;
-    if (input) input.value = '';
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
   // Update settings
   const updateSettings = useCallback((updates: Partial<ViewerSettings>) => {
+    // Page numbers and gaps re-run pagination; keep the reader's place
+    if (
+      (updates.showPageNumbers !== undefined && updates.showPageNumbers !== settings.showPageNumbers) ||
+      (updates.pageGap !== undefined && updates.pageGap !== settings.pageGap)
+    ) {
+      anchorScrollPosition();
+    }
     const newSettings = { ...settings, ...updates };
     if (controlledSettings === undefined) {
-      setInternalSettings(newSettings);
+      saveSettings(newSettings);
     }
     onSettingsChange?.(newSettings);
-  }, [settings, controlledSettings, onSettingsChange]);
+  }, [settings, controlledSettings, onSettingsChange, anchorScrollPosition, saveSettings]);
 
-  // Zoom controls
-  const handleZoomIn = () => updateSettings({
-    paginationScale: Math.min(settings.paginationScale + 0.1, 2.0)
-  });
-  const handleZoomOut = () => updateSettings({
-    paginationScale: Math.max(settings.paginationScale - 0.1, 0.3)
-  });
-  const handleZoomChange = (value: number) => updateSettings({
-    paginationScale: Math.max(0.3, Math.min(2.0, value))
-  });
+  // Zoom controls. The page position under `point` (default: viewport centre) stays in place.
+  // Returns whether the pages will be rendered again at a new scale.
+  const zoomTo = (zoom: number | Exclude<ZoomMode, 'custom'>, point?: { x: number; y: number }) => {
+    const container = paginatedContainerRef.current;
+    let rescaled = false;
+    if (container) {
+      const nextScale = typeof zoom === 'number'
+        ? clampZoom(zoom)
+        : getFitScale(zoom, { width: container.clientWidth, height: container.clientHeight }, pageSizes);
+      if (nextScale !== zoomScale) {
+        anchorScrollPosition(point);
+        rescaled = true;
+      }
+    }
+    updateSettings(typeof zoom === 'number'
+      ? { zoomMode: 'custom', paginationScale: clampZoom(zoom) }
+      : { zoomMode: zoom });
+    return rescaled;
+  };
+  const handleZoomIn = () => zoomTo(zoomScale + 0.1);
+  const handleZoomOut = () => zoomTo(zoomScale - 0.1);
+  const handleZoomSelect = (value: string) => zoomTo(
+    value === 'fit-width' || value === 'fit-page' ? value : parseFloat(value)
+  );
+
+  // Ctrl/Cmd+wheel and pinch zoom around the pointer
+  useGestureZoom(
+    paginatedContainerRef,
+    zoomScale,
+    (zoom, clientX, clientY) => zoomTo(zoom, { x: clientX, y: clientY }),
+    isShowingDocument
+  );
 
   // Page navigation
+  // Pages that don't exist aren't found, so out-of-range numbers do nothing
   const goToPage = (pageNum: number) => {
-    const container = paginatedContainerRef.current;
-    if (!container || pageNum < 1 || pageNum > totalPages) return;
-    const pageElement = container.querySelector(`[data-page-number="${pageNum}"]`);
-    if (pageElement) {
-      pageElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    const pageElement = paginatedContainerRef.current?.querySelector(`[data-page-number="${pageNum}"]`);
+    pageElement?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Scroll to the element with this id or name (bookmarks, footnotes) and flash it.
+  // Returns the element, or null when the document has no such anchor.
+  const scrollToAnchor = useCallback((name: string) => {
+    const value = name.replace(/["\\]/g, '\\$&');
+    const target = virtualizer.querySelector(`[id="${value}"], [name="${value}"]`);
+    if (!target) return null;
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    target.classList.add('rdv-footnote-highlight');
+    setTimeout(() => target.classList.remove('rdv-footnote-highlight'), 2000);
+    return target;
+  }, [virtualizer]);
+
+  // Remember a followed bookmark for the URL hash, while the reader stays on its page
+  const followBookmark = useCallback((name: string, target: HTMLElement) => {
+    const page = target.closest<HTMLElement>('[data-page-number]');
+    setFollowedBookmark({ name, pageNumber: parseInt(page?.dataset.pageNumber || '0', 10) });
+  }, []);
+
+  // Bring the viewer to the state in a URL hash. Returns what needs rendered pages (or pages
+  // re-rendered at a new zoom), which waits for the next pagination.
+  const applyHashState = (
+    state: ViewerHashState,
+    pagesReady = hasDocumentView && !isConverting
+      && !!paginatedContainerRef.current?.querySelector('[data-page-number]')
+  ): ViewerHashState | null => {
+    const view = state.view ?? 'document';
+    if (viewMode === 'revisions' && html && !isConverting) {
+      // Pages are only rendered in the document view
+      setViewMode(view);
+      return view !== 'revisions' ? state : null;
+    }
+    if (!pagesReady) {
+      return state;
+    }
+    if (state.zoom !== undefined && zoomTo(state.zoom)) {
+      return { ...state, zoom: undefined };
+    }
+    if (state.search && state.search !== searchQuery) {
+      search(state.search);
+    }
+    const bookmark = state.bookmark ? scrollToAnchor(state.bookmark) : null;
+    if (bookmark) {
+      followBookmark(state.bookmark!, bookmark);
+    } else if (state.page) {
+      goToPage(state.page);
+    }
+    if (view !== viewMode) {
+      setViewMode(view);
+    }
+    return null;
+  };
+
+  // Page, zoom, view, search and followed bookmark, mirrored in the URL hash
+  const { applyPending: applyPendingHash } = useUrlHashSync(syncUrlHash, {
+    page: totalPages > 0 ? currentPage : undefined,
+    zoom: settings.zoomMode === 'custom' ? settings.paginationScale : settings.zoomMode,
+    view: viewMode,
+    search: searchQuery,
+    bookmark: followedBookmark?.pageNumber === currentPage ? followedBookmark.name : undefined,
+  }, !!html && !isConverting, applyHashState);
+
+  // Scroll to a revision's tracked-change markup and flash it.
+  // Returns false when the revision isn't rendered in the document.
+  const scrollToRevision = useCallback((index: number, revisionList = revisions) => {
+    let markup = findRevisionMarkup(revisionList, virtualizer.pages())[index] ?? [];
+    if (markup.length === 0) return false;
+    const page = markup[0].closest<HTMLElement>('[data-page-number]');
+    if (page && !page.isConnected) {
+      // Found in a copy of a page outside the rendered window: render it and look again
+      virtualizer.mountPage(parseInt(page.dataset.pageNumber!, 10));
+      markup = findRevisionMarkup(revisionList, virtualizer.pages())[index] ?? [];
+      if (markup.length === 0) return false;
     }
+    markup[0].scrollIntoView({ behavior: 'smooth', block: 'center' });
+    markup.forEach((element) => {
+      element.classList.add('rdv-footnote-highlight');
+      setTimeout(() => element.classList.remove('rdv-footnote-highlight'), 2000);
+    });
+    return true;
+  }, [revisions, virtualizer]);
+
+  // Show a revision selected in the panel in the document. Its markup may need tracked
+  // changes (or deleted content) rendered, which means converting the document again.
+  const showRevision = (index: number) => {
+    setSelectedRevision(index);
+    const required = getRevisionRenderSettings(revisions[index]);
+    if (!required) return;
+    if (!hasSettings(settings, required)) {
+      pendingRevisionRef.current = { revisions, index };
+      updateSettings(required);
+    } else if (isShowingDocument) {
+      scrollToRevision(index);
+    } else {
+      pendingRevisionRef.current = { revisions, index };
+    }
+    if (viewMode === 'revisions') {
+      setViewMode('document');
+    }
+  };
+
+  // Page each revision is on, for the list's page badges and grouping and so the split view's
+  // panel can follow the reader. Recomputed once the pages are paginated, and kept while the
+  // Changes tab replaces them.
+  const revisionPages = useMemo(
+    () => (pages.length > 0 ? getRevisionPageNumbers(revisions, virtualizer.pages()) : undefined),
+    [revisions, pages, virtualizer]
+  );
+
+  // Scroll to the revision waiting for the pages once they're rendered with its markup
+  const showPendingRevision = () => {
+    const pending = pendingRevisionRef.current;
+    if (!pending) return;
+    const required = getRevisionRenderSettings(pending.revisions[pending.index]);
+    if (required && convertedSettingsRef.current && !hasSettings(convertedSettingsRef.current, required)) return;
+    pendingRevisionRef.current = null;
+    scrollToRevision(pending.index, pending.revisions);
   };
+  const showPendingRevisionRef = useLatestRef(showPendingRevision);
+
+  // Render the markup of a revision waiting to be shown, once its settings are applied
+  const reconvertRef = useLatestRef(reconvert);
+  useEffect(() => {
+    if (
+      pendingRevisionRef.current !== null
+      && convertedSettingsRef.current
+      && hasConversionChanges(convertedSettingsRef.current, settings)
+    ) {
+      reconvertRef.current();
+    }
+  }, [settings, reconvertRef]);
 
   const goToPreviousPage = () => currentPage > 1 && goToPage(currentPage - 1);
   const goToNextPage = () => currentPage < totalPages && goToPage(currentPage + 1);
 
+  // Print the rendered pages at 100% scale
+  const printDocument = async (options?: PrintOptions) => {
+    const container = paginatedContainerRef.current;
+    if (!container || !isShowingDocument || totalPages === 0) {
+      throw new Error('No document to print');
+    }
+    const pageNumbers = options?.pages === undefined
+      ? null
+      : typeof options.pages === 'string'
+      ? parsePageRange(options.pages, totalPages)
+      : options.pages;
+    await printPages(container, {
+      pages: virtualizer.pages(),
+      pageNumbers,
+      sectionSizes: getSectionPageSizes(documentMetadata, pages),
+      title: fileName || settings.pageTitle,
+    });
+  };
+
+  const handlePrint = (pageNumbers: number[] | null) => {
+    setShowPrintDialog(false);
+    printDocument({ pages: pageNumbers ?? undefined }).catch((err) => {
+      const error = toDocumentViewerError(err, 'PRINT_FAILED');
+      setError(error);
+      onError?.(error);
+    });
+  };
+
+  // Imperative API for host applications
+  useImperativeHandle(ref, () => ({
+    goToPage,
+    setZoom: (zoom) => zoomTo(zoom),
+    getZoom: () => zoomScale,
+    reconvert,
+    cancelConversion,
+    clear: handleClear,
+    showRevisions: () => setViewMode('revisions'),
+    showDocument: () => setViewMode('document'),
+    showSplit: () => setViewMode('split'),
+    getHtml: () => html,
+    getRevisions: () => revisions,
+    getCurrentPage: () => currentPage,
+    getTotalPages: () => totalPages,
+    search,
+    findNext,
+    findPrevious,
+    clearSearch,
+    print: printDocument,
+  }));
+
+  // Pagination rebuilds the page DOM, so re-apply search highlights afterwards.
+  // Stable so PaginatedDocument doesn't re-fire it on every render.
+  const handlePaginationComplete = useCallback((result: PaginationResult) => {
+    const pendingPagination = pendingPaginationRef.current;
+    pendingPaginationRef.current = null;
+    pendingPagination?.resolve({ time: pendingPagination.finish(), pageCount: result.totalPages });
+    const progress = paginationProgressRef.current;
+    paginationProgressRef.current = null;
+    if (progress) {
+      onConversionProgressRef.current?.({
+        pagesAvailable: result.totalPages,
+        estimatedTotalPages: progress.complete ? result.totalPages : progress.estimatedTotalPages,
+        complete: progress.complete,
+      });
+    }
+
+    setTotalPages(result.totalPages);
+    setPages(result.pages);
+    setOutline(buildOutline(result.pages.map((page) => page.element)));
+    refreshSearch();
+
+    const container = paginatedContainerRef.current;
+    if (scrollAnchorRef.current && container) {
+      restoreScrollAnchor(container, scrollAnchorRef.current);
+    }
+    scrollAnchorRef.current = null;
+
+    // A linked page, bookmark or revision takes precedence over the restored position.
+    // A progressive preview may not reach it yet, so wait for the full document.
+    if (progress?.complete !== false) {
+      applyPendingHash();
+      showPendingRevisionRef.current();
+    }
+  }, [refreshSearch, onConversionProgressRef, applyPendingHash, showPendingRevisionRef]);
+
+  const activeOutlineId = useMemo(() => getActiveOutlineId(outline, currentPage), [outline, currentPage]);
+
+  const changeSidebar = (mode: SidebarMode) => {
+    if (mode !== 'none') {
+      setLastSidebarPanel(mode);
+    }
+    if (controlledSidebar === undefined && controlledShowOutline === undefined) {
+      setInternalSidebar(mode);
+    }
+    onSidebarChange?.(mode);
+    if ((mode === 'outline') !== (activeSidebar === 'outline')) {
+      onOutlineToggle?.(mode === 'outline');
+    }
+  };
+
+  const toggleSidebar = () => changeSidebar(activeSidebar === 'none' ? lastSidebarPanel : 'none');
+
+  const handleOutlineSelect = (item: OutlineItem) => {
+    const heading = virtualizer.querySelector(`[${OUTLINE_ID_ATTRIBUTE}="${item.id}"]`);
+    heading?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Keyboard shortcuts, scoped to the viewer root
+  const canNavigate = isShowingDocument && totalPages > 0;
+  const { keyBindings, handleKeyDown } = useViewerKeymap(keyBindingOverrides, {
+    nextPage: { enabled: canNavigate, run: goToNextPage },
+    previousPage: { enabled: canNavigate, run: goToPreviousPage },
+    firstPage: { enabled: canNavigate, run: () => goToPage(1) },
+    lastPage: { enabled: canNavigate, run: () => goToPage(totalPages) },
+    zoomIn: { enabled: isShowingDocument, run: handleZoomIn },
+    zoomOut: { enabled: isShowingDocument, run: handleZoomOut },
+    resetZoom: { enabled: isShowingDocument, run: () => zoomTo(1) },
+    // Replaces the browser's find, which can't see across pages
+    focusSearch: {
+      enabled: isShowingDocument,
+      run: () => {
+        searchInputRef.current?.focus();
+        searchInputRef.current?.select();
+      },
+    },
+    print: { enabled: canNavigate, run: () => setShowPrintDialog(true) },
+    closeDialog: {
+      enabled: showSettings || showShortcuts || showPrintDialog,
+      run: () => {
+        setShowSettings(false);
+        setShowShortcuts(false);
+        setShowPrintDialog(false);
+      },
+    },
+    showDocument: { enabled: !!html, run: () => setViewMode('document') },
+    showChanges: { enabled: !!html && showRevisionsTab && revisions.length > 0, run: () => setViewMode('revisions') },
+    showSplit: { enabled: !!html && showRevisionsTab && revisions.length > 0, run: () => setViewMode('split') },
+    showShortcuts: { enabled: true, run: () => setShowShortcuts(true) },
+  });
+
   // Handle page visibility changes
   const handlePageVisible = (pageNumber: number) => {
     setCurrentPage(pageNumber);
     onPageChange?.(pageNumber, totalPages);
   };
 
-  // Handle footnote/anchor clicks
+  // Handle footnote/anchor clicks, and clicks on tracked changes (which select them in the revision panel)
   useEffect(() => {
     const container = paginatedContainerRef.current;
     if (!container) return;
@@ -347,25 +1154,34 @@ export function DocumentViewer({
     const handleAnchorClick = (e: MouseEvent) => {
       const target = e.target as HTMLElement;
       const anchor = target.closest('a[href^="#"]') as HTMLAnchorElement | null;
-      if (!anchor) return;
+      if (!anchor) {
+        if (showRevisionsTab && target.closest('ins, del')) {
+          const markup = findRevisionMarkup(revisions, virtualizer.pages());
+          const index = markup.findIndex((elements) => elements.some((element) => element.contains(target)));
+          if (index >= 0) {
+            setSelectedRevision(index);
+            if (viewMode !== 'split') {
+              setViewMode('revisions');
+            }
+          }
+        }
+        return;
+      }
 
       const href = anchor.getAttribute('href');
       if (!href || !href.startsWith('#')) return;
 
       e.preventDefault();
       const targetId = href.substring(1);
-      const targetElement = container.querySelector(`[id="${targetId}"], [name="${targetId}"]`);
-
+      const targetElement = scrollToAnchor(targetId);
       if (targetElement) {
-        targetElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
-        targetElement.classList.add('rdv-footnote-highlight');
-        setTimeout(() => targetElement.classList.remove('rdv-footnote-highlight'), 2000);
+        followBookmark(targetId, targetElement);
       }
     };
 
     container.addEventListener('click', handleAnchorClick);
     return () => container.removeEventListener('click', handleAnchorClick);
-  }, [html]);
+  }, [html, isShowingDocument, scrollToAnchor, followBookmark, showRevisionsTab, revisions, virtualizer, viewMode]);
 
   // Notify parent of page changes when totalPages updates
   useEffect(() => {
@@ -374,133 +1190,81 @@ export function DocumentViewer({
     }
   }, [totalPages, currentPage, onPageChange]);
 
-  const isProcessing = isConverting || isLoading;
-
-  // Settings Modal
-  const SettingsModal = () => (
-    <div className="rdv-settings-overlay" onClick={() => setShowSettings(false)}>
-      <div className="rdv-settings-modal" onClick={(e) => e.stopPropagation()}>
-        <div className="rdv-settings-header">
-          <h3>Viewer Settings</h3>
-          <button className="rdv-settings-close" onClick={() => setShowSettings(false)}>×</button>
-        </div>
-        <div className="rdv-settings-body">
-          <div className="rdv-settings-section">
-            <h4>Display Options</h4>
-            <label className="rdv-settings-checkbox">
-              <input
-                type="checkbox"
-                checked={settings.renderFootnotesAndEndnotes}
-                onChange={(e) => updateSettings({ renderFootnotesAndEndnotes: e.target.checked })}
-              />
-              <span>Show footnotes and endnotes</span>
-            </label>
-            <label className="rdv-settings-checkbox">
-              <input
-                type="checkbox"
-                checked={settings.renderHeadersAndFooters}
-                onChange={(e) => updateSettings({ renderHeadersAndFooters: e.target.checked })}
-              />
-              <span>Show headers and footers</span>
-            </label>
-            <label className="rdv-settings-checkbox">
-              <input
-                type="checkbox"
-                checked={settings.showPageNumbers}
-                onChange={(e) => updateSettings({ showPageNumbers: e.target.checked })}
-              />
-              <span>Show page numbers</span>
-            </label>
-          </div>
+  const isDownloading = downloadProgress !== null;
+  const isProcessing = isConverting || isLoading || isDownloading;
 
-          <div className="rdv-settings-section">
-            <h4>Comment Rendering</h4>
-            <div className="rdv-settings-radio-group">
-              {(['disabled', 'endnote', 'inline', 'margin'] as CommentMode[]).map((mode) => (
-                <label key={mode} className="rdv-settings-radio">
-                  <input
-                    type="radio"
-                    name="commentMode"
-                    checked={settings.commentMode === mode}
-                    onChange={() => updateSettings({ commentMode: mode })}
-                  />
-                  <span>{mode.charAt(0).toUpperCase() + mode.slice(1)}{mode === 'endnote' ? 's' : ''}</span>
-                </label>
-              ))}
-            </div>
-          </div>
+  // Drag and drop onto the content area, and pasting a file copied from the file manager
+  const { isDraggingFile, dropTargetProps, handlePaste } = useFileDrop(intakeFile, isProcessing);
 
-          <div className="rdv-settings-section">
-            <h4>Annotation Rendering</h4>
-            <div className="rdv-settings-radio-group">
-              {(['disabled', 'above', 'inline', 'tooltip', 'none'] as AnnotationMode[]).map((mode) => (
-                <label key={mode} className="rdv-settings-radio">
-                  <input
-                    type="radio"
-                    name="annotationMode"
-                    checked={settings.annotationMode === mode}
-                    onChange={() => updateSettings({ annotationMode: mode })}
-                  />
-                  <span>{mode === 'none' ? 'Highlight Only' : mode.charAt(0).toUpperCase() + mode.slice(1)}</span>
-                </label>
-              ))}
-            </div>
-          </div>
+  // Only conversion settings need the document converted again; presentation settings apply live
+  const applySettings = () => {
+    setShowSettings(false);
+    if (!convertedSettingsRef.current || hasConversionChanges(convertedSettingsRef.current, settings)) {
+      reconvert();
+    }
+  };
 
-          <div className="rdv-settings-section">
-            <h4>Tracked Changes</h4>
-            <label className="rdv-settings-checkbox">
-              <input
-                type="checkbox"
-                checked={settings.renderTrackedChanges}
-                onChange={(e) => updateSettings({ renderTrackedChanges: e.target.checked })}
-              />
-              <span>Show tracked changes</span>
-            </label>
-            {settings.renderTrackedChanges && (
-              <div className="rdv-settings-subsection">
-                <label className="rdv-settings-checkbox">
-                  <input
-                    type="checkbox"
-                    checked={settings.showDeletedContent}
-                    onChange={(e) => updateSettings({ showDeletedContent: e.target.checked })}
-                  />
-                  <span>Show deleted content</span>
-                </label>
-                <label className="rdv-settings-checkbox">
-                  <input
-                    type="checkbox"
-                    checked={settings.renderMoveOperations}
-                    onChange={(e) => updateSettings({ renderMoveOperations: e.target.checked })}
-                  />
-                  <span>Distinguish move operations</span>
-                </label>
-              </div>
-            )}
-          </div>
-        </div>
-        <div className="rdv-settings-footer">
-          <button className="rdv-settings-apply" onClick={() => { reconvert(); setShowSettings(false); }}>
-            Apply & Close
-          </button>
-        </div>
+  const hasRevisions = revisions.length > 0;
+
+  // Revision panel beside the pages in the split view, with the divider between them.
+  // Revisions are extracted again on conversion, so the panel waits for it to finish.
+  const panelWidth = dragPanelWidth ?? settings.revisionPanelWidth;
+  const splitDivider = (
+    <SplitDivider
+      width={panelWidth}
+      panelSide={settings.revisionPanelSide}
+      onResize={setDragPanelWidth}
+      onResizeEnd={(width) => {
+        setDragPanelWidth(null);
+        updateSettings({ revisionPanelWidth: Math.round(width) });
+      }}
+    />
+  );
+  const splitPanelElement = viewMode === 'split' && !isConverting && (
+    <>
+      {settings.revisionPanelSide === 'right' && splitDivider}
+      <div className="rdv-split-panel" style={{ width: `${panelWidth}%` }}>
+        <RevisionPanel
+          revisions={revisions}
+          selectedIndex={selectedRevision}
+          onSelect={showRevision}
+          currentPage={currentPage}
+          revisionPages={revisionPages}
+          filter={revisionFilter}
+          onFilterChange={updateRevisionFilter}
+          groupBy={settings.revisionGroupBy}
+          onGroupByChange={(revisionGroupBy) => updateSettings({ revisionGroupBy })}
+          sortOrder={settings.revisionSortOrder}
+          onSortOrderChange={(revisionSortOrder) => updateSettings({ revisionSortOrder })}
+          documentName={fileName || undefined}
+        />
       </div>
-    </div>
+      {settings.revisionPanelSide === 'left' && splitDivider}
+    </>
   );
 
-  const hasRevisions = revisions.length > 0;
-
-  // Toolbar component
-  const Toolbar = () => (
+  // Toolbar (a plain element rather than an inner component so inputs keep focus across renders)
+  const toolbarElement = (
     <div className="rdv-toolbar">
       <div className="rdv-toolbar-left">
-        <label htmlFor="rdv-file-input" className="rdv-toolbar-file-btn">
+        {html && hasDocumentView && (
+          <button
+            className={`rdv-toolbar-btn rdv-toolbar-sidebar ${activeSidebar !== 'none' ? 'rdv-toolbar-btn--active' : ''}`}
+            onClick={toggleSidebar}
+            title="Toggle Sidebar"
+            aria-pressed={activeSidebar !== 'none'}
+          >
+            ☰
+          </button>
+        )}
+        <label htmlFor={fileInputId} className="rdv-toolbar-file-btn">
           {fileName || 'Open Document'}
         </label>
         <input
-          id="rdv-file-input"
+          id={fileInputId}
+          ref={fileInputRef}
           type="file"
-          accept=".docx"
+          accept={accept}
           onChange={handleFileChange}
           disabled={isProcessing}
           className="rdv-file-input"
@@ -521,6 +1285,13 @@ export function DocumentViewer({
               >
                 Document
               </button>
+              <button
+                className={`rdv-view-tab ${viewMode === 'split' ? 'rdv-view-tab--active' : ''}`}
+                onClick={() => setViewMode('split')}
+                title="View Document and Tracked Changes Side by Side"
+              >
+                Split
+              </button>
               <button
                 className={`rdv-view-tab ${viewMode === 'revisions' ? 'rdv-view-tab--active' : ''}`}
                 onClick={() => setViewMode('revisions')}
@@ -539,7 +1310,7 @@ export function DocumentViewer({
       </div>
 
       <div className="rdv-toolbar-center">
-        {html && totalPages > 0 && viewMode === 'document' && (
+        {html && totalPages > 0 && hasDocumentView && (
           <>
             <button
               className="rdv-toolbar-btn"
@@ -577,29 +1348,30 @@ export function DocumentViewer({
             <button
               className="rdv-toolbar-btn"
               onClick={handleZoomOut}
-              disabled={settings.paginationScale <= 0.3}
+              disabled={zoomScale <= MIN_ZOOM}
               title="Zoom Out"
             >
               −
             </button>
             <select
               className="rdv-zoom-select"
-              value={settings.paginationScale}
-              onChange={(e) => handleZoomChange(parseFloat(e.target.value))}
+              value={settings.zoomMode === 'custom' ? String(settings.paginationScale) : settings.zoomMode}
+              onChange={(e) => handleZoomSelect(e.target.value)}
+              aria-label="Zoom"
             >
-              <option value="0.5">50%</option>
-              <option value="0.75">75%</option>
-              <option value="0.8">80%</option>
-              <option value="0.9">90%</option>
-              <option value="1">100%</option>
-              <option value="1.25">125%</option>
-              <option value="1.5">150%</option>
-              <option value="2">200%</option>
+              <option value="fit-width">Fit Width</option>
+              <option value="fit-page">Fit Page</option>
+              {settings.zoomMode === 'custom' && !ZOOM_PRESETS.includes(settings.paginationScale) && (
+                <option value={String(settings.paginationScale)}>{Math.round(settings.paginationScale * 100)}%</option>
+              )}
+              {ZOOM_PRESETS.map((preset) => (
+                <option key={preset} value={String(preset)}>{Math.round(preset * 100)}%</option>
+              ))}
             </select>
             <button
               className="rdv-toolbar-btn"
               onClick={handleZoomIn}
-              disabled={settings.paginationScale >= 2.0}
+              disabled={zoomScale >= MAX_ZOOM}
               title="Zoom In"
             >
               +
@@ -609,6 +1381,29 @@ export function DocumentViewer({
       </div>
 
       <div className="rdv-toolbar-right">
+        {html && hasDocumentView && (
+          <SearchBox
+            inputRef={searchInputRef}
+            query={searchQuery}
+            options={searchOptions}
+            matchCount={searchMatchCount}
+            activeIndex={searchActiveIndex}
+            error={searchError}
+            onSearch={search}
+            onNext={findNext}
+            onPrevious={findPrevious}
+            onClear={clearSearch}
+          />
+        )}
+        {html && totalPages > 0 && hasDocumentView && (
+          <button
+            className="rdv-toolbar-btn rdv-toolbar-print"
+            onClick={() => setShowPrintDialog(true)}
+            title="Print"
+          >
+            🖨
+          </button>
+        )}
         {showSettingsButton && (
           <button
             className="rdv-toolbar-btn rdv-toolbar-settings"
@@ -622,31 +1417,77 @@ export function DocumentViewer({
     </div>
   );
 
+  // Errors render through `renderError` when given, with Retry offered for transient failures
+  const renderErrorScreen = (shownError: DocumentViewerError, message: string) => {
+    const actions = { retry: isRetryableError(shownError) ? retry : undefined };
+    if (renderError) return renderError(shownError, actions);
+    return (
+      <div className="rdv-message rdv-message--error" role="alert">
+        <p>{message}</p>
+        {actions.retry && (
+          <button className="rdv-message__action" onClick={actions.retry}>
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  };
+
   const rootClassName = ['rdv-viewer', className].filter(Boolean).join(' ');
 
   return (
-    <div className={rootClassName} style={style}>
-      {toolbar === 'top' && <Toolbar />}
+    <div className={rootClassName} style={style} tabIndex={-1} onKeyDown={handleKeyDown} onPaste={handlePaste}>
+      {toolbar === 'top' && toolbarElement}
+
+      <div
+        className={`rdv-content ${isDraggingFile ? 'rdv-content--drop-target' : ''}`}
+        {...dropTargetProps}
+      >
+        {isDraggingFile && (
+          <div className="rdv-drop-overlay">
+            <p>{isProcessing ? 'Please wait for the current document to finish loading' : 'Drop to open'}</p>
+          </div>
+        )}
+
+        {showMetricsOverlay && lastMetrics && <MetricsOverlay metrics={lastMetrics} />}
 
-      <div className="rdv-content">
-        {initError && (
-          <div className="rdv-message rdv-message--error">
-            <p>Failed to initialize: {initError.message}</p>
+        {initError && renderErrorScreen(initError, `Failed to initialize: ${initError.message}`)}
+
+        {!initError && downloadProgress && (
+          <div className="rdv-message">
+            <div className="rdv-spinner"></div>
+            <p>
+              Downloading document...
+              {downloadProgress.total
+                ? ` ${Math.round((downloadProgress.loaded / downloadProgress.total) * 100)}%`
+                : downloadProgress.loaded > 0 ? ` ${formatBytes(downloadProgress.loaded)}` : ''}
+            </p>
+            {downloadProgress.total !== null && (
+              <div className="rdv-progress">
+                <div
+                  className="rdv-progress__bar"
+                  style={{ width: `${Math.min(100, (downloadProgress.loaded / downloadProgress.total) * 100)}%` }}
+                />
+              </div>
+            )}
+            <button className="rdv-message__action" onClick={cancelDownload}>
+              Cancel
+            </button>
           </div>
         )}
 
-        {!initError && (isLoading || isConverting) && (
+        {!initError && !isDownloading && (isLoading || isConverting) && !isPreviewing && (
           documentMetadata && isConverting ? (
             // Show page placeholders while converting
             <div className="rdv-pages rdv-pages--loading">
-              <div className="rdv-page-placeholders" style={{ backgroundColor: '#525659' }}>
+              <div className="rdv-page-placeholders" style={{ backgroundColor: settings.backgroundColor }}>
                 {Array.from({ length: documentMetadata.estimatedPageCount || 1 }).map((_, index) => {
                   // Get section for this page (approximate - use first section if not enough)
                   const section = documentMetadata.sections[
                     Math.min(index, documentMetadata.sections.length - 1)
                   ];
                   // Calculate scaled dimensions (points to pixels, then apply scale)
-                  const scale = settings.paginationScale;
+                  const scale = zoomScale;
                   const width = Math.round((section?.pageWidthPt || 612) * (96 / 72) * scale);
                   const height = Math.round((section?.pageHeightPt || 792) * (96 / 72) * scale);
 
@@ -657,7 +1498,7 @@ export function DocumentViewer({
                       style={{
                         width: `${width}px`,
                         height: `${height}px`,
-                        marginBottom: '20px',
+                        marginBottom: `${settings.pageGap}px`,
                       }}
                     >
                       <div className="rdv-page-placeholder__shimmer" />
@@ -668,6 +1509,9 @@ export function DocumentViewer({
                           <span className="rdv-page-placeholder__count">
                             ~{documentMetadata.estimatedPageCount} page{documentMetadata.estimatedPageCount !== 1 ? 's' : ''}
                           </span>
+                          <button className="rdv-message__action" onClick={cancelConversion}>
+                            Cancel
+                          </button>
                         </div>
                       )}
                       <div className="rdv-page-placeholder__number">{index + 1}</div>
@@ -686,48 +1530,136 @@ export function DocumentViewer({
                   ? 'Loading document engine...'
                   : 'Processing document...'}
               </p>
+              {isConverting && (
+                <button className="rdv-message__action" onClick={cancelConversion}>
+                  Cancel
+                </button>
+              )}
             </div>
           )
         )}
 
-        {!isLoading && !initError && !html && !isConverting && !file && (
+        {isCancelled && !isConverting && !html && file && (
+          <div className="rdv-message">
+            <p>Conversion cancelled.</p>
+            <button className="rdv-message__action" onClick={() => convert(file)}>
+              Convert again
+            </button>
+          </div>
+        )}
+
+        {!isLoading && !initError && !html && !isConverting && !isDownloading && !file && (
           <div className="rdv-message">
             <div className="rdv-message__icon">📄</div>
             <p>{placeholder}</p>
           </div>
         )}
 
-        {error && !isConverting && (
-          <div className="rdv-message rdv-message--error">
-            <p>Error: {error.message}</p>
+        {error && !isConverting && renderErrorScreen(error, `Error: ${error.message}`)}
+
+        {isShowingDocument && isPreviewing && (
+          <div className="rdv-preview-banner" role="status">
+            <div className="rdv-spinner rdv-spinner--small"></div>
+            <span>
+              Showing {totalPages > 1 ? `the first ${totalPages} pages` : 'the first pages'} while the rest of the document converts...
+            </span>
+            <button className="rdv-message__action" onClick={cancelConversion}>
+              Cancel
+            </button>
           </div>
         )}
 
-        {viewMode === 'document' && html && !isConverting && (
-          <div ref={paginatedContainerRef} className="rdv-pages">
-            <PaginatedDocument
-              html={html}
-              scale={settings.paginationScale}
-              showPageNumbers={settings.showPageNumbers}
-              pageGap={20}
-              backgroundColor="#525659"
-              className="rdv-paginated-document"
-              onPaginationComplete={(result: PaginationResult) => {
-                setTotalPages(result.totalPages);
-              }}
-              onPageVisible={handlePageVisible}
-            />
+        {isShowingDocument && (
+          <div className="rdv-document">
+            {activeSidebar !== 'none' && (
+              <aside className="rdv-sidebar">
+                <div className="rdv-sidebar-tabs" role="tablist">
+                  <button
+                    role="tab"
+                    className={`rdv-sidebar-tab ${activeSidebar === 'thumbnails' ? 'rdv-sidebar-tab--active' : ''}`}
+                    aria-selected={activeSidebar === 'thumbnails'}
+                    onClick={() => changeSidebar('thumbnails')}
+                  >
+                    Pages
+                  </button>
+                  <button
+                    role="tab"
+                    className={`rdv-sidebar-tab ${activeSidebar === 'outline' ? 'rdv-sidebar-tab--active' : ''}`}
+                    aria-selected={activeSidebar === 'outline'}
+                    onClick={() => changeSidebar('outline')}
+                  >
+                    Outline
+                  </button>
+                </div>
+                <div className="rdv-sidebar-body">
+                  {activeSidebar === 'thumbnails' ? (
+                    <ThumbnailRail
+                      pages={pages}
+                      currentPage={currentPage}
+                      onSelect={goToPage}
+                      getPageElement={getThumbnailSource}
+                    />
+                  ) : (
+                    <OutlinePanel items={outline} activeId={activeOutlineId} onSelect={handleOutlineSelect} />
+                  )}
+                </div>
+              </aside>
+            )}
+            {settings.revisionPanelSide === 'left' && splitPanelElement}
+            <div ref={paginatedContainerRef} className="rdv-pages">
+              <PaginatedDocument
+                html={html}
+                scale={zoomScale}
+                showPageNumbers={settings.showPageNumbers}
+                pageGap={settings.pageGap}
+                backgroundColor={settings.backgroundColor}
+                className="rdv-paginated-document"
+                onPaginationComplete={handlePaginationComplete}
+                onPageVisible={handlePageVisible}
+              />
+            </div>
+            {settings.revisionPanelSide === 'right' && splitPanelElement}
           </div>
         )}
 
         {viewMode === 'revisions' && html && !isConverting && (
-          <RevisionPanel revisions={revisions} />
+          <RevisionPanel
+            revisions={revisions}
+            selectedIndex={selectedRevision}
+            onSelect={showRevision}
+            revisionPages={revisionPages}
+            filter={revisionFilter}
+            onFilterChange={updateRevisionFilter}
+            groupBy={settings.revisionGroupBy}
+            onGroupByChange={(revisionGroupBy) => updateSettings({ revisionGroupBy })}
+            sortOrder={settings.revisionSortOrder}
+            onSortOrderChange={(revisionSortOrder) => updateSettings({ revisionSortOrder })}
+            documentName={fileName || undefined}
+          />
         )}
       </div>
 
-      {toolbar === 'bottom' && <Toolbar />}
+      {toolbar === 'bottom' && toolbarElement}
 
-      {showSettings && <SettingsModal />}
+      {showSettings && (
+        <SettingsModal
+          settings={settings}
+          onChange={updateSettings}
+          onApply={applySettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showPrintDialog && (
+        <PrintDialog
+          totalPages={totalPages}
+          currentPage={currentPage}
+          onPrint={handlePrint}
+          onClose={() => setShowPrintDialog(false)}
+        />
+      )}
+
+      {showShortcuts && <ShortcutsHelp bindings={keyBindings} onClose={() => setShowShortcuts(false)} />}
     </div>
   );
-}
+});
@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { DocxodusContext } from './hooks/useDocxodusEngine';
+import { getSharedDocxodusEngine } from './utils/docxodusEngine';
+import type { DocxodusEngineOptions } from './utils/docxodusEngine';
+
+export interface DocxodusProviderProps extends DocxodusEngineOptions {
+  children?: ReactNode;
+}
+
+/**
+ * Shares one Docxodus engine (a single runtime, or a pool of up to `poolSize` workers)
+ * between every DocumentViewer inside it. The engine is kept for the lifetime of the
+ * page, so remounting the provider or calling `preloadDocxodus` with the same options reuses it.
+ */
+export function DocxodusProvider({ useWorker = true, poolSize = 1, wasmBasePath, children }: DocxodusProviderProps) {
+  const engine = useMemo(
+    () => getSharedDocxodusEngine({ useWorker, poolSize, wasmBasePath }),
+    [useWorker, poolSize, wasmBasePath]
+  );
+
+  return <DocxodusContext.Provider value={engine}>{children}</DocxodusContext.Provider>;
+}
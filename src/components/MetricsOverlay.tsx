@@ -0,0 +1,35 @@
+import type { DocumentMetrics } from '../types';
+import { formatBytes } from '../utils/loadDocumentSource';
+import { formatDuration } from '../utils/metrics';
+
+interface MetricsOverlayProps {
+  metrics: DocumentMetrics;
+}
+
+const formatTime = (ms: number | null) => (ms === null ? '–' : formatDuration(ms));
+
+export function MetricsOverlay({ metrics }: MetricsOverlayProps) {
+  const rows: [string, string][] = [
+    ['Engine', `${metrics.engineMode ?? 'unknown'}, loaded in ${formatTime(metrics.engineInitTime)}`],
+    ['File size', formatBytes(metrics.fileSize)],
+    ['Metadata', formatTime(metrics.metadataTime)],
+    [metrics.cacheHit ? 'Conversion (cached)' : 'Conversion', formatDuration(metrics.conversionTime)],
+    ['HTML size', `${metrics.htmlSize.toLocaleString()} characters`],
+    ['Revisions', formatTime(metrics.revisionExtractionTime)],
+    ['Pagination', formatTime(metrics.paginationTime)],
+    ['Pages', metrics.pageCount === null ? '–' : String(metrics.pageCount)],
+  ];
+
+  return (
+    <div className="rdv-metrics" aria-label="Load metrics">
+      <dl>
+        {rows.map(([label, value]) => (
+          <div key={label} className="rdv-metrics-row">
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
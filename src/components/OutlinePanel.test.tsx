@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { OutlinePanel } from './OutlinePanel'
+import type { OutlineItem } from '../types'
+
+const mockOutline: OutlineItem[] = [
+  {
+    id: 'outline-0',
+    text: 'Definitions',
+    level: 1,
+    pageNumber: 1,
+    children: [
+      { id: 'outline-1', text: 'Interpretation', level: 2, pageNumber: 2, children: [] },
+    ],
+  },
+  { id: 'outline-2', text: 'Payment Terms', level: 1, pageNumber: 5, children: [] },
+]
+
+describe('OutlinePanel', () => {
+  it('renders empty state when there are no headings', () => {
+    render(<OutlinePanel items={[]} activeId={null} onSelect={vi.fn()} />)
+    expect(screen.getByText('No headings found in this document.')).toBeInTheDocument()
+  })
+
+  it('renders nested headings with page numbers', () => {
+    render(<OutlinePanel items={mockOutline} activeId={null} onSelect={vi.fn()} />)
+    expect(screen.getByText('Definitions')).toBeInTheDocument()
+    expect(screen.getByText('Interpretation')).toBeInTheDocument()
+    expect(screen.getByText('5')).toBeInTheDocument()
+  })
+
+  it('marks the active section', () => {
+    render(<OutlinePanel items={mockOutline} activeId="outline-2" onSelect={vi.fn()} />)
+    expect(screen.getByTitle('Payment Terms')).toHaveAttribute('aria-current', 'location')
+    expect(screen.getByTitle('Definitions')).not.toHaveAttribute('aria-current')
+  })
+
+  it('calls onSelect when a heading is clicked', async () => {
+    const user = userEvent.setup()
+    const onSelect = vi.fn()
+    render(<OutlinePanel items={mockOutline} activeId={null} onSelect={onSelect} />)
+
+    await user.click(screen.getByText('Interpretation'))
+
+    expect(onSelect).toHaveBeenCalledWith(mockOutline[0].children[0])
+  })
+
+  it('collapses and expands child headings', async () => {
+    const user = userEvent.setup()
+    render(<OutlinePanel items={mockOutline} activeId={null} onSelect={vi.fn()} />)
+
+    await user.click(screen.getByLabelText('Collapse Definitions'))
+    expect(screen.queryByText('Interpretation')).not.toBeInTheDocument()
+
+    await user.click(screen.getByLabelText('Expand Definitions'))
+    expect(screen.getByText('Interpretation')).toBeInTheDocument()
+  })
+})
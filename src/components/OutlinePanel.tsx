@@ -0,0 +1,85 @@
+import { useState, useEffect, useRef } from 'react';
+import type { OutlineItem } from '../types';
+
+interface OutlinePanelProps {
+  items: OutlineItem[];
+  /** Id of the heading for the section currently in view */
+  activeId: string | null;
+  onSelect: (item: OutlineItem) => void;
+}
+
+export function OutlinePanel({ items, activeId, onSelect }: OutlinePanelProps) {
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const activeItemRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current section visible as the reader scrolls the document
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [activeId]);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="rdv-outline">
+        <p className="rdv-outline-empty">No headings found in this document.</p>
+      </div>
+    );
+  }
+
+  const renderItems = (levelItems: OutlineItem[]) => (
+    <ul className="rdv-outline-list">
+      {levelItems.map((item) => {
+        const hasChildren = item.children.length > 0;
+        const isCollapsed = collapsedIds.has(item.id);
+        const isActive = item.id === activeId;
+
+        return (
+          <li key={item.id} className="rdv-outline-node">
+            <div className={`rdv-outline-row ${isActive ? 'rdv-outline-row--active' : ''}`}>
+              {hasChildren ? (
+                <button
+                  className="rdv-outline-toggle"
+                  onClick={() => toggleCollapsed(item.id)}
+                  aria-expanded={!isCollapsed}
+                  aria-label={isCollapsed ? `Expand ${item.text}` : `Collapse ${item.text}`}
+                >
+                  {isCollapsed ? '▸' : '▾'}
+                </button>
+              ) : (
+                <span className="rdv-outline-toggle rdv-outline-toggle--leaf" />
+              )}
+              <button
+                ref={isActive ? activeItemRef : undefined}
+                className="rdv-outline-item"
+                onClick={() => onSelect(item)}
+                title={item.text}
+                aria-current={isActive ? 'location' : undefined}
+              >
+                <span className="rdv-outline-item__text">{item.text}</span>
+                <span className="rdv-outline-item__page">{item.pageNumber}</span>
+              </button>
+            </div>
+            {hasChildren && !isCollapsed && renderItems(item.children)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <nav className="rdv-outline" aria-label="Document outline">
+      {renderItems(items)}
+    </nav>
+  );
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PrintDialog } from './PrintDialog'
+
+describe('PrintDialog', () => {
+  it('prints all pages by default', async () => {
+    const user = userEvent.setup()
+    const onPrint = vi.fn()
+    render(<PrintDialog totalPages={5} currentPage={2} onPrint={onPrint} onClose={vi.fn()} />)
+
+    await user.click(screen.getByRole('button', { name: 'Print' }))
+
+    expect(onPrint).toHaveBeenCalledWith(null)
+  })
+
+  it('prints the current page', async () => {
+    const user = userEvent.setup()
+    const onPrint = vi.fn()
+    render(<PrintDialog totalPages={5} currentPage={2} onPrint={onPrint} onClose={vi.fn()} />)
+
+    await user.click(screen.getByLabelText('Current page (2)'))
+    await user.click(screen.getByRole('button', { name: 'Print' }))
+
+    expect(onPrint).toHaveBeenCalledWith([2])
+  })
+
+  it('validates page ranges before printing', async () => {
+    const user = userEvent.setup()
+    const onPrint = vi.fn()
+    render(<PrintDialog totalPages={5} currentPage={1} onPrint={onPrint} onClose={vi.fn()} />)
+
+    await user.click(screen.getByLabelText('Pages'))
+    await user.type(screen.getByLabelText('Page range, e.g. 1-3, 5'), '4-2')
+    await user.click(screen.getByRole('button', { name: 'Print' }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid page range "4-2"')
+    expect(onPrint).not.toHaveBeenCalled()
+
+    await user.clear(screen.getByLabelText('Page range, e.g. 1-3, 5'))
+    await user.type(screen.getByLabelText('Page range, e.g. 1-3, 5'), '2-3{Enter}')
+
+    expect(onPrint).toHaveBeenCalledWith([2, 3])
+  })
+
+  it('keeps each dialog\'s scope radios separate', async () => {
+    const user = userEvent.setup()
+    render(
+      <>
+        <PrintDialog totalPages={5} currentPage={2} onPrint={vi.fn()} onClose={vi.fn()} />
+        <PrintDialog totalPages={5} currentPage={2} onPrint={vi.fn()} onClose={vi.fn()} />
+      </>
+    )
+    const [first, second] = screen.getAllByRole('dialog')
+
+    await user.click(within(first).getByLabelText('Current page (2)'))
+    expect(within(first).getByLabelText('Current page (2)')).toBeChecked()
+    expect(within(second).getByLabelText('All pages (5)')).toBeChecked()
+  })
+})
@@ -0,0 +1,91 @@
+import { useId, useState } from 'react';
+import { parsePageRange } from '../utils/print';
+
+type PrintScope = 'all' | 'current' | 'range';
+
+interface PrintDialogProps {
+  totalPages: number;
+  currentPage: number;
+  /** Called with the pages to print, or null for all pages */
+  onPrint: (pageNumbers: number[] | null) => void;
+  onClose: () => void;
+}
+
+export function PrintDialog({ totalPages, currentPage, onPrint, onClose }: PrintDialogProps) {
+  const [scope, setScope] = useState<PrintScope>('all');
+  const [range, setRange] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const id = useId();
+  const rangeInputId = `${id}-range`;
+
+  const handlePrint = () => {
+    if (scope === 'all') {
+      onPrint(null);
+    } else if (scope === 'current') {
+      onPrint([currentPage]);
+    } else {
+      try {
+        onPrint(parsePageRange(range, totalPages));
+      } catch (err) {
+        setRangeError(err instanceof Error ? err.message : String(err));
+      }
+    }
+  };
+
+  return (
+    <div className="rdv-settings-overlay" onClick={onClose}>
+      <div
+        className="rdv-settings-modal rdv-print-dialog"
+        role="dialog"
+        aria-label="Print"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="rdv-settings-header">
+          <h3>Print</h3>
+          <button className="rdv-settings-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+        <div className="rdv-settings-body">
+          <div className="rdv-settings-radio-group">
+            <label className="rdv-settings-radio">
+              <input type="radio" name={`${id}-printScope`} checked={scope === 'all'} onChange={() => setScope('all')} />
+              <span>All pages ({totalPages})</span>
+            </label>
+            <label className="rdv-settings-radio">
+              <input type="radio" name={`${id}-printScope`} checked={scope === 'current'} onChange={() => setScope('current')} />
+              <span>Current page ({currentPage})</span>
+            </label>
+            <label className="rdv-settings-radio">
+              <input type="radio" name={`${id}-printScope`} checked={scope === 'range'} onChange={() => setScope('range')} />
+              <span>Pages</span>
+            </label>
+          </div>
+          {scope === 'range' && (
+            <div className="rdv-settings-field rdv-print-range">
+              <label htmlFor={rangeInputId}>Page range, e.g. 1-3, 5</label>
+              <input
+                id={rangeInputId}
+                type="text"
+                value={range}
+                autoFocus
+                aria-invalid={rangeError !== null}
+                onChange={(e) => {
+                  setRange(e.target.value);
+                  setRangeError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handlePrint();
+                }}
+              />
+              {rangeError && <p className="rdv-print-range__error" role="alert">{rangeError}</p>}
+            </div>
+          )}
+        </div>
+        <div className="rdv-settings-footer">
+          <button className="rdv-settings-apply" onClick={handlePrint}>
+            Print
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
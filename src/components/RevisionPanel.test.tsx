@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest'
-import { render, screen } from '@testing-library/react'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { RevisionPanel } from './RevisionPanel'
 import type { Revision } from 'docxodus/react'
@@ -28,6 +28,14 @@ const mockRevisions: Revision[] = [
 ]
 
 describe('RevisionPanel', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // jsdom implements none of these, so tests that need them add their own
+    delete (URL as Partial<typeof URL>).createObjectURL
+    delete (URL as Partial<typeof URL>).revokeObjectURL
+    delete (Element.prototype as Partial<Element>).scrollIntoView
+  })
+
   it('renders empty state when no revisions', () => {
     render(<RevisionPanel revisions={[]} />)
     expect(screen.getByText('No tracked changes found in this document.')).toBeInTheDocument()
@@ -78,7 +86,7 @@ describe('RevisionPanel', () => {
     const user = userEvent.setup()
     render(<RevisionPanel revisions={mockRevisions} />)
 
-    const filter = screen.getByRole('combobox')
+    const filter = screen.getByRole('combobox', { name: 'Filter changes by type' })
     await user.selectOptions(filter, 'insertions')
 
     expect(screen.getByText('This is inserted text')).toBeInTheDocument()
@@ -90,7 +98,7 @@ describe('RevisionPanel', () => {
     const user = userEvent.setup()
     render(<RevisionPanel revisions={mockRevisions} />)
 
-    const filter = screen.getByRole('combobox')
+    const filter = screen.getByRole('combobox', { name: 'Filter changes by type' })
     await user.selectOptions(filter, 'deletions')
     await user.selectOptions(filter, 'all')
 
@@ -99,6 +107,94 @@ describe('RevisionPanel', () => {
     expect(screen.getByText('This was moved')).toBeInTheDocument()
   })
 
+  it('combines author, date and text filters with the type filter', async () => {
+    const user = userEvent.setup()
+    render(<RevisionPanel revisions={mockRevisions} />)
+
+    await user.click(screen.getByText('All authors'))
+    await user.click(screen.getByLabelText('Jane Smith'))
+    await user.click(screen.getByLabelText('Bob Wilson'))
+    expect(screen.getByText('2 of 3 changes')).toBeInTheDocument()
+    expect(screen.queryByText('This is inserted text')).not.toBeInTheDocument()
+    // Type options count the changes the other filters leave
+    expect(screen.getByRole('option', { name: 'Insertions (0)' })).toBeInTheDocument()
+
+    await user.type(screen.getByLabelText('To'), '2024-01-16')
+    expect(screen.getByText('1 of 3 changes')).toBeInTheDocument()
+    expect(screen.getByText('This was deleted')).toBeInTheDocument()
+
+    await user.type(screen.getByRole('searchbox'), 'moved')
+    expect(screen.getByText('No changes match the filters.')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Clear filters' }))
+    expect(screen.getByText('3 changes')).toBeInTheDocument()
+  })
+
+  it('shows the filter it is given and reports changes to it', async () => {
+    const user = userEvent.setup()
+    const onFilterChange = vi.fn()
+    const filter = { type: 'all' as const, authors: ['John Doe'], dateFrom: null, dateTo: null, text: '' }
+    render(<RevisionPanel revisions={mockRevisions} filter={filter} onFilterChange={onFilterChange} />)
+
+    expect(screen.getByText('1 of 3 changes')).toBeInTheDocument()
+    expect(screen.getByText('+1')).toBeInTheDocument()
+    expect(screen.queryByText('−1')).not.toBeInTheDocument()
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Filter changes by type' }), 'deletions')
+    expect(onFilterChange).toHaveBeenCalledWith({ ...filter, type: 'deletions' })
+    // Controlled: nothing changes until the new filter is passed in
+    expect(screen.getByText('This is inserted text')).toBeInTheDocument()
+  })
+
+  it('groups changes under collapsible headers and sorts within them', async () => {
+    const user = userEvent.setup()
+    const revisions = [...mockRevisions, { ...mockRevisions[0], date: '2024-01-18T09:00:00Z', text: 'Added later' }]
+    render(<RevisionPanel revisions={revisions} revisionPages={[1, 2, null, 1]} />)
+    expect(screen.getAllByText('p. 1')).toHaveLength(2)
+
+    await user.selectOptions(screen.getByLabelText('Group'), 'page')
+    await user.selectOptions(screen.getByLabelText('Sort'), 'newest')
+    const headers = screen.getAllByRole('button', { expanded: true })
+    expect(headers.map((header) => header.textContent)).toEqual(['▾Page 12', '▾Page 21', '▾Not on a page1'])
+    expect(screen.getAllByText(/^(Added later|This is inserted text)$/).map((text) => text.textContent))
+      .toEqual(['Added later', 'This is inserted text'])
+
+    await user.click(headers[0])
+    expect(headers[0]).toHaveAttribute('aria-expanded', 'false')
+    expect(screen.queryByText('Added later')).not.toBeInTheDocument()
+    expect(screen.getByText('This was deleted')).toBeInTheDocument()
+  })
+
+  it('exports the changes it lists', async () => {
+    const user = userEvent.setup()
+    const exported: Blob[] = []
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      exported.push(blob)
+      return 'blob:changes'
+    })
+    URL.revokeObjectURL = vi.fn()
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('lease changes.csv')
+    })
+    render(<RevisionPanel revisions={mockRevisions} documentName="lease.docx" />)
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Filter changes by type' }), 'deletions')
+    await user.click(screen.getByText('Export'))
+    await user.click(screen.getByRole('button', { name: 'CSV' }))
+
+    expect(click).toHaveBeenCalledTimes(1)
+    const csv = await new Promise<string>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.readAsText(exported[0])
+    })
+    expect(csv.trim().split('\r\n')).toEqual([
+      'Type,Author,Date,Text,Move group,Property changes',
+      'Deleted,Jane Smith,2024-01-16T14:00:00Z,This was deleted,,',
+    ])
+    await waitFor(() => expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:changes'))
+  })
+
   it('truncates long text and shows expand button', () => {
     const longRevision: Revision[] = [
       {
@@ -132,4 +228,36 @@ describe('RevisionPanel', () => {
     expect(screen.getByText('Show less')).toBeInTheDocument()
     expect(screen.getByText(longText)).toBeInTheDocument()
   })
+
+  it('selects revisions by their index in the full list', async () => {
+    const user = userEvent.setup()
+    const onSelect = vi.fn()
+    render(<RevisionPanel revisions={mockRevisions} selectedIndex={2} onSelect={onSelect} />)
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Filter changes by type' }), 'deletions')
+    await user.click(screen.getByText('This was deleted'))
+    expect(onSelect).toHaveBeenCalledWith(1)
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Filter changes by type' }), 'all')
+    const [, , moved] = screen.getAllByTitle('Show in document')
+    expect(moved).toHaveAttribute('aria-current', 'true')
+    moved.focus()
+    await user.keyboard('{Enter}')
+    expect(onSelect).toHaveBeenLastCalledWith(2)
+  })
+
+  it('highlights and scrolls to the changes on the page being read', () => {
+    const scrollIntoView = vi.fn()
+    Element.prototype.scrollIntoView = scrollIntoView
+    const { rerender } = render(<RevisionPanel revisions={mockRevisions} currentPage={1} revisionPages={[1, null, 3]} />)
+    const [inserted, , moved] = screen.getAllByText(/^This/).map((text) => text.closest('.rdv-revision-item'))
+    expect(inserted).toHaveClass('rdv-revision-item--current-page')
+    expect(scrollIntoView.mock.contexts).toEqual([inserted])
+
+    // Pages without changes of their own follow on to the next change
+    rerender(<RevisionPanel revisions={mockRevisions} currentPage={2} revisionPages={[1, null, 3]} />)
+    expect(inserted).not.toHaveClass('rdv-revision-item--current-page')
+    expect(moved).not.toHaveClass('rdv-revision-item--current-page')
+    expect(scrollIntoView.mock.contexts).toEqual([inserted, moved])
+  })
 })
@@ -1,20 +1,65 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import type { Revision } from 'docxodus/react';
 import { isInsertion, isDeletion, isMove, isFormatChange } from 'docxodus';
+import { DEFAULT_REVISION_FILTER } from '../types';
+import type {
+  RevisionFilter,
+  RevisionTypeFilter,
+  RevisionGroupBy,
+  RevisionSortOrder,
+  RevisionExportFormat,
+} from '../types';
+import {
+  matchesRevisionFilter,
+  matchesRevisionType,
+  isRevisionFilterActive,
+  getRevisionAuthors,
+} from '../utils/revisionFilter';
+import { sortRevisions, groupRevisions } from '../utils/revisionGroups';
+import type { IndexedRevision } from '../utils/revisionGroups';
+import { getRevisionTypeLabel, getFormatChanges, formatRevisionDate } from '../utils/revisionDetails';
+import { downloadRevisions } from '../utils/revisionExport';
 
 interface RevisionPanelProps {
   revisions: Revision[];
+  /** Index (in `revisions`) of the selected revision */
+  selectedIndex?: number | null;
+  /** Called with the revision's index in `revisions` when an item is clicked */
+  onSelect?: (index: number) => void;
+  /** Page being read. Changes on it are highlighted, and the list follows it. */
+  currentPage?: number;
+  /** Page each revision starts on (null when not rendered), by index in `revisions` */
+  revisionPages?: (number | null)[];
+  /** Filters for the list (controlled). Leave undefined to let the list's controls change them. */
+  filter?: RevisionFilter;
+  /** Called when the list's filter controls are changed */
+  onFilterChange?: (filter: RevisionFilter) => void;
+  /** How the list is grouped (controlled) */
+  groupBy?: RevisionGroupBy;
+  /** Called when the grouping is changed */
+  onGroupByChange?: (groupBy: RevisionGroupBy) => void;
+  /** Order of the list (controlled) */
+  sortOrder?: RevisionSortOrder;
+  /** Called when the order is changed */
+  onSortOrderChange?: (sortOrder: RevisionSortOrder) => void;
+  /** Name of the document, used to name and title exports */
+  documentName?: string;
 }
 
-type FilterType = 'all' | 'insertions' | 'deletions' | 'moves' | 'formatting';
+const EXPORT_FORMATS: { format: RevisionExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML report' },
+];
 
-function getRevisionTypeLabel(revision: Revision): string {
-  if (isInsertion(revision)) return 'Inserted';
-  if (isDeletion(revision)) return 'Deleted';
-  if (isMove(revision)) return revision.isMoveSource ? 'Moved from' : 'Moved to';
-  if (isFormatChange(revision)) return 'Formatted';
-  return String(revision.revisionType);
-}
+const countRevisionTypes = (revisions: Revision[]) => ({
+  total: revisions.length,
+  insertions: revisions.filter(isInsertion).length,
+  deletions: revisions.filter(isDeletion).length,
+  moves: revisions.filter(isMove).length,
+  formatting: revisions.filter(isFormatChange).length,
+});
 
 function getRevisionTypeClass(revision: Revision): string {
   if (isInsertion(revision)) return 'rdv-revision--insertion';
@@ -24,122 +69,134 @@ function getRevisionTypeClass(revision: Revision): string {
   return '';
 }
 
-function formatDate(isoDate: string): string {
-  try {
-    const date = new Date(isoDate);
-    return date.toLocaleDateString(undefined, {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  } catch {
-    return isoDate;
-  }
-}
-
 function truncateText(text: string, maxLength: number = 150): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength) + '...';
 }
 
-// Filter out raw XML values and clean up property names
-function isValidPropertyValue(value: string): boolean {
-  if (!value || typeof value !== 'string') return false;
-  // Filter out raw XML data
-  if (value.includes('<') || value.includes('xmlns') || value.includes('Unid=')) return false;
-  // Filter out overly long values (likely XML)
-  if (value.length > 100) return false;
-  return true;
-}
+export function RevisionPanel({
+  revisions,
+  selectedIndex = null,
+  onSelect,
+  currentPage,
+  revisionPages,
+  filter: controlledFilter,
+  onFilterChange,
+  groupBy: controlledGroupBy,
+  onGroupByChange,
+  sortOrder: controlledSortOrder,
+  onSortOrderChange,
+  documentName,
+}: RevisionPanelProps) {
+  const [internalFilter, setInternalFilter] = useState<RevisionFilter>(DEFAULT_REVISION_FILTER);
+  const filter = controlledFilter ?? internalFilter;
+  const [internalGroupBy, setInternalGroupBy] = useState<RevisionGroupBy>('none');
+  const groupBy = controlledGroupBy ?? internalGroupBy;
+  const [internalSortOrder, setInternalSortOrder] = useState<RevisionSortOrder>('document');
+  const sortOrder = controlledSortOrder ?? internalSortOrder;
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [isAuthorListOpen, setIsAuthorListOpen] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+  const listRef = useRef<HTMLDivElement>(null);
+  const selectedItemRef = useRef<HTMLDivElement>(null);
 
-// Make property names more readable
-function formatPropertyName(name: string): string {
-  // Convert camelCase to Title Case with spaces
-  return name
-    .replace(/([A-Z])/g, ' $1')
-    .replace(/^./, (str) => str.toUpperCase())
-    .trim();
-}
+  // Keep the selected change visible, e.g. after selecting it in the document
+  useEffect(() => {
+    selectedItemRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [selectedIndex]);
 
-// Format property value for display
-function formatPropertyValue(value: string): string {
-  if (value === 'true') return 'Yes';
-  if (value === 'false') return 'No';
-  if (value === 'single') return 'Single';
-  if (value === 'double') return 'Double';
-  return value;
-}
+  const updateFilter = (updates: Partial<RevisionFilter>) => {
+    const next = { ...filter, ...updates };
+    if (!controlledFilter) setInternalFilter(next);
+    onFilterChange?.(next);
+  };
 
-interface FormatChangeItem {
-  property: string;
-  oldValue?: string;
-  newValue?: string;
-}
+  // Selected authors stay listed (so they can be unselected) even if they made none of the changes
+  const authors = useMemo(
+    () => getRevisionAuthors(revisions, filter.authors),
+    [revisions, filter.authors]
+  );
+  const isFiltered = isRevisionFilterActive(filter);
 
-// Get paired format changes (old → new for same property)
-function getFormatChanges(revision: Revision): FormatChangeItem[] {
-  if (!revision.formatChange) return [];
+  // Revisions matching every filter but the type, so each type option can count its matches
+  const untypedRevisions = useMemo(
+    () => revisions
+      .map((revision, index) => ({ revision, index }))
+      .filter(({ revision }) => matchesRevisionFilter(revision, { ...filter, type: 'all' })),
+    [revisions, filter]
+  );
 
-  const { oldProperties, newProperties } = revision.formatChange;
-  const changes: FormatChangeItem[] = [];
-  const processedKeys = new Set<string>();
+  // Revisions shown, with their index in `revisions`
+  const filteredRevisions = useMemo(
+    () => untypedRevisions.filter(({ revision }) => matchesRevisionType(revision, filter.type)),
+    [untypedRevisions, filter.type]
+  );
 
-  // Process old properties
-  if (oldProperties) {
-    for (const [key, value] of Object.entries(oldProperties)) {
-      if (!isValidPropertyValue(value)) continue;
-      processedKeys.add(key);
-      const newValue = newProperties?.[key];
-      changes.push({
-        property: formatPropertyName(key),
-        oldValue: formatPropertyValue(value),
-        newValue: newValue && isValidPropertyValue(newValue) ? formatPropertyValue(newValue) : undefined,
-      });
-    }
-  }
+  const groups = useMemo(
+    () => groupRevisions(sortRevisions(filteredRevisions, sortOrder), groupBy, sortOrder, revisionPages),
+    [filteredRevisions, sortOrder, groupBy, revisionPages]
+  );
 
-  // Process new properties not in old
-  if (newProperties) {
-    for (const [key, value] of Object.entries(newProperties)) {
-      if (processedKeys.has(key)) continue;
-      if (!isValidPropertyValue(value)) continue;
-      changes.push({
-        property: formatPropertyName(key),
-        oldValue: undefined,
-        newValue: formatPropertyValue(value),
-      });
-    }
-  }
+  // First change shown on or after the page being read
+  const followedIndex = useMemo(() => {
+    if (currentPage === undefined || !revisionPages) return null;
+    const followed = filteredRevisions.find(({ index }) => (revisionPages[index] ?? 0) >= currentPage);
+    return followed?.index ?? null;
+  }, [filteredRevisions, revisionPages, currentPage]);
 
-  return changes;
-}
+  // Follow the reader through the document
+  useEffect(() => {
+    if (followedIndex === null) return;
+    listRef.current?.querySelector(`[data-revision-index="${followedIndex}"]`)?.scrollIntoView?.({ block: 'nearest' });
+  }, [followedIndex]);
 
-export function RevisionPanel({ revisions }: RevisionPanelProps) {
-  const [filter, setFilter] = useState<FilterType>('all');
-  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+  const stats = useMemo(
+    () => countRevisionTypes(filteredRevisions.map(({ revision }) => revision)),
+    [filteredRevisions]
+  );
+  const typeCounts = useMemo(
+    () => countRevisionTypes(untypedRevisions.map(({ revision }) => revision)),
+    [untypedRevisions]
+  );
 
-  const filteredRevisions = useMemo(() => {
-    if (filter === 'all') return revisions;
-    return revisions.filter((rev) => {
-      switch (filter) {
-        case 'insertions': return isInsertion(rev);
-        case 'deletions': return isDeletion(rev);
-        case 'moves': return isMove(rev);
-        case 'formatting': return isFormatChange(rev);
-        default: return true;
-      }
+  const toggleAuthor = (author: string) => {
+    updateFilter({
+      authors: filter.authors.includes(author)
+        ? filter.authors.filter((a) => a !== author)
+        : [...filter.authors, author],
     });
-  }, [revisions, filter]);
+  };
 
-  const stats = useMemo(() => ({
-    total: revisions.length,
-    insertions: revisions.filter(isInsertion).length,
-    deletions: revisions.filter(isDeletion).length,
-    moves: revisions.filter(isMove).length,
-    formatting: revisions.filter(isFormatChange).length,
-  }), [revisions]);
+  const changeGroupBy = (value: RevisionGroupBy) => {
+    if (!controlledGroupBy) setInternalGroupBy(value);
+    onGroupByChange?.(value);
+  };
+
+  const changeSortOrder = (value: RevisionSortOrder) => {
+    if (!controlledSortOrder) setInternalSortOrder(value);
+    onSortOrderChange?.(value);
+  };
+
+  // Exports the changes as listed: filtered, in the list's order, collapsed groups included
+  const handleExport = (format: RevisionExportFormat) => {
+    const listed = groups.flatMap((group) => group.items.map(({ revision }) => revision));
+    const baseName = documentName?.replace(/\.[^.]+$/, '');
+    downloadRevisions(listed, format, baseName ? `${baseName} changes` : 'tracked-changes', {
+      title: documentName ? `Tracked changes: ${documentName}` : undefined,
+    });
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
 
   const toggleExpanded = (index: number) => {
     setExpandedIds((prev) => {
@@ -153,6 +210,93 @@ export function RevisionPanel({ revisions }: RevisionPanelProps) {
     });
   };
 
+  const renderItem = ({ revision, index }: IndexedRevision) => {
+    const isExpanded = expandedIds.has(index);
+    const isSelected = index === selectedIndex;
+    const page = revisionPages?.[index] ?? null;
+    const isOnCurrentPage = currentPage !== undefined && page === currentPage;
+    const needsTruncation = revision.text.length > 150;
+    const formatChanges = isFormatChange(revision) ? getFormatChanges(revision) : [];
+
+    return (
+      <div
+        key={index}
+        ref={isSelected ? selectedItemRef : undefined}
+        data-revision-index={index}
+        className={`rdv-revision-item ${getRevisionTypeClass(revision)} ${isSelected ? 'rdv-revision-item--selected' : ''} ${isOnCurrentPage ? 'rdv-revision-item--current-page' : ''}`}
+        aria-current={isSelected ? 'true' : undefined}
+        tabIndex={onSelect ? 0 : undefined}
+        title={onSelect ? 'Show in document' : undefined}
+        onClick={onSelect && (() => onSelect(index))}
+        onKeyDown={onSelect && ((e) => {
+          if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            onSelect(index);
+          }
+        })}
+      >
+        <div className="rdv-revision-item__header">
+          <span className="rdv-revision-type">
+            {getRevisionTypeLabel(revision)}
+          </span>
+          {isMove(revision) && revision.moveGroupId !== undefined && (
+            <span className="rdv-revision-move-id">#{revision.moveGroupId}</span>
+          )}
+          <span className="rdv-revision-author">{revision.author || 'Unknown'}</span>
+          <span className="rdv-revision-date">{formatRevisionDate(revision.date)}</span>
+          {page !== null && <span className="rdv-revision-page">p. {page}</span>}
+        </div>
+
+        {revision.text && (
+          <div className="rdv-revision-item__content">
+            <span className="rdv-revision-text">
+              {isExpanded ? revision.text : truncateText(revision.text)}
+            </span>
+            {needsTruncation && (
+              <button
+                className="rdv-revision-expand"
+                onClick={(e) => {
+                  // Expanding the text isn't a request to jump to the change
+                  e.stopPropagation();
+                  toggleExpanded(index);
+                }}
+              >
+                {isExpanded ? 'Show less' : 'Show more'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {formatChanges.length > 0 && (
+          <div className="rdv-revision-item__format-details">
+            {formatChanges.map((change, i) => (
+              <div key={i} className="rdv-format-change">
+                <span className="rdv-format-change__property">{change.property}</span>
+                <span className="rdv-format-change__values">
+                  {change.oldValue && (
+                    <span className="rdv-format-change__old">{change.oldValue}</span>
+                  )}
+                  {change.oldValue && change.newValue && (
+                    <span className="rdv-format-change__arrow">→</span>
+                  )}
+                  {change.newValue && (
+                    <span className="rdv-format-change__new">{change.newValue}</span>
+                  )}
+                  {!change.oldValue && change.newValue && (
+                    <span className="rdv-format-change__added">(added)</span>
+                  )}
+                  {change.oldValue && !change.newValue && (
+                    <span className="rdv-format-change__removed">(removed)</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (revisions.length === 0) {
     return (
       <div className="rdv-revision-panel">
@@ -169,7 +313,9 @@ export function RevisionPanel({ revisions }: RevisionPanelProps) {
       <div className="rdv-revision-header">
         <div className="rdv-revision-stats">
           <span className="rdv-revision-stat rdv-revision-stat--total">
-            {stats.total} change{stats.total !== 1 ? 's' : ''}
+            {isFiltered
+              ? `${stats.total} of ${revisions.length} change${revisions.length !== 1 ? 's' : ''}`
+              : `${stats.total} change${stats.total !== 1 ? 's' : ''}`}
           </span>
           {stats.insertions > 0 && (
             <span className="rdv-revision-stat rdv-revision-stat--insertion">
@@ -192,84 +338,138 @@ export function RevisionPanel({ revisions }: RevisionPanelProps) {
             </span>
           )}
         </div>
-        <select
-          className="rdv-revision-filter"
-          value={filter}
-          onChange={(e) => setFilter(e.target.value as FilterType)}
-        >
-          <option value="all">All Changes</option>
-          <option value="insertions">Insertions ({stats.insertions})</option>
-          <option value="deletions">Deletions ({stats.deletions})</option>
-          <option value="moves">Moves ({stats.moves})</option>
-          <option value="formatting">Formatting ({stats.formatting})</option>
-        </select>
+        <div className="rdv-revision-header__actions">
+          <select
+            className="rdv-revision-filter"
+            aria-label="Filter changes by type"
+            value={filter.type}
+            onChange={(e) => updateFilter({ type: e.target.value as RevisionTypeFilter })}
+          >
+            <option value="all">All Changes</option>
+            <option value="insertions">Insertions ({typeCounts.insertions})</option>
+            <option value="deletions">Deletions ({typeCounts.deletions})</option>
+            <option value="moves">Moves ({typeCounts.moves})</option>
+            <option value="formatting">Formatting ({typeCounts.formatting})</option>
+          </select>
+          <details className="rdv-revision-export">
+            <summary title="Export the changes shown">Export</summary>
+            <div className="rdv-revision-export__menu">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  disabled={filteredRevisions.length === 0}
+                  onClick={(e) => {
+                    e.currentTarget.closest('details')?.removeAttribute('open');
+                    handleExport(format);
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </details>
+        </div>
       </div>
 
-      <div className="rdv-revision-list">
-        {filteredRevisions.map((revision, index) => {
-          const isExpanded = expandedIds.has(index);
-          const needsTruncation = revision.text.length > 150;
-          const formatChanges = isFormatChange(revision) ? getFormatChanges(revision) : [];
+      <div className="rdv-revision-filters">
+        <input
+          type="search"
+          className="rdv-revision-search"
+          placeholder="Search changes"
+          aria-label="Filter changes by text"
+          value={filter.text}
+          onChange={(e) => updateFilter({ text: e.target.value })}
+        />
+        <details
+          className="rdv-revision-authors"
+          onToggle={(e) => setIsAuthorListOpen(e.currentTarget.open)}
+        >
+          <summary>
+            {filter.authors.length === 0
+              ? 'All authors'
+              : filter.authors.length === 1
+                ? filter.authors[0] || 'Unknown'
+                : `${filter.authors.length} authors`}
+          </summary>
+          {isAuthorListOpen && (
+            <div className="rdv-revision-authors__list">
+              {authors.map((author) => (
+                <label key={author} className="rdv-revision-authors__option">
+                  <input
+                    type="checkbox"
+                    checked={filter.authors.includes(author)}
+                    onChange={() => toggleAuthor(author)}
+                  />
+                  {author || 'Unknown'}
+                </label>
+              ))}
+            </div>
+          )}
+        </details>
+        <label className="rdv-revision-date-filter">
+          From
+          <input
+            type="date"
+            value={filter.dateFrom ?? ''}
+            max={filter.dateTo ?? undefined}
+            onChange={(e) => updateFilter({ dateFrom: e.target.value || null })}
+          />
+        </label>
+        <label className="rdv-revision-date-filter">
+          To
+          <input
+            type="date"
+            value={filter.dateTo ?? ''}
+            min={filter.dateFrom ?? undefined}
+            onChange={(e) => updateFilter({ dateTo: e.target.value || null })}
+          />
+        </label>
+        <label className="rdv-revision-view-option">
+          Group
+          <select value={groupBy} onChange={(e) => changeGroupBy(e.target.value as RevisionGroupBy)}>
+            <option value="none">None</option>
+            <option value="author">Author</option>
+            <option value="day">Day</option>
+            <option value="type">Type</option>
+            <option value="page">Page</option>
+          </select>
+        </label>
+        <label className="rdv-revision-view-option">
+          Sort
+          <select value={sortOrder} onChange={(e) => changeSortOrder(e.target.value as RevisionSortOrder)}>
+            <option value="document">Document order</option>
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="author">Author</option>
+          </select>
+        </label>
+        {isFiltered && (
+          <button className="rdv-revision-clear" onClick={() => updateFilter(DEFAULT_REVISION_FILTER)}>
+            Clear filters
+          </button>
+        )}
+      </div>
 
+      <div ref={listRef} className="rdv-revision-list">
+        {filteredRevisions.length === 0 && (
+          <p className="rdv-revision-no-matches">No changes match the filters.</p>
+        )}
+        {groups.map((group) => {
+          if (groupBy === 'none') return group.items.map(renderItem);
+          const isCollapsed = collapsedGroups.has(group.key);
           return (
-            <div
-              key={index}
-              className={`rdv-revision-item ${getRevisionTypeClass(revision)}`}
-            >
-              <div className="rdv-revision-item__header">
-                <span className="rdv-revision-type">
-                  {getRevisionTypeLabel(revision)}
-                </span>
-                {isMove(revision) && revision.moveGroupId !== undefined && (
-                  <span className="rdv-revision-move-id">#{revision.moveGroupId}</span>
-                )}
-                <span className="rdv-revision-author">{revision.author || 'Unknown'}</span>
-                <span className="rdv-revision-date">{formatDate(revision.date)}</span>
-              </div>
-
-              {revision.text && (
-                <div className="rdv-revision-item__content">
-                  <span className="rdv-revision-text">
-                    {isExpanded ? revision.text : truncateText(revision.text)}
-                  </span>
-                  {needsTruncation && (
-                    <button
-                      className="rdv-revision-expand"
-                      onClick={() => toggleExpanded(index)}
-                    >
-                      {isExpanded ? 'Show less' : 'Show more'}
-                    </button>
-                  )}
-                </div>
-              )}
-
-              {formatChanges.length > 0 && (
-                <div className="rdv-revision-item__format-details">
-                  {formatChanges.map((change, i) => (
-                    <div key={i} className="rdv-format-change">
-                      <span className="rdv-format-change__property">{change.property}</span>
-                      <span className="rdv-format-change__values">
-                        {change.oldValue && (
-                          <span className="rdv-format-change__old">{change.oldValue}</span>
-                        )}
-                        {change.oldValue && change.newValue && (
-                          <span className="rdv-format-change__arrow">→</span>
-                        )}
-                        {change.newValue && (
-                          <span className="rdv-format-change__new">{change.newValue}</span>
-                        )}
-                        {!change.oldValue && change.newValue && (
-                          <span className="rdv-format-change__added">(added)</span>
-                        )}
-                        {change.oldValue && !change.newValue && (
-                          <span className="rdv-format-change__removed">(removed)</span>
-                        )}
-                      </span>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
+            <section key={group.key} className="rdv-revision-group">
+              <button
+                className="rdv-revision-group__header"
+                aria-expanded={!isCollapsed}
+                onClick={() => toggleGroup(group.key)}
+              >
+                <span className="rdv-revision-group__chevron">{isCollapsed ? '▸' : '▾'}</span>
+                <span className="rdv-revision-group__label">{group.label}</span>
+                <span className="rdv-revision-group__count">{group.items.length}</span>
+              </button>
+              {!isCollapsed && group.items.map(renderItem)}
+            </section>
           );
         })}
       </div>
@@ -0,0 +1,101 @@
+import type { RefObject } from 'react';
+import type { SearchOptions } from '../types';
+
+interface SearchBoxProps {
+  inputRef?: RefObject<HTMLInputElement | null>;
+  query: string;
+  options: SearchOptions;
+  matchCount: number;
+  activeIndex: number;
+  error: string | null;
+  onSearch: (query: string, options?: Partial<SearchOptions>) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClear: () => void;
+}
+
+const OPTION_TOGGLES: Array<{ key: keyof SearchOptions; label: string; title: string }> = [
+  { key: 'caseSensitive', label: 'Aa', title: 'Match Case' },
+  { key: 'wholeWord', label: 'W', title: 'Whole Word' },
+  { key: 'regex', label: '.*', title: 'Regular Expression' },
+];
+
+export function SearchBox({
+  inputRef,
+  query,
+  options,
+  matchCount,
+  activeIndex,
+  error,
+  onSearch,
+  onNext,
+  onPrevious,
+  onClear,
+}: SearchBoxProps) {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClear();
+      e.currentTarget.blur();
+    }
+  };
+
+  const status = error
+    ? 'Invalid pattern'
+    : !query
+    ? ''
+    : matchCount === 0
+    ? 'No results'
+    : `${activeIndex + 1} of ${matchCount}`;
+
+  return (
+    <div className={`rdv-search ${error ? 'rdv-search--error' : ''}`}>
+      <input
+        ref={inputRef}
+        type="search"
+        className="rdv-search-input"
+        placeholder="Search"
+        aria-label="Search document"
+        value={query}
+        onChange={(e) => onSearch(e.target.value)}
+        onKeyDown={handleKeyDown}
+        title={error ?? undefined}
+      />
+      {status && <span className="rdv-search-status">{status}</span>}
+      {OPTION_TOGGLES.map(({ key, label, title }) => (
+        <button
+          key={key}
+          className={`rdv-search-option ${options[key] ? 'rdv-search-option--active' : ''}`}
+          onClick={() => onSearch(query, { [key]: !options[key] })}
+          title={title}
+          aria-pressed={options[key]}
+        >
+          {label}
+        </button>
+      ))}
+      <button
+        className="rdv-search-nav"
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        title="Previous Match"
+      >
+        ▲
+      </button>
+      <button
+        className="rdv-search-nav"
+        onClick={onNext}
+        disabled={matchCount === 0}
+        title="Next Match"
+      >
+        ▼
+      </button>
+    </div>
+  );
+}
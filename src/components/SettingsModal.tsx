@@ -0,0 +1,165 @@
+import { useId } from 'react';
+import type { AnnotationMode, CommentMode, PanelSide, ViewerSettings } from '../types';
+import { MIN_PAGE_GAP, MAX_PAGE_GAP } from '../utils/settings';
+
+interface SettingsModalProps {
+  settings: ViewerSettings;
+  onChange: (updates: Partial<ViewerSettings>) => void;
+  /** Close, converting the document again if a conversion setting changed */
+  onApply: () => void;
+  onClose: () => void;
+}
+
+export function SettingsModal({ settings, onChange, onApply, onClose }: SettingsModalProps) {
+  // Scopes ids and radio groups so several viewers can share a page
+  const id = useId();
+
+  return (
+    <div className="rdv-settings-overlay" onClick={onClose}>
+      <div className="rdv-settings-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="rdv-settings-header">
+          <h3>Viewer Settings</h3>
+          <button className="rdv-settings-close" onClick={onClose}>×</button>
+        </div>
+        <div className="rdv-settings-body">
+          <div className="rdv-settings-section">
+            <h4>Display Options</h4>
+            <label className="rdv-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={settings.renderFootnotesAndEndnotes}
+                onChange={(e) => onChange({ renderFootnotesAndEndnotes: e.target.checked })}
+              />
+              <span>Show footnotes and endnotes</span>
+            </label>
+            <label className="rdv-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={settings.renderHeadersAndFooters}
+                onChange={(e) => onChange({ renderHeadersAndFooters: e.target.checked })}
+              />
+              <span>Show headers and footers</span>
+            </label>
+          </div>
+
+          <div className="rdv-settings-section">
+            <h4>Page Layout</h4>
+            <label className="rdv-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={settings.showPageNumbers}
+                onChange={(e) => onChange({ showPageNumbers: e.target.checked })}
+              />
+              <span>Show page numbers</span>
+            </label>
+            <div className="rdv-settings-field">
+              <label htmlFor={`${id}-page-gap`}>Page gap (px)</label>
+              <input
+                id={`${id}-page-gap`}
+                type="number"
+                min={MIN_PAGE_GAP}
+                max={MAX_PAGE_GAP}
+                value={settings.pageGap}
+                onChange={(e) => {
+                  const gap = parseInt(e.target.value, 10);
+                  if (!isNaN(gap)) onChange({ pageGap: Math.max(MIN_PAGE_GAP, Math.min(MAX_PAGE_GAP, gap)) });
+                }}
+              />
+            </div>
+            <div className="rdv-settings-field">
+              <label htmlFor={`${id}-background`}>Background color</label>
+              <input
+                id={`${id}-background`}
+                type="color"
+                value={settings.backgroundColor}
+                onChange={(e) => onChange({ backgroundColor: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="rdv-settings-section">
+            <h4>Comment Rendering</h4>
+            <div className="rdv-settings-radio-group">
+              {(['disabled', 'endnote', 'inline', 'margin'] as CommentMode[]).map((mode) => (
+                <label key={mode} className="rdv-settings-radio">
+                  <input
+                    type="radio"
+                    name={`${id}-commentMode`}
+                    checked={settings.commentMode === mode}
+                    onChange={() => onChange({ commentMode: mode })}
+                  />
+                  <span>{mode.charAt(0).toUpperCase() + mode.slice(1)}{mode === 'endnote' ? 's' : ''}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="rdv-settings-section">
+            <h4>Annotation Rendering</h4>
+            <div className="rdv-settings-radio-group">
+              {(['disabled', 'above', 'inline', 'tooltip', 'none'] as AnnotationMode[]).map((mode) => (
+                <label key={mode} className="rdv-settings-radio">
+                  <input
+                    type="radio"
+                    name={`${id}-annotationMode`}
+                    checked={settings.annotationMode === mode}
+                    onChange={() => onChange({ annotationMode: mode })}
+                  />
+                  <span>{mode === 'none' ? 'Highlight Only' : mode.charAt(0).toUpperCase() + mode.slice(1)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="rdv-settings-section">
+            <h4>Tracked Changes</h4>
+            <label className="rdv-settings-checkbox">
+              <input
+                type="checkbox"
+                checked={settings.renderTrackedChanges}
+                onChange={(e) => onChange({ renderTrackedChanges: e.target.checked })}
+              />
+              <span>Show tracked changes</span>
+            </label>
+            {settings.renderTrackedChanges && (
+              <div className="rdv-settings-subsection">
+                <label className="rdv-settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={settings.showDeletedContent}
+                    onChange={(e) => onChange({ showDeletedContent: e.target.checked })}
+                  />
+                  <span>Show deleted content</span>
+                </label>
+                <label className="rdv-settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={settings.renderMoveOperations}
+                    onChange={(e) => onChange({ renderMoveOperations: e.target.checked })}
+                  />
+                  <span>Distinguish move operations</span>
+                </label>
+              </div>
+            )}
+            <div className="rdv-settings-field">
+              <label htmlFor={`${id}-panel-side`}>Changes panel in split view</label>
+              <select
+                id={`${id}-panel-side`}
+                value={settings.revisionPanelSide}
+                onChange={(e) => onChange({ revisionPanelSide: e.target.value as PanelSide })}
+              >
+                <option value="left">Left</option>
+                <option value="right">Right</option>
+              </select>
+            </div>
+          </div>
+        </div>
+        <div className="rdv-settings-footer">
+          <button className="rdv-settings-apply" onClick={onApply}>
+            Apply & Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { ViewerAction } from '../types';
+import { ACTION_LABELS, formatShortcut } from '../utils/keymap';
+
+interface ShortcutsHelpProps {
+  bindings: Record<ViewerAction, string[]>;
+  onClose: () => void;
+}
+
+export function ShortcutsHelp({ bindings, onClose }: ShortcutsHelpProps) {
+  const actions = (Object.keys(ACTION_LABELS) as ViewerAction[]).filter((action) => bindings[action].length > 0);
+
+  return (
+    <div className="rdv-settings-overlay" onClick={onClose}>
+      <div
+        className="rdv-settings-modal rdv-shortcuts"
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="rdv-settings-header">
+          <h3>Keyboard Shortcuts</h3>
+          <button className="rdv-settings-close" onClick={onClose} aria-label="Close">×</button>
+        </div>
+        <div className="rdv-settings-body">
+          <dl className="rdv-shortcuts-list">
+            {actions.map((action) => (
+              <div key={action} className="rdv-shortcuts-row">
+                <dt>{ACTION_LABELS[action]}</dt>
+                <dd>
+                  {bindings[action].map((shortcut) => (
+                    <kbd key={shortcut} className="rdv-kbd">{formatShortcut(shortcut)}</kbd>
+                  ))}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+}
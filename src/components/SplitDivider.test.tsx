@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SplitDivider } from './SplitDivider'
+
+function renderDivider(props: Partial<Parameters<typeof SplitDivider>[0]> = {}) {
+  const onResize = vi.fn()
+  const onResizeEnd = vi.fn()
+  render(
+    <div data-testid="split">
+      <SplitDivider width={35} panelSide="right" onResize={onResize} onResizeEnd={onResizeEnd} {...props} />
+    </div>
+  )
+  return { divider: screen.getByRole('separator'), onResize, onResizeEnd }
+}
+
+describe('SplitDivider', () => {
+  it('resizes the panel with the arrow keys, growing it towards its side', async () => {
+    const user = userEvent.setup()
+    const { divider, onResizeEnd } = renderDivider()
+    expect(divider).toHaveAttribute('aria-valuenow', '35')
+
+    divider.focus()
+    await user.keyboard('{ArrowLeft}')
+    expect(onResizeEnd).toHaveBeenLastCalledWith(40)
+    await user.keyboard('{ArrowRight}')
+    expect(onResizeEnd).toHaveBeenLastCalledWith(30)
+  })
+
+  it('follows the pointer while dragging, within limits', () => {
+    const { divider, onResize, onResizeEnd } = renderDivider({ panelSide: 'left' })
+    screen.getByTestId('split').getBoundingClientRect = () => ({ left: 100, width: 1000 }) as DOMRect
+
+    fireEvent.pointerDown(divider, { button: 0, pointerId: 1 })
+    fireEvent.pointerMove(divider, { clientX: 600 })
+    expect(onResize).toHaveBeenLastCalledWith(50)
+    fireEvent.pointerMove(divider, { clientX: 1050 })
+    expect(onResize).toHaveBeenLastCalledWith(80)
+    fireEvent.pointerUp(divider)
+    expect(onResizeEnd).toHaveBeenCalledWith(80)
+
+    fireEvent.pointerMove(divider, { clientX: 300 })
+    expect(onResize).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,76 @@
+import { useRef } from 'react';
+import type { PanelSide } from '../types';
+import { MIN_REVISION_PANEL_WIDTH, MAX_REVISION_PANEL_WIDTH } from '../utils/settings';
+
+// Percentage points moved per arrow key press
+const KEYBOARD_STEP = 5;
+
+const clampPanelWidth = (width: number) => Math.min(MAX_REVISION_PANEL_WIDTH, Math.max(MIN_REVISION_PANEL_WIDTH, width));
+
+interface SplitDividerProps {
+  /** Panel width, as a percentage of the divider's parent element */
+  width: number;
+  /** Side of the divider the panel is on */
+  panelSide: PanelSide;
+  /** Called with the new width while dragging */
+  onResize: (width: number) => void;
+  /** Called with the final width when a drag ends or an arrow key is pressed */
+  onResizeEnd: (width: number) => void;
+}
+
+export function SplitDivider({ width, panelSide, onResize, onResizeEnd }: SplitDividerProps) {
+  // Width under the pointer while dragging
+  const dragWidthRef = useRef<number | null>(null);
+
+  const widthAt = (element: HTMLElement, clientX: number) => {
+    const rect = element.parentElement!.getBoundingClientRect();
+    if (rect.width === 0) return width;
+    const offset = (clientX - rect.left) / rect.width * 100;
+    return clampPanelWidth(panelSide === 'right' ? 100 - offset : offset);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    dragWidthRef.current = width;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragWidthRef.current === null) return;
+    dragWidthRef.current = widthAt(e.currentTarget, e.clientX);
+    onResize(dragWidthRef.current);
+  };
+
+  const handlePointerUp = () => {
+    if (dragWidthRef.current === null) return;
+    onResizeEnd(dragWidthRef.current);
+    dragWidthRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    // Arrows move the divider, so the panel grows towards the side it is on
+    const towardsPanel = (e.key === 'ArrowLeft') === (panelSide === 'left');
+    onResizeEnd(clampPanelWidth(width + (towardsPanel ? -KEYBOARD_STEP : KEYBOARD_STEP)));
+  };
+
+  return (
+    <div
+      className="rdv-split-divider"
+      role="separator"
+      aria-orientation="vertical"
+      aria-label="Resize changes panel"
+      aria-valuenow={Math.round(width)}
+      aria-valuemin={MIN_REVISION_PANEL_WIDTH}
+      aria-valuemax={MAX_REVISION_PANEL_WIDTH}
+      tabIndex={0}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+    />
+  );
+}
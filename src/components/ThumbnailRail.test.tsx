@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import type { PaginationResult } from 'docxodus/react'
+import { ThumbnailRail } from './ThumbnailRail'
+
+function makePages(count: number): PaginationResult['pages'] {
+  return Array.from({ length: count }, (_, i) => {
+    const element = document.createElement('div')
+    element.dataset.pageNumber = String(i + 1)
+    element.innerHTML = `<p id="para-${i + 1}">Page ${i + 1} text</p>`
+    return {
+      pageNumber: i + 1,
+      sectionIndex: 0,
+      element,
+      dimensions: {
+        pageWidth: 612,
+        pageHeight: 792,
+        contentWidth: 468,
+        contentHeight: 648,
+        marginTop: 72,
+        marginRight: 72,
+        marginBottom: 72,
+        marginLeft: 72,
+        headerHeight: 36,
+        footerHeight: 36,
+      },
+    }
+  })
+}
+
+describe('ThumbnailRail', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('renders a numbered thumbnail per page', () => {
+    render(<ThumbnailRail pages={makePages(3)} currentPage={1} onSelect={vi.fn()} />)
+    expect(screen.getByTitle('Page 1')).toBeInTheDocument()
+    expect(screen.getByTitle('Page 3')).toBeInTheDocument()
+  })
+
+  it('sizes thumbnails from the page dimensions', () => {
+    const { container } = render(
+      <ThumbnailRail pages={makePages(1)} currentPage={1} onSelect={vi.fn()} thumbnailWidth={100} />
+    )
+    const frame = container.querySelector('.rdv-thumbnail__frame') as HTMLElement
+    expect(frame.style.width).toBe('100px')
+    expect(frame.style.height).toBe('129px')
+  })
+
+  it('marks the current page', () => {
+    render(<ThumbnailRail pages={makePages(3)} currentPage={2} onSelect={vi.fn()} />)
+    expect(screen.getByTitle('Page 2')).toHaveAttribute('aria-current', 'page')
+    expect(screen.getByTitle('Page 1')).not.toHaveAttribute('aria-current')
+  })
+
+  it('calls onSelect with the page number when clicked', async () => {
+    const user = userEvent.setup()
+    const onSelect = vi.fn()
+    render(<ThumbnailRail pages={makePages(3)} currentPage={1} onSelect={onSelect} />)
+
+    await user.click(screen.getByTitle('Page 3'))
+
+    expect(onSelect).toHaveBeenCalledWith(3)
+  })
+
+  it('renders previews without duplicating element ids', () => {
+    const { container } = render(<ThumbnailRail pages={makePages(1)} currentPage={1} onSelect={vi.fn()} />)
+    const preview = container.querySelector('.rdv-thumbnail__preview')
+    expect(preview?.textContent).toBe('Page 1 text')
+    expect(preview?.querySelector('[id]')).toBeNull()
+  })
+
+  it('only renders previews once their slot scrolls into view', () => {
+    let observerCallback: IntersectionObserverCallback = () => {}
+    vi.stubGlobal('IntersectionObserver', class {
+      constructor(callback: IntersectionObserverCallback) {
+        observerCallback = callback
+      }
+      observe() {}
+      disconnect() {}
+    })
+
+    const { container } = render(<ThumbnailRail pages={makePages(3)} currentPage={1} onSelect={vi.fn()} />)
+    expect(container.querySelectorAll('.rdv-thumbnail__preview')).toHaveLength(0)
+
+    const secondSlot = container.querySelector('[data-thumbnail-page="2"]') as Element
+    act(() => {
+      observerCallback(
+        [{ target: secondSlot, isIntersecting: true } as unknown as IntersectionObserverEntry],
+        {} as IntersectionObserver
+      )
+    })
+
+    const previews = container.querySelectorAll('.rdv-thumbnail__preview')
+    expect(previews).toHaveLength(1)
+    expect(previews[0].textContent).toBe('Page 2 text')
+  })
+})
@@ -0,0 +1,113 @@
+import { useState, useEffect, useRef } from 'react';
+import type { PaginationResult } from 'docxodus/react';
+
+type PageInfo = PaginationResult['pages'][number];
+
+interface ThumbnailRailProps {
+  pages: PageInfo[];
+  currentPage: number;
+  onSelect: (pageNumber: number) => void;
+  /** Thumbnail width in pixels */
+  thumbnailWidth?: number;
+  /** Element to copy for a page's preview, when `page.element` may be emptied by virtualization */
+  getPageElement?: (page: PageInfo) => HTMLElement;
+}
+
+const POINTS_TO_PIXELS = 96 / 72;
+
+interface ThumbnailPreviewProps {
+  page: PageInfo;
+  width: number;
+  getPageElement?: (page: PageInfo) => HTMLElement;
+}
+
+// Scaled-down copy of a rendered page. Ids are stripped so anchors keep resolving to the real page.
+function ThumbnailPreview({ page, width, getPageElement }: ThumbnailPreviewProps) {
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!preview) return;
+
+    const clone = (getPageElement?.(page) ?? page.element).cloneNode(true) as HTMLElement;
+    clone.removeAttribute('id');
+    clone.querySelectorAll('[id]').forEach((el) => el.removeAttribute('id'));
+    clone.querySelectorAll('a[name]').forEach((el) => el.removeAttribute('name'));
+
+    const sourceWidth = page.element.offsetWidth || page.dimensions.pageWidth * POINTS_TO_PIXELS;
+    clone.style.transform = `scale(${width / sourceWidth})`;
+    clone.style.transformOrigin = 'top left';
+    clone.style.margin = '0';
+    preview.replaceChildren(clone);
+
+    return () => preview.replaceChildren();
+  }, [page, width, getPageElement]);
+
+  return <div ref={previewRef} className="rdv-thumbnail__preview" aria-hidden="true" />;
+}
+
+export function ThumbnailRail({ pages, currentPage, onSelect, thumbnailWidth = 120, getPageElement }: ThumbnailRailProps) {
+  const railRef = useRef<HTMLDivElement>(null);
+  const activeThumbRef = useRef<HTMLButtonElement>(null);
+  // Pages whose slot has scrolled near the viewport; previews are only built for these
+  const [visiblePages, setVisiblePages] = useState<Set<number>>(new Set());
+  const canObserve = typeof IntersectionObserver !== 'undefined';
+
+  useEffect(() => {
+    const rail = railRef.current;
+    if (!rail || !canObserve) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      const revealed = entries
+        .filter((entry) => entry.isIntersecting)
+        .map((entry) => parseInt((entry.target as HTMLElement).dataset.thumbnailPage || '0', 10));
+      if (revealed.length === 0) return;
+      setVisiblePages((prev) => {
+        if (revealed.every((pageNumber) => prev.has(pageNumber))) return prev;
+        const next = new Set(prev);
+        revealed.forEach((pageNumber) => next.add(pageNumber));
+        return next;
+      });
+    }, { root: rail, rootMargin: '200px 0px' });
+
+    rail.querySelectorAll('[data-thumbnail-page]').forEach((slot) => observer.observe(slot));
+    return () => observer.disconnect();
+  }, [pages, canObserve]);
+
+  // Keep the current page's thumbnail in view
+  useEffect(() => {
+    activeThumbRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [currentPage]);
+
+  return (
+    <div ref={railRef} className="rdv-thumbnails" role="list" aria-label="Page thumbnails">
+      {pages.map((page) => {
+        const { pageWidth, pageHeight } = page.dimensions;
+        const height = Math.round(thumbnailWidth * (pageHeight / pageWidth));
+        const isActive = page.pageNumber === currentPage;
+        const isVisible = !canObserve || visiblePages.has(page.pageNumber);
+
+        return (
+          <div key={page.pageNumber} role="listitem" className="rdv-thumbnail-item">
+            <button
+              ref={isActive ? activeThumbRef : undefined}
+              className={`rdv-thumbnail ${isActive ? 'rdv-thumbnail--active' : ''}`}
+              onClick={() => onSelect(page.pageNumber)}
+              title={`Page ${page.pageNumber}`}
+              aria-current={isActive ? 'page' : undefined}
+            >
+              <div
+                className="rdv-thumbnail__frame"
+                data-thumbnail-page={page.pageNumber}
+                style={{ width: `${thumbnailWidth}px`, height: `${height}px` }}
+              >
+                {isVisible && <ThumbnailPreview page={page} width={thumbnailWidth} getPageElement={getPageElement} />}
+              </div>
+            </button>
+            <span className="rdv-thumbnail__number">{page.pageNumber}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
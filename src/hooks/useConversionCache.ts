@@ -0,0 +1,47 @@
+import { useCallback, useMemo } from 'react';
+import type { CachedConversion, ConversionCache, ViewerSettings } from '../types';
+import type { DocumentViewerError } from '../utils/errors';
+import { computeCacheKey, getDefaultConversionCache } from '../utils/conversionCache';
+
+/**
+ * Previous conversions of a file with the same conversion settings, from the cache chosen by
+ * the viewer's `cache` prop. The cache is an optimisation, so failures (e.g. storage disabled
+ * or its quota exceeded) are reported as warnings and lookups that fail count as misses.
+ */
+export function useConversionCache(
+  cache: boolean | ConversionCache,
+  settings: ViewerSettings,
+  reportWarning: (err: unknown, code: DocumentViewerError['code']) => void
+) {
+  const conversionCache = useMemo(
+    () => (cache === true ? getDefaultConversionCache() : cache || null),
+    [cache]
+  );
+
+  // Look up the file with content hash `fileHash`. Resolves to null without a cache, or with
+  // the cache key to store a new conversion under and the entry found there.
+  const read = useCallback(async (fileHash: string | null) => {
+    if (!conversionCache || !fileHash) return null;
+    try {
+      const key = await computeCacheKey(fileHash, settings);
+      return { key, entry: await conversionCache.get(key) };
+    } catch (err) {
+      reportWarning(err, 'CACHE_FAILED');
+      return null;
+    }
+  }, [conversionCache, settings, reportWarning]);
+
+  // Store a conversion once everything it holds is ready
+  const write = useCallback((key: string, entry: Promise<CachedConversion>) => {
+    if (!conversionCache) return;
+    entry
+      .then((value) => conversionCache.set(key, value))
+      .catch((err) => reportWarning(err, 'CACHE_FAILED'));
+  }, [conversionCache, reportWarning]);
+
+  return {
+    isEnabled: conversionCache !== null,
+    read,
+    write,
+  };
+}
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { SearchOptions, SearchResults } from '../types';
+import type { SearchHit } from '../utils/search';
+import type { PageVirtualizer } from '../utils/pageVirtualizer';
+import {
+  ACTIVE_HIT_CLASS,
+  DEFAULT_SEARCH_OPTIONS,
+  buildSearchPattern,
+  clearHighlights,
+  highlightMatches,
+} from '../utils/search';
+import { useLatestRef } from './useLatestRef';
+
+interface SearchState {
+  query: string;
+  options: SearchOptions;
+  matchCount: number;
+  /** Index of the current hit, -1 when there are no hits */
+  activeIndex: number;
+  /** Message for an invalid regular expression */
+  error: string | null;
+}
+
+const INITIAL_STATE: SearchState = {
+  query: '',
+  options: DEFAULT_SEARCH_OPTIONS,
+  matchCount: 0,
+  activeIndex: -1,
+  error: null,
+};
+
+/**
+ * Search state and highlighting for the rendered pages inside `containerRef`.
+ *
+ * Highlights are DOM mutations inside the paginated output, so they are lost whenever
+ * pagination re-runs; call `refresh()` from `onPaginationComplete` to re-apply them.
+ * Pass the viewer's `virtualizer` to also search pages outside its rendered window; their
+ * highlights are applied as they're rendered again. All returned functions are stable.
+ */
+export function useDocumentSearch(
+  containerRef: RefObject<HTMLElement | null>,
+  onSearchResults?: (results: SearchResults) => void,
+  virtualizer?: Pick<PageVirtualizer, 'pages' | 'mountPage' | 'onPageMount'>
+) {
+  const [state, setState] = useState<SearchState>(INITIAL_STATE);
+  const stateRef = useRef(state);
+  const hitsRef = useRef<SearchHit[]>([]);
+  const patternRef = useRef<RegExp | null>(null);
+  const onSearchResultsRef = useLatestRef(onSearchResults);
+
+  const commit = useCallback((next: SearchState) => {
+    stateRef.current = next;
+    setState(next);
+    onSearchResultsRef.current?.({
+      query: next.query,
+      options: next.options,
+      matches: hitsRef.current.map(({ pageNumber, text }) => ({ pageNumber, text })),
+      activeIndex: next.activeIndex,
+    });
+  }, [onSearchResultsRef]);
+
+  const markActive = useCallback((index: number, scroll: boolean) => {
+    // Rendering the hit's page highlights it again, replacing its hits
+    if (scroll && hitsRef.current[index]) {
+      virtualizer?.mountPage(hitsRef.current[index].pageNumber);
+    }
+    const hits = hitsRef.current;
+    hits[stateRef.current.activeIndex]?.elements.forEach((el) => el.classList.remove(ACTIVE_HIT_CLASS));
+    const hit = hits[index];
+    if (!hit) return;
+    hit.elements.forEach((el) => el.classList.add(ACTIVE_HIT_CLASS));
+    if (scroll) {
+      hit.elements[0]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [virtualizer]);
+
+  // A page rendered again by the virtualizer comes back with the highlights it had when it
+  // left, so highlight it afresh and swap its hits for the new marks
+  useEffect(() => virtualizer?.onPageMount((page) => {
+    clearHighlights(page);
+    const pattern = patternRef.current;
+    if (!pattern) return;
+    const pageNumber = parseInt(page.dataset.pageNumber || '0', 10);
+    const hits = hitsRef.current;
+    const start = hits.findIndex((hit) => hit.pageNumber === pageNumber);
+    if (start < 0) return;
+    const count = hits.filter((hit) => hit.pageNumber === pageNumber).length;
+    hits.splice(start, count, ...highlightMatches([page], pattern));
+    hits[stateRef.current.activeIndex]?.elements.forEach((el) => el.classList.add(ACTIVE_HIT_CLASS));
+  }), [virtualizer]);
+
+  const run = useCallback((query: string, options: SearchOptions, targetIndex: number, scroll: boolean) => {
+    const container = containerRef.current;
+    const pages = virtualizer?.pages()
+      ?? Array.from(container?.querySelectorAll<HTMLElement>('[data-page-number]') ?? []);
+    pages.forEach(clearHighlights);
+    hitsRef.current = [];
+
+    let pattern: RegExp | null = null;
+    let error: string | null = null;
+    try {
+      pattern = buildSearchPattern(query, options);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (pattern) {
+      hitsRef.current = highlightMatches(pages, pattern);
+    }
+    patternRef.current = pattern;
+
+    const matchCount = hitsRef.current.length;
+    const activeIndex = matchCount > 0 ? Math.min(Math.max(targetIndex, 0), matchCount - 1) : -1;
+    // Previous active hit's marks were removed with the highlights
+    stateRef.current = { ...stateRef.current, activeIndex: -1 };
+    markActive(activeIndex, scroll);
+    commit({ query, options, matchCount, activeIndex, error });
+    return matchCount;
+  }, [containerRef, virtualizer, markActive, commit]);
+
+  /** Search for `query`, optionally changing options. Returns the number of hits. */
+  const search = useCallback((query: string, options?: Partial<SearchOptions>) => {
+    return run(query, { ...stateRef.current.options, ...options }, 0, true);
+  }, [run]);
+
+  /** Re-apply the current search after the pages were re-rendered */
+  const refresh = useCallback(() => {
+    const { query, options, activeIndex } = stateRef.current;
+    if (query) {
+      run(query, options, activeIndex, false);
+    }
+  }, [run]);
+
+  const goToHit = useCallback((offset: number) => {
+    const current = stateRef.current;
+    if (current.matchCount === 0) return;
+    const index = (current.activeIndex + offset + current.matchCount) % current.matchCount;
+    markActive(index, true);
+    commit({ ...current, activeIndex: index });
+  }, [markActive, commit]);
+
+  const findNext = useCallback(() => goToHit(1), [goToHit]);
+  const findPrevious = useCallback(() => goToHit(-1), [goToHit]);
+  const clearSearch = useCallback(() => {
+    run('', stateRef.current.options, 0, false);
+  }, [run]);
+
+  return {
+    ...state,
+    search,
+    refresh,
+    findNext,
+    findPrevious,
+    clearSearch,
+  };
+}
@@ -0,0 +1,79 @@
+import { createContext, useContext, useEffect, useState, useSyncExternalStore } from 'react';
+import { createDocxodusEngine, findSharedDocxodusEngine } from '../utils/docxodusEngine';
+import type { DocxodusEngine } from '../utils/docxodusEngine';
+import type { EngineMode } from '../types';
+
+/** Engine provided by the nearest DocxodusProvider, or null outside one */
+export const DocxodusContext = createContext<DocxodusEngine | null>(null);
+
+export interface DocxodusEngineState {
+  /** The engine, once it has loaded */
+  engine: DocxodusEngine | null;
+  isReady: boolean;
+  isLoading: boolean;
+  error: Error | null;
+  /** Where conversions run, once the engine has loaded */
+  mode: EngineMode | null;
+  /** Start a fresh engine after a load failure (not possible for a provider's engine) */
+  reload: () => void;
+}
+
+const noopSubscribe = () => () => {};
+
+interface SettledEngine {
+  // Identifies the configuration the engine was started for, so a stale engine is never returned
+  source: DocxodusEngine | string;
+  engine: DocxodusEngine;
+  error: Error | null;
+}
+
+/**
+ * The engine a viewer should use: the provider's shared engine, a preloaded engine with
+ * the same options, or otherwise one owned by this component and disposed on unmount.
+ */
+export function useDocxodusEngine(useWorker: boolean, wasmBasePath?: string): DocxodusEngineState {
+  const sharedEngine = useContext(DocxodusContext);
+  const [attempt, setAttempt] = useState(0);
+  const source = sharedEngine ?? `${useWorker}:${wasmBasePath ?? ''}:${attempt}`;
+  const [settled, setSettled] = useState<SettledEngine | null>(null);
+
+  useEffect(() => {
+    const existing = sharedEngine ?? findSharedDocxodusEngine({ useWorker, wasmBasePath });
+    const engine = existing ?? createDocxodusEngine({ useWorker, wasmBasePath });
+
+    let active = true;
+    engine.ready.then(
+      () => {
+        if (active) setSettled({ source, engine, error: null });
+      },
+      (err) => {
+        if (active) setSettled({ source, engine, error: err instanceof Error ? err : new Error(String(err)) });
+      }
+    );
+    return () => {
+      active = false;
+      if (!existing) engine.dispose();
+    };
+  }, [sharedEngine, source, useWorker, wasmBasePath]);
+
+  // An engine that is already warm (provided or preloaded) is usable from the first render
+  const existing = sharedEngine ?? findSharedDocxodusEngine({ useWorker, wasmBasePath });
+  const current = settled?.source === source ? settled : null;
+  const engine = existing?.isReady()
+    ? existing
+    : current && !current.error ? current.engine : null;
+
+  const mode = useSyncExternalStore(
+    engine ? engine.subscribe : noopSubscribe,
+    () => engine?.mode() ?? null
+  );
+
+  return {
+    engine,
+    isReady: engine !== null,
+    isLoading: engine === null && !current?.error,
+    error: engine ? null : current?.error ?? null,
+    mode,
+    reload: () => setAttempt((n) => n + 1),
+  };
+}
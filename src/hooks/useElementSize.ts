@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import type { RefObject } from 'react';
+import type { ViewportSize } from '../utils/zoom';
+
+/**
+ * Track the inner (client) size of the element in `ref` with a ResizeObserver.
+ * Pass `enabled = false` to stop observing, e.g. while the element is unmounted.
+ * Returns null until the first measurement, or when ResizeObserver is unavailable.
+ */
+export function useElementSize(ref: RefObject<HTMLElement | null>, enabled = true): ViewportSize | null {
+  const [size, setSize] = useState<ViewportSize | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !enabled || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => {
+      const width = element.clientWidth;
+      const height = element.clientHeight;
+      setSize((prev) => (prev && prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, enabled]);
+
+  return size;
+}
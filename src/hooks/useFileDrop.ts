@@ -0,0 +1,68 @@
+import { useState, useRef } from 'react';
+import type { ClipboardEvent, DragEvent } from 'react';
+
+const isFileDrag = (e: DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+/**
+ * Open files dropped onto an element or pasted from the file manager with `onFile`.
+ *
+ * Spread `dropTargetProps` on the drop target and pass `handlePaste` to an element that
+ * receives paste events. `isDraggingFile` is true while a file is dragged over the target.
+ * Files arriving while `isBusy` are refused.
+ */
+export function useFileDrop(onFile: (file: File) => void, isBusy: boolean) {
+  // Enter/leave fire for every child element, so track the nesting depth to know when
+  // the drag has really left.
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const dragDepthRef = useRef(0);
+
+  const handleDragEnter = (e: DragEvent<HTMLElement>) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFile(true);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLElement>) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isBusy ? 'none' : 'copy';
+  };
+
+  const handleDragLeave = (e: DragEvent<HTMLElement>) => {
+    if (!isFileDrag(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDraggingFile(false);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLElement>) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFile(false);
+    const droppedFile = e.dataTransfer.files[0];
+    if (droppedFile && !isBusy) {
+      onFile(droppedFile);
+    }
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLElement>) => {
+    const pastedFile = e.clipboardData.files[0];
+    if (!pastedFile || isBusy) return;
+    e.preventDefault();
+    onFile(pastedFile);
+  };
+
+  return {
+    isDraggingFile,
+    dropTargetProps: {
+      onDragEnter: handleDragEnter,
+      onDragOver: handleDragOver,
+      onDragLeave: handleDragLeave,
+      onDrop: handleDrop,
+    },
+    handlePaste,
+  };
+}
@@ -0,0 +1,128 @@
+import { useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { clampZoom, MAX_ZOOM, MIN_ZOOM } from '../utils/zoom';
+import { useLatestRef } from './useLatestRef';
+
+/** Called with the new (unrounded) zoom and the viewport point to zoom around */
+export type GestureZoomHandler = (zoom: number, clientX: number, clientY: number) => void;
+
+// Safari's non-standard trackpad pinch events
+interface GestureEvent extends UIEvent {
+  scale: number;
+  clientX: number;
+  clientY: number;
+}
+
+// How strongly one wheel delta unit zooms; trackpad pinches arrive as small ctrl+wheel deltas
+const WHEEL_ZOOM_SENSITIVITY = 0.01;
+
+function touchDistance(touches: TouchList): number {
+  const [a, b] = [touches[0], touches[1]];
+  return Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+}
+
+/**
+ * Ctrl/Cmd+wheel, trackpad pinch and two-finger touch pinch zoom on the element in `ref`.
+ *
+ * Listeners are non-passive so the browser's own page zoom is suppressed. Gesture input
+ * arrives far faster than a document can repaginate, so changes are accumulated and
+ * delivered to `onZoom` at most once per animation frame, scaling the current `zoom`.
+ */
+export function useGestureZoom(
+  ref: RefObject<HTMLElement | null>,
+  zoom: number,
+  onZoom: GestureZoomHandler,
+  enabled = true
+): void {
+  const zoomRef = useLatestRef(zoom);
+  const onZoomRef = useLatestRef(onZoom);
+  // The zoom a gesture has reached before rounding. Slow pinches move in steps that round
+  // back to the zoom shown, so they're added up here until they change it.
+  const gestureZoomRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !enabled) return;
+
+    let pendingFactor = 1;
+    let pendingPoint = { x: 0, y: 0 };
+    let frame: number | null = null;
+
+    const queueZoom = (factor: number, clientX: number, clientY: number) => {
+      pendingFactor *= factor;
+      pendingPoint = { x: clientX, y: clientY };
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        const accumulated = pendingFactor;
+        pendingFactor = 1;
+        // Zoom changed some other way since the last gesture: start again from it
+        const gestureZoom = gestureZoomRef.current;
+        const from = gestureZoom !== null && clampZoom(gestureZoom) === zoomRef.current ? gestureZoom : zoomRef.current;
+        const next = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, from * accumulated));
+        gestureZoomRef.current = next;
+        onZoomRef.current(next, pendingPoint.x, pendingPoint.y);
+      });
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      // Line/page deltas are coarse steps; normalise them to roughly pixel units
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? e.deltaY : e.deltaY * 16;
+      queueZoom(Math.exp(-delta * WHEEL_ZOOM_SENSITIVITY), e.clientX, e.clientY);
+    };
+
+    let lastTouchDistance = 0;
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) {
+        lastTouchDistance = touchDistance(e.touches);
+      }
+    };
+    const handleTouchMove = (e: TouchEvent) => {
+      if (e.touches.length !== 2 || lastTouchDistance === 0) return;
+      e.preventDefault();
+      const distance = touchDistance(e.touches);
+      const centerX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+      const centerY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
+      queueZoom(distance / lastTouchDistance, centerX, centerY);
+      lastTouchDistance = distance;
+    };
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) {
+        lastTouchDistance = 0;
+      }
+    };
+
+    let lastGestureScale = 1;
+    const handleGestureStart = (e: Event) => {
+      e.preventDefault();
+      lastGestureScale = 1;
+    };
+    const handleGestureChange = (e: Event) => {
+      e.preventDefault();
+      const gesture = e as GestureEvent;
+      queueZoom(gesture.scale / lastGestureScale, gesture.clientX, gesture.clientY);
+      lastGestureScale = gesture.scale;
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    element.addEventListener('touchstart', handleTouchStart, { passive: true });
+    element.addEventListener('touchmove', handleTouchMove, { passive: false });
+    element.addEventListener('touchend', handleTouchEnd);
+    element.addEventListener('touchcancel', handleTouchEnd);
+    element.addEventListener('gesturestart', handleGestureStart);
+    element.addEventListener('gesturechange', handleGestureChange);
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      element.removeEventListener('wheel', handleWheel);
+      element.removeEventListener('touchstart', handleTouchStart);
+      element.removeEventListener('touchmove', handleTouchMove);
+      element.removeEventListener('touchend', handleTouchEnd);
+      element.removeEventListener('touchcancel', handleTouchEnd);
+      element.removeEventListener('gesturestart', handleGestureStart);
+      element.removeEventListener('gesturechange', handleGestureChange);
+    };
+  }, [ref, enabled, zoomRef, onZoomRef]);
+}
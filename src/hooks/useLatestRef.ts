@@ -0,0 +1,13 @@
+import { useLayoutEffect, useRef } from 'react';
+
+/**
+ * Keep a ref pointing at the latest value, so long-lived effects and listeners
+ * can call the current callback without re-subscribing on every render.
+ */
+export function useLatestRef<T>(value: T) {
+  const ref = useRef(value);
+  useLayoutEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+}
@@ -0,0 +1,85 @@
+import { useLayoutEffect, useMemo, useState } from 'react';
+import type { RefObject } from 'react';
+import { createPageContentStore, PAGE_PLACEHOLDER_CLASS, readPageBox } from '../utils/pageVirtualizer';
+import type { PageVirtualizer } from '../utils/pageVirtualizer';
+
+// Pages within this distance of the viewport (one viewport height either side) stay rendered
+const MOUNT_MARGIN = '100% 0px';
+
+/**
+ * Keep only the pages near the viewport of the scrolling element in `containerRef` in the
+ * DOM. Pages further away are swapped for placeholders sized from their dimensions and
+ * rendered again from their HTML as they come back into range. Pagination itself still
+ * lays out every page once, but the pages it adds away from the viewport are swapped out
+ * before they're painted. When disabled (or without IntersectionObserver) every page
+ * stays rendered and the returned virtualizer simply reads the rendered pages.
+ */
+export function usePageVirtualization(
+  containerRef: RefObject<HTMLElement | null>,
+  enabled: boolean
+): PageVirtualizer {
+  const [store] = useState(createPageContentStore);
+  const virtualizer = useMemo<PageVirtualizer>(() => ({
+    pages: () => store.pages(containerRef.current),
+    page: store.page,
+    mountPage: (pageNumber) => store.mountPage(containerRef.current, pageNumber),
+    querySelector: (selector) => store.querySelector(containerRef.current, selector),
+    onPageMount: store.onPageMount,
+  }), [store, containerRef]);
+
+  // A layout effect, so the observers are in place before the pages' own effects paginate
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container || typeof IntersectionObserver === 'undefined') return;
+
+    const intersectionObserver = new IntersectionObserver((entries) => {
+      entries.forEach((entry) => {
+        const target = entry.target as HTMLElement;
+        // A page box or placeholder that was just swapped out reports leaving as well
+        if (!target.isConnected) return;
+        if (entry.isIntersecting) {
+          store.mountPage(container, parseInt(target.dataset.pageNumber || '0', 10));
+        } else {
+          const placeholder = store.unmountPage(readPageBox(target));
+          if (placeholder) intersectionObserver.observe(placeholder);
+        }
+      });
+    }, { root: container, rootMargin: MOUNT_MARGIN });
+
+    // Pagination reports its pages only after the browser has painted them, so take the
+    // page boxes as they're added: a mutation observer runs before the next paint. Pages
+    // away from the viewport are swapped out right away.
+    const windowed = new WeakSet<Element>();
+    const windowAddedPages = () => {
+      const added = Array.from(
+        container.querySelectorAll<HTMLElement>(`[data-page-number]:not(.${PAGE_PLACEHOLDER_CLASS})`)
+      ).filter((box) => !windowed.has(box));
+      if (added.length === 0) return;
+
+      // Measure every page before swapping any out, so layout is only computed once
+      const viewport = container.getBoundingClientRect();
+      const margin = container.clientHeight;
+      const isAway = added.map((box) => {
+        const { top, bottom } = box.getBoundingClientRect();
+        return bottom < viewport.top - margin || top > viewport.bottom + margin;
+      });
+      added.forEach((box, i) => {
+        windowed.add(box);
+        intersectionObserver.observe(box);
+        const placeholder = isAway[i] ? store.unmountPage(readPageBox(box)) : null;
+        if (placeholder) intersectionObserver.observe(placeholder);
+      });
+    };
+    const mutationObserver = new MutationObserver(windowAddedPages);
+    mutationObserver.observe(container, { childList: true, subtree: true });
+    windowAddedPages();
+
+    return () => {
+      mutationObserver.disconnect();
+      intersectionObserver.disconnect();
+      store.mountAll(container);
+    };
+  }, [containerRef, enabled, store]);
+
+  return virtualizer;
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DocumentSource, LoadProgress } from '../types';
+import { toDocumentViewerError } from '../utils/errors';
+import type { DocumentViewerError } from '../utils/errors';
+import { isSameSource, loadDocumentSource } from '../utils/loadDocumentSource';
+import { useLatestRef } from './useLatestRef';
+
+interface SourceDownloadOptions {
+  /** Leave `source` alone (e.g. while the viewer is given a file instead) */
+  disabled: boolean;
+  /** Cancels the download from outside the viewer */
+  signal?: AbortSignal;
+  /** A download is starting */
+  onStart: () => void;
+  onProgress?: (progress: LoadProgress) => void;
+  onLoad: (file: File) => void;
+  onError: (error: DocumentViewerError) => void;
+}
+
+/**
+ * Load `source` (URL, bytes or Blob) into a File whenever it changes.
+ *
+ * `progress` is null unless a download is in flight. `cancel` stops it, like aborting
+ * `signal` does; cancelled downloads aren't errors. `retry` downloads the same source again.
+ * Callbacks are read through refs so re-renders don't restart the download.
+ */
+export function useSourceDownload(
+  source: DocumentSource | null | undefined,
+  { disabled, signal, onStart, onProgress, onLoad, onError }: SourceDownloadOptions
+) {
+  // Bumped by retry to download the same source again
+  const [attempt, setAttempt] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // The download to run, replaced when `source` asks for another document (a `{ url, headers }`
+  // object created on every render doesn't) or the other inputs change. A new download shows
+  // as started from the render that starts it.
+  const startProgress = source && !disabled && !signal?.aborted ? { loaded: 0, total: null } : null;
+  const [progress, setProgress] = useState<LoadProgress | null>(startProgress);
+  const [request, setRequest] = useState({ source, disabled, signal, attempt });
+  if (
+    !isSameSource(request.source, source) ||
+    request.disabled !== disabled ||
+    request.signal !== signal ||
+    request.attempt !== attempt
+  ) {
+    setRequest({ source, disabled, signal, attempt });
+    setProgress(startProgress);
+  }
+
+  const onStartRef = useLatestRef(onStart);
+  const onProgressRef = useLatestRef(onProgress);
+  const onLoadRef = useLatestRef(onLoad);
+  const onErrorRef = useLatestRef(onError);
+
+  useEffect(() => {
+    const { source, disabled, signal } = request;
+    if (!source || disabled || signal?.aborted) return;
+
+    let active = true;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const handleExternalAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', handleExternalAbort);
+    // Leave the downloading state as soon as the download is cancelled
+    controller.signal.addEventListener('abort', () => {
+      if (active) {
+        setProgress(null);
+        controllerRef.current = null;
+      }
+    });
+
+    onStartRef.current();
+
+    loadDocumentSource(source, {
+      signal: controller.signal,
+      onProgress: (next) => {
+        if (!active) return;
+        setProgress(next);
+        onProgressRef.current?.(next);
+      },
+    })
+      .then((loadedFile) => {
+        if (active && !controller.signal.aborted) {
+          onLoadRef.current(loadedFile);
+        }
+      })
+      .catch((err) => {
+        // Aborts are user-initiated, not errors
+        if (!active || controller.signal.aborted) return;
+        onErrorRef.current(toDocumentViewerError(err, 'DOWNLOAD_FAILED'));
+      })
+      .finally(() => {
+        if (active) {
+          setProgress(null);
+          controllerRef.current = null;
+        }
+      });
+
+    return () => {
+      active = false;
+      signal?.removeEventListener('abort', handleExternalAbort);
+      controller.abort();
+    };
+  }, [request, onStartRef, onProgressRef, onLoadRef, onErrorRef]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const retry = useCallback(() => {
+    setAttempt((current) => current + 1);
+  }, []);
+
+  return { progress, cancel, retry };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { UrlHashAdapter } from '../types';
+import { createWindowHashAdapter, formatViewerHash, parseViewerHash } from '../utils/urlHash';
+import type { ViewerHashState } from '../utils/urlHash';
+import { useLatestRef } from './useLatestRef';
+
+// Quiet period before the URL hash follows page and zoom changes (browsers rate-limit history updates)
+const HASH_UPDATE_DELAY = 250;
+
+/**
+ * Apply a hash's state to the viewer. Returns the part that has to wait for the pages to be
+ * rendered (or rendered again at a new zoom), or null once everything is applied.
+ */
+type ApplyHashState = (state: ViewerHashState, pagesReady?: boolean) => ViewerHashState | null;
+
+/**
+ * Sync viewer state with the URL hash through `syncUrlHash` (true for `window.location`).
+ *
+ * The hash the viewer opens with and hashes navigated to later (back/forward, edited links)
+ * are passed to `apply`; whatever waits for the pages is kept until `applyPending` is called
+ * after the next pagination. Once nothing is waiting and the viewer `isReady`, `state` is
+ * written back to the hash. Hashes the viewer wrote itself aren't applied again.
+ */
+export function useUrlHashSync(
+  syncUrlHash: boolean | UrlHashAdapter,
+  state: ViewerHashState,
+  isReady: boolean,
+  apply: ApplyHashState
+) {
+  const hashAdapter = useMemo<UrlHashAdapter | null>(
+    () => (syncUrlHash === true ? createWindowHashAdapter() : syncUrlHash || null),
+    [syncUrlHash]
+  );
+  // State from a link waiting for the pages it refers to, and the last hash the viewer wrote
+  const pendingRef = useRef<ViewerHashState | null>(null);
+  const writtenHashRef = useRef<string | null>(null);
+  const applyRef = useLatestRef(apply);
+
+  const applyHash = useCallback((hashState: ViewerHashState, pagesReady?: boolean) => {
+    pendingRef.current = applyRef.current(hashState, pagesReady);
+  }, [applyRef]);
+
+  // Apply the state waiting for the pages, now that they're rendered
+  const applyPending = useCallback(() => {
+    if (pendingRef.current) {
+      applyHash(pendingRef.current, true);
+    }
+  }, [applyHash]);
+
+  useEffect(() => {
+    if (!hashAdapter) return;
+    const initial = parseViewerHash(hashAdapter.getHash());
+    if (Object.keys(initial).length > 0) {
+      applyHash(initial);
+    }
+    return hashAdapter.subscribe(() => {
+      const hash = hashAdapter.getHash();
+      if (hash !== writtenHashRef.current) {
+        applyHash(parseViewerHash(hash));
+      }
+    });
+  }, [hashAdapter, applyHash]);
+
+  const { page, zoom, view, search, bookmark } = state;
+  useEffect(() => {
+    if (!hashAdapter || !isReady || pendingRef.current) return;
+    const timer = setTimeout(() => {
+      const currentHash = hashAdapter.getHash();
+      const nextHash = formatViewerHash({ page, zoom, view, search, bookmark }, currentHash);
+      if (nextHash !== currentHash) {
+        writtenHashRef.current = nextHash;
+        hashAdapter.setHash(nextHash);
+      }
+    }, HASH_UPDATE_DELAY);
+    return () => clearTimeout(timer);
+  }, [hashAdapter, isReady, page, zoom, view, search, bookmark]);
+
+  return { applyPending };
+}
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import type { KeyboardEvent } from 'react';
+import type { KeyBindings, ViewerAction } from '../types';
+import { resolveKeyBindings, findAction, isEditableTarget } from '../utils/keymap';
+
+/** What a shortcut does, and whether it applies in the viewer's current state */
+type ShortcutActions = Record<ViewerAction, { enabled: boolean; run: () => void }>;
+
+/**
+ * Keyboard shortcuts for the viewer root: the default bindings with `overrides` applied, and
+ * a keydown handler running the enabled action bound to a key. Fields keep their own keys;
+ * only shortcuts with a modifier, and Escape to close a dialog, reach through them.
+ */
+export function useViewerKeymap(overrides: KeyBindings | undefined, actions: ShortcutActions) {
+  const keyBindings = useMemo(() => resolveKeyBindings(overrides), [overrides]);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    const action = findAction(e, keyBindings);
+    if (!action) return;
+    const hasModifier = e.ctrlKey || e.metaKey || e.altKey;
+    if (isEditableTarget(e.target) && !hasModifier && action !== 'closeDialog') return;
+    const { enabled, run } = actions[action];
+    if (!enabled) return;
+    e.preventDefault();
+    run();
+  };
+
+  return { keyBindings, handleKeyDown };
+}
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { RefObject } from 'react';
+import type { PersistenceStorage, ViewerSettings } from '../types';
+import type { DocumentViewerError } from '../utils/errors';
+import { createViewerPersistence, getDefaultPersistenceStorage } from '../utils/persistence';
+import { captureScrollAnchor } from '../utils/scrollAnchor';
+import type { ScrollAnchor } from '../utils/scrollAnchor';
+
+// Quiet period after scrolling before the reading position is saved
+const POSITION_SAVE_DELAY = 300;
+
+interface ViewerPersistenceOptions {
+  persistKey?: string;
+  /** Default: localStorage */
+  persistStorage?: PersistenceStorage;
+  /** Settings that stored settings are applied over */
+  defaults: ViewerSettings;
+  /** Scrolling element holding the pages, whose position is saved */
+  containerRef: RefObject<HTMLElement | null>;
+  /** Whether the pages are shown in `containerRef` */
+  isShowingDocument: boolean;
+  reportWarning: (err: unknown, code: DocumentViewerError['code']) => void;
+}
+
+/**
+ * Settings and per-document reading positions saved across sessions under `persistKey`.
+ *
+ * `settings` are the viewer's own (uncontrolled) settings, starting from the stored ones and
+ * loaded again when the key or storage changes; `saveSettings` updates and stores them.
+ * `trackDocument` starts saving the reading position of the document with a content hash,
+ * and returns where the reader left it. Storage failures are reported as warnings.
+ */
+export function useViewerPersistence({
+  persistKey,
+  persistStorage,
+  defaults,
+  containerRef,
+  isShowingDocument,
+  reportWarning,
+}: ViewerPersistenceOptions) {
+  const persistence = useMemo(() => {
+    const storage = persistStorage ?? getDefaultPersistenceStorage();
+    return persistKey && storage ? createViewerPersistence(persistKey, storage) : null;
+  }, [persistKey, persistStorage]);
+
+  const [settings, setSettings] = useState<ViewerSettings>(
+    () => ({ ...defaults, ...persistence?.loadSettings() })
+  );
+  // Load the stored settings again when the viewer is given another key (or storage)
+  const [settingsPersistence, setSettingsPersistence] = useState(persistence);
+  if (persistence !== settingsPersistence) {
+    setSettingsPersistence(persistence);
+    if (persistence) {
+      setSettings({ ...defaults, ...persistence.loadSettings() });
+    }
+  }
+
+  const saveSettings = useCallback((next: ViewerSettings) => {
+    setSettings(next);
+    try {
+      persistence?.saveSettings(next);
+    } catch (err) {
+      reportWarning(err, 'PERSISTENCE_FAILED');
+    }
+  }, [persistence, reportWarning]);
+
+  // Hash of the document being shown, identifying it for its saved reading position
+  const [documentHash, setDocumentHash] = useState<string | null>(null);
+
+  // Pass null when the document closes or can't be identified
+  const trackDocument = useCallback((fileHash: string | null): ScrollAnchor | null => {
+    setDocumentHash(persistence ? fileHash : null);
+    const saved = persistence && fileHash ? persistence.loadPosition(fileHash) : null;
+    return saved && { pageNumber: saved.pageNumber, pageX: 0, pageY: saved.offset, viewportX: 0, viewportY: 0 };
+  }, [persistence]);
+
+  // Save the reading position shortly after scrolling stops, and when the document closes
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!persistence || !documentHash || !container || !isShowingDocument) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const savePosition = () => {
+      timer = null;
+      const rect = container.getBoundingClientRect();
+      const anchor = captureScrollAnchor(container, rect.left + rect.width / 2, rect.top);
+      if (!anchor) return;
+      try {
+        persistence.savePosition(documentHash, {
+          pageNumber: anchor.pageNumber,
+          offset: Math.min(1, Math.max(0, anchor.pageY)),
+        });
+      } catch (err) {
+        reportWarning(err, 'PERSISTENCE_FAILED');
+      }
+    };
+    const handleScroll = () => {
+      if (timer !== null) clearTimeout(timer);
+      timer = setTimeout(savePosition, POSITION_SAVE_DELAY);
+    };
+
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      container.removeEventListener('scroll', handleScroll);
+      if (timer !== null) {
+        clearTimeout(timer);
+        savePosition();
+      }
+    };
+  }, [containerRef, persistence, documentHash, isShowingDocument, reportWarning]);
+
+  return {
+    isEnabled: persistence !== null,
+    settings,
+    saveSettings,
+    trackDocument,
+  };
+}
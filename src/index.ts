@@ -8,17 +8,61 @@ import './styles/DocumentViewer.css';
 
 // Main component
 export { DocumentViewer } from './DocumentViewer';
+export { DocxodusProvider } from './DocxodusProvider';
+export type { DocxodusProviderProps } from './DocxodusProvider';
+export { preloadDocxodus } from './utils/docxodusEngine';
+export type { DocxodusEngineOptions } from './utils/docxodusEngine';
 
 // Types
 export type {
   DocumentViewerProps,
+  DocumentViewerHandle,
   ViewerSettings,
   CommentMode,
   AnnotationMode,
   ViewMode,
+  DocumentSource,
+  DocumentUrlSource,
+  LoadProgress,
+  SearchOptions,
+  SearchMatch,
+  SearchResults,
+  OutlineItem,
+  SidebarMode,
+  ZoomMode,
+  PanelSide,
+  RevisionFilter,
+  RevisionGroupBy,
+  RevisionSortOrder,
+  RevisionTypeFilter,
+  RevisionExportFormat,
+  EngineMode,
+  ViewerAction,
+  KeyBindings,
+  PrintOptions,
+  ConversionCache,
+  CachedConversion,
+  ConversionInfo,
+  ConversionProgress,
+  PersistenceStorage,
+  ReadingPosition,
+  UrlHashAdapter,
+  DocumentMetrics,
+  ErrorActions,
 } from './types';
 
-export { DEFAULT_SETTINGS } from './types';
+export { DEFAULT_SETTINGS, DEFAULT_REVISION_FILTER } from './types';
+export { DEFAULT_KEY_BINDINGS } from './utils/keymap';
+export { DocumentViewerError, isRetryableError } from './utils/errors';
+export type { DocumentViewerErrorCode } from './utils/errors';
+export { DocumentValidationError } from './utils/validateDocumentFile';
+export type { DocumentValidationReason } from './utils/validateDocumentFile';
+export { createMemoryConversionCache, createIndexedDbConversionCache } from './utils/conversionCache';
+export type { ConversionCacheLimits, IndexedDbConversionCacheOptions } from './utils/conversionCache';
+export { parseViewerHash, formatViewerHash, createWindowHashAdapter } from './utils/urlHash';
+export type { ViewerHashState } from './utils/urlHash';
+export { exportRevisions, downloadRevisions } from './utils/revisionExport';
+export type { RevisionExportOptions } from './utils/revisionExport';
 
 // Re-export useful types from docxodus for convenience
 export type { PaginationResult, Revision } from 'docxodus/react';
@@ -0,0 +1,62 @@
+import { crc32 } from '../utils/zip'
+
+/**
+ * Build a minimal (stored, uncompressed) ZIP archive. Entries given by name only are empty,
+ * for tests where only the structure matters.
+ */
+export function createZipBytes(entries: string[] | Record<string, string>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const files = Array.isArray(entries) ? entries.map((name) => [name, '']) : Object.entries(entries)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const [entryName, text] of files) {
+    const name = encoder.encode(entryName)
+    const content = encoder.encode(text)
+    const checksum = crc32(content)
+
+    const local = new DataView(new ArrayBuffer(30 + name.length))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint32(14, checksum, true)
+    local.setUint32(18, content.length, true)
+    local.setUint32(22, content.length, true)
+    local.setUint16(26, name.length, true)
+    new Uint8Array(local.buffer).set(name, 30)
+    localParts.push(new Uint8Array(local.buffer), content)
+
+    const central = new DataView(new ArrayBuffer(46 + name.length))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint32(16, checksum, true)
+    central.setUint32(20, content.length, true)
+    central.setUint32(24, content.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+    new Uint8Array(central.buffer).set(name, 46)
+    centralParts.push(new Uint8Array(central.buffer))
+
+    offset += local.byteLength + content.length
+  }
+
+  const directorySize = centralParts.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+  const bytes = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    bytes.set(part, position)
+    position += part.length
+  }
+  return bytes
+}
+
+/** A File that passes document validation */
+export function createDocxFile(name = 'document.docx'): File {
+  return new File([createZipBytes(['[Content_Types].xml', 'word/document.xml'])], name)
+}
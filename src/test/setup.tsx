@@ -34,6 +34,9 @@ vi.mock('docxodus', () => ({
   isDeletion: (rev: { revisionType: string }) => rev.revisionType === 'Deleted',
   isMove: (rev: { revisionType: string }) => rev.revisionType === 'Moved',
   isFormatChange: (rev: { revisionType: string }) => rev.revisionType === 'FormatChanged',
+  initialize: vi.fn().mockResolvedValue(undefined),
+  convertDocxToHtml: vi.fn().mockResolvedValue('<div>Mock HTML</div>'),
+  getRevisions: vi.fn().mockResolvedValue([]),
   getDocumentMetadata: vi.fn().mockResolvedValue({
     sections: [{ pageWidthPt: 612, pageHeightPt: 792 }],
     totalParagraphs: 10,
@@ -47,16 +50,9 @@ vi.mock('docxodus', () => ({
 }))
 
 vi.mock('docxodus/react', () => ({
-  useDocxodus: () => ({
-    isReady: true,
-    isLoading: false,
-    error: null,
-    convertToHtml: vi.fn().mockResolvedValue('<div>Mock HTML</div>'),
-    getRevisions: vi.fn().mockResolvedValue([]),
-  }),
-  PaginatedDocument: ({ html }: { html: string }) => (
+  PaginatedDocument: vi.fn(({ html }: { html: string }) => (
     <div data-testid="paginated-document">{html}</div>
-  ),
+  )),
 }))
 
 vi.mock('docxodus/worker', () => ({
@@ -2,15 +2,246 @@
  * react-docxodus-viewer types
  */
 
+import type { DocumentViewerError } from '../utils/errors';
+
 export type CommentMode = 'disabled' | 'endnote' | 'inline' | 'margin';
 export type AnnotationMode = 'disabled' | 'above' | 'inline' | 'tooltip' | 'none';
-export type ViewMode = 'document' | 'revisions';
+/** `split` shows the document and the tracked changes side by side */
+export type ViewMode = 'document' | 'revisions' | 'split';
+export type SidebarMode = 'thumbnails' | 'outline' | 'none';
+/** `custom` uses `paginationScale`; the fit modes size pages to the viewport */
+export type ZoomMode = 'custom' | 'fit-width' | 'fit-page';
+/** Side of the document the tracked changes panel is on in the split view */
+export type PanelSide = 'left' | 'right';
+/** How the tracked changes list is grouped */
+export type RevisionGroupBy = 'none' | 'author' | 'day' | 'type' | 'page';
+/** Order of the tracked changes list (within each group when grouped) */
+export type RevisionSortOrder = 'document' | 'newest' | 'oldest' | 'author';
+/** Formats tracked changes can be exported in */
+export type RevisionExportFormat = 'csv' | 'json' | 'markdown' | 'html';
+/** Revision types the tracked changes list can be narrowed to */
+export type RevisionTypeFilter = 'all' | 'insertions' | 'deletions' | 'moves' | 'formatting';
+
+/** Filters for the tracked changes list. Revisions are shown when they match all of them. */
+export interface RevisionFilter {
+  type: RevisionTypeFilter;
+  /** Authors to show; empty shows every author */
+  authors: string[];
+  /** First day to show (inclusive), as `YYYY-MM-DD` in local time */
+  dateFrom: string | null;
+  /** Last day to show (inclusive), as `YYYY-MM-DD` in local time */
+  dateTo: string | null;
+  /** Text the revision must contain (case-insensitive) */
+  text: string;
+}
+/** Where documents are converted: in a Web Worker or on the main thread */
+export type EngineMode = 'worker' | 'main-thread';
+
+/** Recovery actions offered to `renderError` */
+export interface ErrorActions {
+  /** Repeat the step that failed */
+  retry?: () => void;
+}
+
+export interface DocumentUrlSource {
+  /** URL of the DOCX file */
+  url: string;
+  /** Additional request headers (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** Credentials mode for the request */
+  credentials?: RequestCredentials;
+  /** File name to display (defaults to the last segment of the URL path) */
+  fileName?: string;
+}
+
+/** A document to load: URL, URL with request options, raw bytes, or a Blob/File */
+export type DocumentSource = string | DocumentUrlSource | ArrayBuffer | Uint8Array | Blob;
+
+export interface LoadProgress {
+  /** Bytes received so far */
+  loaded: number;
+  /** Total bytes, or null if the server did not report a Content-Length */
+  total: number | null;
+}
+
+export interface SearchOptions {
+  /** Match letter case exactly */
+  caseSensitive: boolean;
+  /** Only match whole words */
+  wholeWord: boolean;
+  /** Treat the query as a regular expression */
+  regex: boolean;
+}
+
+export interface SearchMatch {
+  /** Page the match is on (1-based) */
+  pageNumber: number;
+  /** Matched text */
+  text: string;
+}
+
+export interface SearchResults {
+  query: string;
+  options: SearchOptions;
+  /** All matches in document order */
+  matches: SearchMatch[];
+  /** Index of the current match in `matches`, -1 when there are none */
+  activeIndex: number;
+}
+
+export interface OutlineItem {
+  id: string;
+  /** Heading text */
+  text: string;
+  /** Heading level (1-6) */
+  level: number;
+  /** Page the heading is on after pagination (1-based) */
+  pageNumber: number;
+  /** Nested lower-level headings */
+  children: OutlineItem[];
+}
+
+/** Viewer commands that can be bound to keyboard shortcuts */
+export type ViewerAction =
+  | 'nextPage'
+  | 'previousPage'
+  | 'firstPage'
+  | 'lastPage'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'resetZoom'
+  | 'focusSearch'
+  | 'print'
+  | 'closeDialog'
+  | 'showDocument'
+  | 'showChanges'
+  | 'showSplit'
+  | 'showShortcuts';
+
+/**
+ * Shortcut overrides per action. A shortcut is a `KeyboardEvent.key` value with optional
+ * `Ctrl+`, `Alt+`, `Shift+`, `Meta+` or `Mod+` (Cmd on macOS, Ctrl elsewhere) prefixes,
+ * e.g. `'Mod+F'` or `'PageDown'`. Use an array for several shortcuts, or null to disable an action.
+ */
+export type KeyBindings = Partial<Record<ViewerAction, string | string[] | null>>;
+
+export interface PrintOptions {
+  /** Pages to print: a range string such as `'1-3, 5'` or page numbers (1-based). Defaults to all pages. */
+  pages?: string | number[];
+}
+
+/** A converted document as stored in a `ConversionCache` */
+export interface CachedConversion {
+  html: string;
+  /** Revisions extracted from the document, or null if extraction failed */
+  revisions: import('docxodus').Revision[] | null;
+  /** Document metadata (page sizes per section), or null if unavailable */
+  metadata: import('docxodus/react').DocumentMetadata | null;
+}
+
+/**
+ * Storage for converted documents, keyed by a hash of the file contents and the
+ * conversion settings. Implementations may evict entries at any time.
+ */
+export interface ConversionCache {
+  get: (key: string) => Promise<CachedConversion | null>;
+  set: (key: string, entry: CachedConversion) => Promise<void>;
+  delete?: (key: string) => Promise<void>;
+  clear?: () => Promise<void>;
+}
+
+/**
+ * Synchronous key-value storage for persisted settings and reading positions.
+ * `localStorage` and `sessionStorage` implement it.
+ */
+export interface PersistenceStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+/** Where the reader was in a document: the page at the top of the viewport */
+export interface ReadingPosition {
+  pageNumber: number;
+  /** How far down that page the top of the viewport was, as a fraction of the page height */
+  offset: number;
+}
+
+/**
+ * Access to the URL hash for `syncUrlHash`, so hosts whose router owns the URL (React Router,
+ * Next.js) can route updates through it. Hashes are passed without the leading `#`.
+ */
+export interface UrlHashAdapter {
+  getHash: () => string;
+  /** Replace the hash, without adding a history entry */
+  setHash: (hash: string) => void;
+  /** Call `listener` when the hash changes through navigation; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface ConversionInfo {
+  /** The HTML was served from the conversion cache */
+  cacheHit: boolean;
+}
+
+/** Pages rendered so far, reported by `onConversionProgress` */
+export interface ConversionProgress {
+  /** Pages rendered and readable */
+  pagesAvailable: number;
+  /** Estimated page count of the whole document, when known */
+  estimatedTotalPages: number | null;
+  /** The whole document has been rendered */
+  complete: boolean;
+}
+
+/**
+ * Timings for loading one document, reported by `onMetrics`. Durations are in milliseconds
+ * and are null for phases that were skipped or failed.
+ */
+export interface DocumentMetrics {
+  /** How long the engine took to load (once per engine, so shared or preloaded engines report their original load) */
+  engineInitTime: number | null;
+  /** Where the conversion ran */
+  engineMode: EngineMode | null;
+  /** Whether the conversion ran in a Web Worker */
+  workerUsed: boolean;
+  /** File size in bytes */
+  fileSize: number;
+  /** Reading page sizes for the loading placeholders */
+  metadataTime: number | null;
+  /** DOCX to HTML conversion (cache lookup time on a cache hit) */
+  conversionTime: number;
+  /** The HTML was served from the conversion cache */
+  cacheHit: boolean;
+  /** Length of the converted HTML in characters */
+  htmlSize: number;
+  /** Extracting tracked changes */
+  revisionExtractionTime: number | null;
+  /** Splitting the HTML into pages, until `onPaginationComplete` */
+  paginationTime: number | null;
+  /** Number of pages, once paginated */
+  pageCount: number | null;
+}
 
 export interface ViewerSettings {
-  /** Zoom scale (0.3 - 2.0) */
+  /** Zoom scale (0.3 - 2.0), used when `zoomMode` is `custom` */
   paginationScale: number;
+  /** How the zoom scale is chosen */
+  zoomMode: ZoomMode;
   /** Show page numbers on pages */
   showPageNumbers: boolean;
+  /** Space between pages in pixels */
+  pageGap: number;
+  /** Background color behind the pages */
+  backgroundColor: string;
+  /** Width of the tracked changes panel in the split view, as a percentage of the viewer width */
+  revisionPanelWidth: number;
+  /** Side of the document the tracked changes panel is on in the split view */
+  revisionPanelSide: PanelSide;
+  /** How the tracked changes list is grouped */
+  revisionGroupBy: RevisionGroupBy;
+  /** Order of the tracked changes list */
+  revisionSortOrder: RevisionSortOrder;
   /** Render footnotes and endnotes */
   renderFootnotesAndEndnotes: boolean;
   /** Render headers and footers */
@@ -44,19 +275,51 @@ export interface DocumentViewerProps {
   file?: File | null;
   /** Pre-converted HTML content (skip conversion) */
   html?: string | null;
+  /**
+   * Document to load from a URL, bytes or Blob (uncontrolled mode).
+   * Loaded whenever the value changes; ignored when `file` is provided.
+   */
+  source?: DocumentSource | null;
+  /** Aborts an in-progress `source` download when signalled */
+  signal?: AbortSignal;
 
   /** Callback when file changes */
   onFileChange?: (file: File | null) => void;
+  /** Callback with download progress while loading a URL `source` */
+  onLoadProgress?: (progress: LoadProgress) => void;
   /** Callback when conversion starts */
   onConversionStart?: () => void;
   /** Callback when conversion completes successfully */
-  onConversionComplete?: (html: string) => void;
-  /** Callback when an error occurs */
-  onError?: (error: Error) => void;
+  onConversionComplete?: (html: string, info: ConversionInfo) => void;
+  /** Callback when a conversion is cancelled by the user or superseded by another document */
+  onConversionCancelled?: () => void;
+  /**
+   * Callback as converted pages are rendered: once for the first pages when rendering
+   * `progressive`ly, then once the whole document is paginated
+   */
+  onConversionProgress?: (progress: ConversionProgress) => void;
+  /** Callback when the conversion engine loads, and again if it falls back from workers to the main thread */
+  onEngineModeChange?: (mode: EngineMode) => void;
+  /** Callback when an error stops the document from showing. `error.code` says what failed. */
+  onError?: (error: DocumentViewerError) => void;
+  /** Callback for non-fatal problems (tracked changes, page metadata or the cache failing); the document still shows */
+  onWarning?: (warning: DocumentViewerError) => void;
+  /**
+   * Replace the built-in error message. `actions.retry` is set for errors that may succeed
+   * on a second attempt (engine load, download, conversion and timeout failures).
+   */
+  renderError?: (error: DocumentViewerError, actions: ErrorActions) => React.ReactNode;
   /** Callback when visible page changes */
   onPageChange?: (page: number, total: number) => void;
   /** Callback when revisions are extracted from document */
   onRevisionsExtracted?: (revisions: import('docxodus').Revision[]) => void;
+  /** Callback when search results or the current match change */
+  onSearchResults?: (results: SearchResults) => void;
+  /**
+   * Callback with load and render timings once a converted document has been paginated
+   * and its tracked changes extracted. Phases are also recorded as `rdv:*` performance measures.
+   */
+  onMetrics?: (metrics: DocumentMetrics) => void;
 
   /** Initial/controlled viewer settings */
   settings?: Partial<ViewerSettings>;
@@ -73,27 +336,145 @@ export interface DocumentViewerProps {
   toolbar?: 'top' | 'bottom' | 'none';
   /** Show settings button in toolbar */
   showSettingsButton?: boolean;
+  /** Sidebar panel to show (controlled). Leave undefined to let the toolbar button toggle it. */
+  sidebar?: SidebarMode;
+  /** Callback when the sidebar panel is changed from the toolbar or sidebar tabs */
+  onSidebarChange?: (sidebar: SidebarMode) => void;
+  /** Shorthand for `sidebar="outline"` / `sidebar="none"` (ignored when `sidebar` is set) */
+  showOutline?: boolean;
+  /** Callback when the outline panel is shown or hidden */
+  onOutlineToggle?: (visible: boolean) => void;
   /** Show revisions tab when document has tracked changes */
   showRevisionsTab?: boolean;
+  /** Tracked changes list filters (controlled), merged over the defaults. Leave undefined to let the list's controls change them. */
+  revisionFilter?: Partial<RevisionFilter>;
+  /** Callback when the tracked changes list filters are changed */
+  onRevisionFilterChange?: (filter: RevisionFilter) => void;
+  /** Keyboard shortcut overrides, merged over the defaults. Shortcuts apply while focus is inside the viewer. */
+  keyBindings?: KeyBindings;
+  /** File types accepted from the file picker, drag and drop and paste, in `<input accept>` syntax. Default: `'.docx'` */
+  accept?: string;
+  /** Reject files larger than this many bytes before conversion */
+  maxFileSize?: number;
+  /**
+   * Cache converted documents so reopening the same file with the same conversion settings
+   * skips conversion. `true` uses a shared IndexedDB cache (in memory where IndexedDB is
+   * unavailable); pass a `ConversionCache` to provide your own storage. Default: false
+   */
+  cache?: boolean | ConversionCache;
+  /**
+   * Persist uncontrolled settings, and the reading position in each document, under this
+   * key so they are restored the next time the viewer opens. Documents are recognised by
+   * a hash of their contents. Viewers sharing a key share settings.
+   */
+  persistKey?: string;
+  /** Storage for `persistKey`. Default: localStorage */
+  persistStorage?: PersistenceStorage;
+  /**
+   * Reflect the current page, zoom, view, search and followed bookmark in the URL hash, and
+   * restore them from it, so links can point into a document. `true` uses `window.location`;
+   * pass a `UrlHashAdapter` to go through a router. Default: false
+   */
+  syncUrlHash?: boolean | UrlHashAdapter;
   /** Placeholder text when no document is loaded */
   placeholder?: string;
+  /** Show an overlay with the metrics of the last document load, for debugging slow documents */
+  showMetricsOverlay?: boolean;
+  /**
+   * Keep only the pages near the viewport mounted, for very large documents. Pages stay
+   * in place at their full size, and search, printing and navigation still cover every page.
+   * Default: false
+   */
+  virtualize?: boolean;
+  /**
+   * Show the first pages of a long document while the rest converts: a copy holding just
+   * its opening paragraphs is converted first, then replaced by the full document at the
+   * same reading position. Ignored when `html` is controlled.
+   * Default: false
+   */
+  progressive?: boolean;
 
   /**
-   * Base path for WASM files.
+   * Base path for WASM files. Ignored inside a DocxodusProvider, which configures the engine.
    * Leave undefined for auto-detection (recommended for most setups).
    * Only specify if hosting WASM files at a custom location.
    */
   wasmBasePath?: string;
   /**
    * Use Web Worker for document conversion (keeps UI responsive).
-   * Default: true
+   * Falls back to the main thread when workers are unsupported, fail to start or keep crashing.
+   * Ignored inside a DocxodusProvider. Default: true
    */
   useWorker?: boolean;
+  /**
+   * Fail a conversion that takes longer than this many milliseconds. A worker conversion is
+   * stopped; a main-thread conversion can't be interrupted, so its result is discarded.
+   */
+  conversionTimeout?: number;
+}
+
+/**
+ * Imperative API exposed through a ref on DocumentViewer.
+ *
+ * @example
+ * ```tsx
+ * const viewerRef = useRef<DocumentViewerHandle>(null);
+ * <DocumentViewer ref={viewerRef} />
+ * viewerRef.current?.goToPage(3);
+ * ```
+ */
+export interface DocumentViewerHandle {
+  /** Scroll to a page (1-based). Ignored if out of range. */
+  goToPage: (pageNumber: number) => void;
+  /** Set the zoom scale (clamped to 0.3 - 2.0) or switch to a fit mode */
+  setZoom: (zoom: number | Exclude<ZoomMode, 'custom'>) => void;
+  /** Zoom scale currently applied to the pages (resolved for fit modes) */
+  getZoom: () => number;
+  /** Re-run conversion of the current file with the current settings */
+  reconvert: () => Promise<void>;
+  /** Stop the conversion in progress, if any */
+  cancelConversion: () => void;
+  /** Unload the current document */
+  clear: () => void;
+  /** Switch to the tracked changes view */
+  showRevisions: () => void;
+  /** Switch to the document view */
+  showDocument: () => void;
+  /** Show the document and the tracked changes side by side */
+  showSplit: () => void;
+  /** Current converted HTML, or null if no document is loaded */
+  getHtml: () => string | null;
+  /** Revisions extracted from the current document */
+  getRevisions: () => import('docxodus').Revision[];
+  /** Currently visible page (1-based) */
+  getCurrentPage: () => number;
+  /** Total number of pages after pagination (0 before pagination completes) */
+  getTotalPages: () => number;
+  /** Search the document, highlighting all matches. Returns the number of matches. */
+  search: (query: string, options?: Partial<SearchOptions>) => number;
+  /** Move to the next match (wraps around) */
+  findNext: () => void;
+  /** Move to the previous match (wraps around) */
+  findPrevious: () => void;
+  /** Remove search highlights */
+  clearSearch: () => void;
+  /**
+   * Print the document at 100% scale, one DOCX page per sheet. Rejects if no document is
+   * displayed in the document view or the page range is invalid.
+   */
+  print: (options?: PrintOptions) => Promise<void>;
 }
 
 export const DEFAULT_SETTINGS: ViewerSettings = {
   paginationScale: 0.8,
+  zoomMode: 'custom',
   showPageNumbers: true,
+  pageGap: 20,
+  backgroundColor: '#525659',
+  revisionPanelWidth: 35,
+  revisionPanelSide: 'right',
+  revisionGroupBy: 'none',
+  revisionSortOrder: 'document',
   renderFootnotesAndEndnotes: true,
   renderHeadersAndFooters: true,
   commentMode: 'disabled',
@@ -108,3 +489,11 @@ export const DEFAULT_SETTINGS: ViewerSettings = {
   commentCssClassPrefix: 'comment-',
   annotationCssClassPrefix: 'annot-',
 };
+
+export const DEFAULT_REVISION_FILTER: RevisionFilter = {
+  type: 'all',
+  authors: [],
+  dateFrom: null,
+  dateTo: null,
+  text: '',
+};
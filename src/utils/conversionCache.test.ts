@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_SETTINGS } from '../types'
+import { computeCacheKey, computeFileHash, createMemoryConversionCache, selectEvictions, DEFAULT_CACHE_LIMITS } from './conversionCache'
+
+const entry = (html: string) => ({ html, revisions: [], metadata: null })
+
+describe('computeCacheKey', () => {
+  it('depends on the file contents, not the file name', async () => {
+    const key = await computeCacheKey(await computeFileHash(new File(['abc'], 'a.docx')), DEFAULT_SETTINGS)
+    expect(await computeCacheKey(await computeFileHash(new File(['abc'], 'b.docx')), DEFAULT_SETTINGS)).toBe(key)
+    expect(await computeCacheKey(await computeFileHash(new File(['abd'], 'a.docx')), DEFAULT_SETTINGS)).not.toBe(key)
+  })
+
+  it('ignores presentation settings', async () => {
+    const fileHash = await computeFileHash(new File(['abc'], 'a.docx'))
+    const key = await computeCacheKey(fileHash, DEFAULT_SETTINGS)
+    expect(await computeCacheKey(fileHash, { ...DEFAULT_SETTINGS, paginationScale: 1.5, pageGap: 0 })).toBe(key)
+    expect(await computeCacheKey(fileHash, { ...DEFAULT_SETTINGS, commentMode: 'inline' })).not.toBe(key)
+  })
+})
+
+describe('selectEvictions', () => {
+  const limits = { ...DEFAULT_CACHE_LIMITS, maxEntries: 2, maxBytes: 100, maxAge: 1000 }
+
+  it('evicts expired entries', () => {
+    const entries = [
+      { key: 'old', size: 1, createdAt: 0, lastAccessed: 1900 },
+      { key: 'new', size: 1, createdAt: 1500, lastAccessed: 1500 },
+    ]
+    expect(selectEvictions(entries, limits, 2000)).toEqual(['old'])
+  })
+
+  it('evicts the least recently used entries over the count or size limit', () => {
+    const entries = [
+      { key: 'a', size: 10, createdAt: 0, lastAccessed: 30 },
+      { key: 'b', size: 10, createdAt: 0, lastAccessed: 10 },
+      { key: 'c', size: 10, createdAt: 0, lastAccessed: 20 },
+    ]
+    expect(selectEvictions(entries, limits, 100)).toEqual(['b'])
+
+    const large = [
+      { key: 'a', size: 60, createdAt: 0, lastAccessed: 10 },
+      { key: 'b', size: 60, createdAt: 0, lastAccessed: 20 },
+    ]
+    expect(selectEvictions(large, limits, 100)).toEqual(['a'])
+  })
+})
+
+describe('createMemoryConversionCache', () => {
+  it('stores and returns conversions', async () => {
+    const cache = createMemoryConversionCache()
+    expect(await cache.get('key')).toBeNull()
+    await cache.set('key', entry('<p>Hello</p>'))
+    expect(await cache.get('key')).toEqual(entry('<p>Hello</p>'))
+  })
+
+  it('keeps recently read entries when evicting', async () => {
+    const cache = createMemoryConversionCache({ maxEntries: 2 })
+    await cache.set('a', entry('a'))
+    await new Promise((resolve) => setTimeout(resolve, 2))
+    await cache.set('b', entry('b'))
+    await new Promise((resolve) => setTimeout(resolve, 2))
+    await cache.get('a')
+    await cache.set('c', entry('c'))
+
+    expect(await cache.get('a')).not.toBeNull()
+    expect(await cache.get('b')).toBeNull()
+    expect(await cache.get('c')).not.toBeNull()
+  })
+})
@@ -0,0 +1,244 @@
+import type { CachedConversion, ConversionCache, ViewerSettings } from '../types';
+import { isPresentationSetting } from './settings';
+import { readBytes } from './readBytes';
+
+// Bump when the cached shape or the conversion pipeline changes, so stale entries are never served
+const CACHE_VERSION = 1;
+
+export interface ConversionCacheLimits {
+  /** Maximum number of documents kept */
+  maxEntries?: number;
+  /** Maximum total size in bytes (approximate: HTML and revision JSON as UTF-16) */
+  maxBytes?: number;
+  /** Entries older than this many milliseconds are discarded */
+  maxAge?: number;
+}
+
+export const DEFAULT_CACHE_LIMITS: Required<ConversionCacheLimits> = {
+  maxEntries: 50,
+  maxBytes: 200 * 1024 * 1024,
+  maxAge: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Bookkeeping stored next to each cached conversion */
+export interface CacheEntryInfo {
+  key: string;
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** SHA-256 of the file contents, in hex. Identifies a document regardless of its name. */
+export async function computeFileHash(file: Blob): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new Uint8Array(await readBytes(file))));
+}
+
+/**
+ * Cache key for converting a file with `settings`: its `computeFileHash` plus a hash of the
+ * settings that affect conversion output (zoom, page numbers etc. don't).
+ */
+export async function computeCacheKey(fileHash: string, settings: ViewerSettings): Promise<string> {
+  const conversionSettings = (Object.keys(settings) as (keyof ViewerSettings)[])
+    .filter((key) => !isPresentationSetting(key))
+    .sort()
+    .map((key) => [key, settings[key]]);
+
+  const settingsHash = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify(conversionSettings))
+  );
+  return `v${CACHE_VERSION}-${fileHash}-${toHex(settingsHash).slice(0, 16)}`;
+}
+
+/** Approximate in-memory size of a cached conversion */
+export function estimateEntrySize(entry: CachedConversion): number {
+  const revisionsLength = entry.revisions ? JSON.stringify(entry.revisions).length : 0;
+  const metadataLength = entry.metadata ? JSON.stringify(entry.metadata).length : 0;
+  return (entry.html.length + revisionsLength + metadataLength) * 2;
+}
+
+/**
+ * Keys to evict so the cache fits its limits: expired entries first, then the least
+ * recently used until both the entry count and total size are within bounds.
+ */
+export function selectEvictions(
+  entries: CacheEntryInfo[],
+  limits: Required<ConversionCacheLimits>,
+  now = Date.now()
+): string[] {
+  const evicted: string[] = [];
+  const live: CacheEntryInfo[] = [];
+  for (const entry of entries) {
+    if (now - entry.createdAt > limits.maxAge) {
+      evicted.push(entry.key);
+    } else {
+      live.push(entry);
+    }
+  }
+
+  live.sort((a, b) => a.lastAccessed - b.lastAccessed);
+  let totalSize = live.reduce((sum, entry) => sum + entry.size, 0);
+  let count = live.length;
+  for (const entry of live) {
+    if (count <= limits.maxEntries && totalSize <= limits.maxBytes) break;
+    evicted.push(entry.key);
+    totalSize -= entry.size;
+    count -= 1;
+  }
+  return evicted;
+}
+
+/** In-memory cache, shared by every viewer using it for the lifetime of the page */
+export function createMemoryConversionCache(limits: ConversionCacheLimits = {}): ConversionCache {
+  const resolvedLimits = { ...DEFAULT_CACHE_LIMITS, ...limits };
+  const entries = new Map<string, { info: CacheEntryInfo; value: CachedConversion }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (Date.now() - entry.info.createdAt > resolvedLimits.maxAge) {
+        entries.delete(key);
+        return null;
+      }
+      entry.info.lastAccessed = Date.now();
+      return entry.value;
+    },
+    async set(key, value) {
+      const now = Date.now();
+      entries.set(key, { info: { key, size: estimateEntrySize(value), createdAt: now, lastAccessed: now }, value });
+      const infos = Array.from(entries.values(), (entry) => entry.info);
+      selectEvictions(infos, resolvedLimits, now).forEach((evictedKey) => entries.delete(evictedKey));
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+const STORE_NAME = 'conversions';
+
+interface StoredConversion extends CacheEntryInfo {
+  value: CachedConversion;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export interface IndexedDbConversionCacheOptions extends ConversionCacheLimits {
+  /** Database name. Default: 'react-docxodus-viewer' */
+  databaseName?: string;
+}
+
+/** Conversion cache persisted in IndexedDB, so documents stay cached across page loads */
+export function createIndexedDbConversionCache(options: IndexedDbConversionCacheOptions = {}): ConversionCache {
+  const { databaseName = 'react-docxodus-viewer', ...limits } = options;
+  const resolvedLimits = { ...DEFAULT_CACHE_LIMITS, ...limits };
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      database = promisifyRequest(request);
+      // Allow a later call to retry if opening failed (e.g. storage blocked)
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  // Entries carry their values, so read only the bookkeeping fields through a cursor
+  const readEntryInfos = (store: IDBObjectStore) => new Promise<CacheEntryInfo[]>((resolve, reject) => {
+    const infos: CacheEntryInfo[] = [];
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(infos);
+        return;
+      }
+      const { key, size, createdAt, lastAccessed } = cursor.value as StoredConversion;
+      infos.push({ key, size, createdAt, lastAccessed });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return {
+    async get(key) {
+      const db = await open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const stored = await promisifyRequest(store.get(key)) as StoredConversion | undefined;
+      if (!stored) return null;
+
+      const now = Date.now();
+      if (now - stored.createdAt > resolvedLimits.maxAge) {
+        store.delete(key);
+        await promisifyTransaction(transaction);
+        return null;
+      }
+      store.put({ ...stored, lastAccessed: now });
+      await promisifyTransaction(transaction);
+      return stored.value;
+    },
+    async set(key, value) {
+      const db = await open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const now = Date.now();
+      const stored: StoredConversion = { key, value, size: estimateEntrySize(value), createdAt: now, lastAccessed: now };
+      store.put(stored);
+      const infos = await readEntryInfos(store);
+      selectEvictions(infos, resolvedLimits, now).forEach((evictedKey) => store.delete(evictedKey));
+      await promisifyTransaction(transaction);
+    },
+    async delete(key) {
+      const db = await open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).delete(key);
+      await promisifyTransaction(transaction);
+    },
+    async clear() {
+      const db = await open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).clear();
+      await promisifyTransaction(transaction);
+    },
+  };
+}
+
+let defaultCache: ConversionCache | null = null;
+
+/** Cache used for `cache={true}`: IndexedDB where available, otherwise in memory */
+export function getDefaultConversionCache(): ConversionCache {
+  if (!defaultCache) {
+    defaultCache = typeof indexedDB !== 'undefined'
+      ? createIndexedDbConversionCache()
+      : createMemoryConversionCache();
+  }
+  return defaultCache;
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createWorkerDocxodus, isWorkerSupported } from 'docxodus/worker'
+import type { WorkerDocxodus } from 'docxodus/worker'
+import { createDocxodusEngine, getRestartDelay, getSharedDocxodusEngine, preloadDocxodus } from './docxodusEngine'
+
+function createFakeWorker() {
+  const pending: ((html: string) => void)[] = []
+  const worker = {
+    convertDocxToHtml: vi.fn(() => new Promise<string>((resolve) => pending.push(resolve))),
+    getRevisions: vi.fn().mockResolvedValue([]),
+    getDocumentMetadata: vi.fn(),
+    terminate: vi.fn(),
+    isActive: vi.fn().mockReturnValue(true),
+  }
+  return { worker, pending }
+}
+
+const file = new File(['x'], 'a.docx')
+
+describe('createDocxodusEngine', () => {
+  beforeEach(() => {
+    vi.mocked(createWorkerDocxodus).mockClear()
+  })
+
+  it('queues jobs beyond the pool size', async () => {
+    const workers = [createFakeWorker(), createFakeWorker()]
+    workers.forEach(({ worker }) => {
+      vi.mocked(createWorkerDocxodus).mockResolvedValueOnce(worker as unknown as WorkerDocxodus)
+    })
+    const engine = createDocxodusEngine({ poolSize: 2 })
+    await engine.ready
+
+    const results = [1, 2, 3].map(() => engine.convertDocxToHtml(file, {}))
+    await vi.waitFor(() => expect(workers[1].worker.convertDocxToHtml).toHaveBeenCalled())
+    expect(createWorkerDocxodus).toHaveBeenCalledTimes(2)
+    expect(workers[0].worker.convertDocxToHtml).toHaveBeenCalledTimes(1)
+
+    // The third job runs on whichever worker frees up first
+    workers[0].pending[0]('<p>1</p>')
+    await vi.waitFor(() => expect(workers[0].worker.convertDocxToHtml).toHaveBeenCalledTimes(2))
+    workers[1].pending[0]('<p>2</p>')
+    workers[0].pending[1]('<p>3</p>')
+    expect(await Promise.all(results)).toEqual(['<p>1</p>', '<p>2</p>', '<p>3</p>'])
+    engine.dispose()
+  })
+
+  it('terminates the worker running an aborted job', async () => {
+    const { worker } = createFakeWorker()
+    vi.mocked(createWorkerDocxodus).mockResolvedValueOnce(worker as unknown as WorkerDocxodus)
+    const engine = createDocxodusEngine()
+    const controller = new AbortController()
+
+    const result = engine.convertDocxToHtml(file, {}, controller.signal)
+    await vi.waitFor(() => expect(worker.convertDocxToHtml).toHaveBeenCalled())
+    controller.abort()
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' })
+    await vi.waitFor(() => expect(worker.terminate).toHaveBeenCalled())
+    engine.dispose()
+  })
+
+  it('drops aborted jobs that are still queued', async () => {
+    const { worker, pending } = createFakeWorker()
+    vi.mocked(createWorkerDocxodus).mockResolvedValueOnce(worker as unknown as WorkerDocxodus)
+    const engine = createDocxodusEngine()
+    const controller = new AbortController()
+
+    const first = engine.convertDocxToHtml(file, {})
+    const queued = engine.convertDocxToHtml(file, {}, controller.signal)
+    controller.abort()
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' })
+
+    await vi.waitFor(() => expect(pending).toHaveLength(1))
+    pending[0]('<p>1</p>')
+    expect(await first).toBe('<p>1</p>')
+    expect(worker.convertDocxToHtml).toHaveBeenCalledTimes(1)
+    expect(worker.terminate).not.toHaveBeenCalled()
+    engine.dispose()
+  })
+})
+
+describe('engine fallback', () => {
+  beforeEach(() => {
+    vi.mocked(createWorkerDocxodus).mockClear()
+  })
+
+  it('uses the main thread when workers are unsupported', async () => {
+    vi.mocked(isWorkerSupported).mockReturnValueOnce(false)
+    const engine = createDocxodusEngine()
+    await engine.ready
+    expect(engine.mode()).toBe('main-thread')
+    expect(createWorkerDocxodus).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the main thread when the worker fails to start', async () => {
+    vi.mocked(createWorkerDocxodus).mockRejectedValueOnce(new Error('blocked by CSP'))
+    const engine = createDocxodusEngine()
+    const listener = vi.fn()
+    engine.subscribe(listener)
+
+    await engine.ready
+    expect(engine.mode()).toBe('main-thread')
+    expect(listener).toHaveBeenCalled()
+    expect(await engine.convertDocxToHtml(file, {})).toBe('<div>Mock HTML</div>')
+  })
+
+  it('runs a job that crashed a worker again on its replacement', async () => {
+    const crashed = {
+      ...createFakeWorker().worker,
+      convertDocxToHtml: vi.fn().mockImplementation(() => {
+        crashed.isActive.mockReturnValue(false)
+        return Promise.reject(new Error('Worker error: out of memory'))
+      }),
+    }
+    const { worker: replacement, pending } = createFakeWorker()
+    vi.mocked(createWorkerDocxodus)
+      .mockResolvedValueOnce(crashed as unknown as WorkerDocxodus)
+      .mockResolvedValueOnce(replacement as unknown as WorkerDocxodus)
+    const engine = createDocxodusEngine()
+    await engine.ready
+
+    const result = engine.convertDocxToHtml(file, {})
+    await vi.waitFor(() => expect(replacement.convertDocxToHtml).toHaveBeenCalled())
+    pending[0]('<p>Converted</p>')
+    expect(await result).toBe('<p>Converted</p>')
+    expect(crashed.terminate).toHaveBeenCalled()
+    expect(engine.mode()).toBe('worker')
+    engine.dispose()
+  })
+
+  it('restarts crashed workers and gives up after repeated crashes', async () => {
+    const crashingWorker = () => {
+      const worker = {
+        ...createFakeWorker().worker,
+        convertDocxToHtml: vi.fn().mockImplementation(() => {
+          worker.isActive.mockReturnValue(false)
+          return Promise.reject(new Error('Worker error: out of memory'))
+        }),
+      }
+      return worker as unknown as WorkerDocxodus
+    }
+    vi.mocked(createWorkerDocxodus)
+      .mockResolvedValueOnce(crashingWorker())
+      .mockResolvedValueOnce(crashingWorker())
+      .mockResolvedValueOnce(crashingWorker())
+    const engine = createDocxodusEngine()
+    await engine.ready
+
+    // Retried once on a restarted worker, which crashes too
+    await expect(engine.convertDocxToHtml(file, {})).rejects.toThrow('out of memory')
+    expect(createWorkerDocxodus).toHaveBeenCalledTimes(2)
+    expect(engine.mode()).toBe('worker')
+    // The third crash switches to the main thread, which re-runs the job
+    expect(await engine.convertDocxToHtml(file, {})).toBe('<div>Mock HTML</div>')
+    expect(engine.mode()).toBe('main-thread')
+    expect(createWorkerDocxodus).toHaveBeenCalledTimes(3)
+  })
+
+  it('backs off exponentially between restarts', () => {
+    expect([0, 1, 2, 3, 10].map(getRestartDelay)).toEqual([0, 250, 500, 1000, 5000])
+  })
+})
+
+describe('preloadDocxodus', () => {
+  it('starts the shared engine used for the same options', async () => {
+    vi.mocked(createWorkerDocxodus).mockClear()
+    await preloadDocxodus({ wasmBasePath: '/preload/' })
+    expect(getSharedDocxodusEngine({ wasmBasePath: '/preload/' }).isReady()).toBe(true)
+    expect(getSharedDocxodusEngine({ wasmBasePath: '/preload/' }).loadTime()).toEqual(expect.any(Number))
+    expect(createWorkerDocxodus).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,347 @@
+import {
+  initialize,
+  convertDocxToHtml,
+  getRevisions,
+  getDocumentMetadata,
+} from 'docxodus';
+import type { ConversionOptions, DocumentMetadata, Revision } from 'docxodus';
+import { createWorkerDocxodus, isWorkerSupported } from 'docxodus/worker';
+import type { WorkerDocxodus } from 'docxodus/worker';
+import type { EngineMode } from '../types';
+import { startMeasure } from './metrics';
+
+/**
+ * Document operations the viewer needs, backed either by Web Workers or by the
+ * main-thread WASM runtime. Aborting a job's signal cancels it: queued jobs are
+ * dropped and a running worker job is stopped by terminating its worker.
+ */
+export interface DocxodusEngine {
+  /** Resolves once the runtime is loaded; rejects if it fails to start */
+  ready: Promise<void>;
+  /** Whether `ready` has resolved */
+  isReady: () => boolean;
+  /** Milliseconds `ready` took to resolve, or null while loading or after a failure */
+  loadTime: () => number | null;
+  /** Where conversions currently run */
+  mode: () => EngineMode;
+  /** Listen for mode changes (a fallback to the main thread). Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+  convertDocxToHtml: (file: File, options: ConversionOptions, signal?: AbortSignal) => Promise<string>;
+  getRevisions: (file: File, signal?: AbortSignal) => Promise<Revision[]>;
+  getDocumentMetadata: (file: File, signal?: AbortSignal) => Promise<DocumentMetadata>;
+  /** Stop all workers. The engine can't be used afterwards. */
+  dispose: () => void;
+}
+
+export interface DocxodusEngineOptions {
+  /**
+   * Run conversions in Web Workers. Falls back to the main thread where workers are
+   * unsupported, fail to start or keep crashing. Default: true
+   */
+  useWorker?: boolean;
+  /** Maximum number of workers; jobs beyond this wait in a queue. Default: 1 */
+  poolSize?: number;
+  /** Base path for WASM files. Leave undefined for auto-detection. */
+  wasmBasePath?: string;
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+// Readiness and load time of `ready`, measured as the `phase` User Timing entry
+function trackReady(ready: Promise<void>, phase: string): Pick<DocxodusEngine, 'isReady' | 'loadTime'> {
+  const finishLoad = startMeasure(phase);
+  let loadTime: number | null = null;
+  ready.then(() => {
+    loadTime = finishLoad();
+  }, () => {});
+  return {
+    isReady: () => loadTime !== null,
+    loadTime: () => loadTime,
+  };
+}
+
+// The main-thread runtime is a page-wide singleton inside docxodus, so this is cheap to create.
+// WASM work can't be interrupted on the main thread; aborting only discards the result.
+function createMainThreadEngine(wasmBasePath: string | undefined): DocxodusEngine {
+  const ready = initialize(wasmBasePath);
+
+  const run = async <T>(job: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    await ready;
+    if (signal?.aborted) throw abortError(signal);
+    const result = await job();
+    if (signal?.aborted) throw abortError(signal);
+    return result;
+  };
+
+  return {
+    ready,
+    ...trackReady(ready, 'main-thread-init'),
+    mode: () => 'main-thread',
+    subscribe: () => () => {},
+    convertDocxToHtml: (file, options, signal) => run(() => convertDocxToHtml(file, options), signal),
+    getRevisions: (file, signal) => run(() => getRevisions(file), signal),
+    getDocumentMetadata: (file, signal) => run(() => getDocumentMetadata(file), signal),
+    dispose: () => {},
+  };
+}
+
+interface PoolWorker {
+  instance: Promise<WorkerDocxodus>;
+  busy: boolean;
+}
+
+interface PoolJob {
+  run: (worker: WorkerDocxodus) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  /** Whether the job has already been re-run after crashing a worker */
+  retried?: boolean;
+}
+
+// Restart delays after consecutive worker crashes: 250ms, 500ms, 1s, ... up to 5s
+const RESTART_BASE_DELAY = 250;
+const RESTART_MAX_DELAY = 5000;
+// Consecutive crashes after which workers are considered unusable on this page
+const MAX_CONSECUTIVE_CRASHES = 3;
+
+/** Delay before starting a worker after `crashes` consecutive crashes */
+export function getRestartDelay(crashes: number): number {
+  return crashes === 0 ? 0 : Math.min(RESTART_BASE_DELAY * 2 ** (crashes - 1), RESTART_MAX_DELAY);
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A bounded pool of Docxodus workers with a FIFO job queue. One worker is started
+ * straight away so the runtime is warm; the rest start on demand. Crashed workers are
+ * replaced with increasing back-off, and the job that crashed one is run once more on its
+ * replacement. `onFailure` is called when a worker fails to start or workers keep crashing,
+ * after which the pool rejects all work.
+ */
+function createWorkerPool(
+  poolSize: number,
+  wasmBasePath: string | undefined,
+  onFailure: (error: Error) => void
+): DocxodusEngine {
+  const workers: PoolWorker[] = [];
+  const queue: PoolJob[] = [];
+  let disposed = false;
+  let failure: Error | null = null;
+  let consecutiveCrashes = 0;
+
+  const fail = (error: Error) => {
+    if (failure || disposed) return;
+    failure = error;
+    [...workers].forEach(retire);
+    queue.splice(0).forEach((job) => job.reject(error));
+    onFailure(error);
+  };
+
+  const spawn = () => {
+    const delay = getRestartDelay(consecutiveCrashes);
+    const instance = (delay > 0 ? wait(delay) : Promise.resolve())
+      .then(() => createWorkerDocxodus({ wasmBasePath }));
+    const worker: PoolWorker = { instance, busy: false };
+    instance.catch((err) => {
+      const index = workers.indexOf(worker);
+      if (index >= 0) workers.splice(index, 1);
+      fail(err instanceof Error ? err : new Error(String(err)));
+    });
+    workers.push(worker);
+    return worker;
+  };
+
+  const retire = (worker: PoolWorker) => {
+    const index = workers.indexOf(worker);
+    if (index >= 0) workers.splice(index, 1);
+    worker.instance.then((instance) => instance.terminate(), () => {});
+  };
+
+  const execute = async (worker: PoolWorker, job: PoolJob) => {
+    worker.busy = true;
+    let aborted = false;
+    const handleAbort = () => {
+      // Terminating is the only way to stop a running conversion; the worker is replaced on demand
+      aborted = true;
+      retire(worker);
+      job.reject(abortError(job.signal!));
+    };
+    job.signal?.addEventListener('abort', handleAbort, { once: true });
+
+    try {
+      const instance = await worker.instance;
+      try {
+        const result = await job.run(instance);
+        consecutiveCrashes = 0;
+        if (!aborted) job.resolve(result);
+      } catch (err) {
+        // A crashed worker rejects its jobs and stops accepting new ones
+        const crashed = !aborted && !instance.isActive();
+        if (crashed) {
+          retire(worker);
+          consecutiveCrashes++;
+          if (consecutiveCrashes >= MAX_CONSECUTIVE_CRASHES) {
+            fail(new Error('Docxodus worker crashed repeatedly', { cause: err }));
+          }
+        }
+        if (crashed && !job.retried && !failure) {
+          // The crash may be a one-off, so the job goes first on the replacement worker
+          job.retried = true;
+          queue.unshift(job);
+        } else if (!aborted) {
+          job.reject(err);
+        }
+      }
+    } catch (err) {
+      // The worker failed to start; the pool has already failed
+      if (!aborted) job.reject(err);
+    } finally {
+      job.signal?.removeEventListener('abort', handleAbort);
+      worker.busy = false;
+      schedule();
+    }
+  };
+
+  const schedule = () => {
+    while (queue.length > 0 && !disposed && !failure) {
+      const worker = workers.find((w) => !w.busy) ?? (workers.length < poolSize ? spawn() : null);
+      if (!worker) return;
+      execute(worker, queue.shift()!);
+    }
+  };
+
+  const enqueue = <T>(run: (worker: WorkerDocxodus) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (disposed) return Promise.reject(new Error('Docxodus engine has been disposed'));
+    if (failure) return Promise.reject(failure);
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+
+    return new Promise<T>((resolve, reject) => {
+      const job: PoolJob = { run, resolve: resolve as (value: unknown) => void, reject, signal };
+      // Jobs still waiting in the queue are simply dropped
+      signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(job);
+        if (index >= 0) {
+          queue.splice(index, 1);
+          reject(abortError(signal));
+        }
+      }, { once: true });
+      queue.push(job);
+      schedule();
+    });
+  };
+
+  const ready = spawn().instance.then(() => undefined);
+
+  return {
+    ready,
+    ...trackReady(ready, 'worker-init'),
+    mode: () => 'worker',
+    subscribe: () => () => {},
+    convertDocxToHtml: (file, options, signal) => enqueue((worker) => worker.convertDocxToHtml(file, options), signal),
+    getRevisions: (file, signal) => enqueue((worker) => worker.getRevisions(file), signal),
+    getDocumentMetadata: (file, signal) => enqueue((worker) => worker.getDocumentMetadata(file), signal),
+    dispose: () => {
+      disposed = true;
+      [...workers].forEach(retire);
+      queue.splice(0).forEach((job) => job.reject(new Error('Docxodus engine has been disposed')));
+    },
+  };
+}
+
+/**
+ * Worker pool that falls back to the main thread when workers fail to start or keep
+ * crashing. Jobs caught in the switch are re-run on the main thread.
+ */
+function createResilientEngine(poolSize: number, wasmBasePath: string | undefined): DocxodusEngine {
+  const listeners = new Set<() => void>();
+  let fallback: DocxodusEngine | null = null;
+
+  const switchToMainThread = () => {
+    if (fallback) return;
+    fallback = createMainThreadEngine(wasmBasePath);
+    listeners.forEach((listener) => listener());
+  };
+  const pool = createWorkerPool(poolSize, wasmBasePath, switchToMainThread);
+  const current = () => fallback ?? pool;
+
+  const run = async <T>(job: (engine: DocxodusEngine) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const engine = current();
+    try {
+      return await job(engine);
+    } catch (err) {
+      if (engine === pool && fallback && !signal?.aborted) {
+        return job(fallback);
+      }
+      throw err;
+    }
+  };
+
+  // Ready once either the first worker or, failing that, the main-thread runtime has loaded
+  const ready = pool.ready.catch(() => {
+    switchToMainThread();
+    return current().ready;
+  });
+
+  return {
+    ready,
+    ...trackReady(ready, 'engine-init'),
+    mode: () => current().mode(),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    convertDocxToHtml: (file, options, signal) => run((engine) => engine.convertDocxToHtml(file, options, signal), signal),
+    getRevisions: (file, signal) => run((engine) => engine.getRevisions(file, signal), signal),
+    getDocumentMetadata: (file, signal) => run((engine) => engine.getDocumentMetadata(file, signal), signal),
+    dispose: () => {
+      pool.dispose();
+      fallback?.dispose();
+    },
+  };
+}
+
+/** Create an engine. Call `dispose()` when it is no longer needed. */
+export function createDocxodusEngine(options: DocxodusEngineOptions = {}): DocxodusEngine {
+  const { useWorker = true, poolSize = 1, wasmBasePath } = options;
+  return useWorker && isWorkerSupported()
+    ? createResilientEngine(Math.max(1, poolSize), wasmBasePath)
+    : createMainThreadEngine(wasmBasePath);
+}
+
+// Page-wide engines started by preloadDocxodus() or a DocxodusProvider, by configuration
+const sharedEngines = new Map<string, DocxodusEngine>();
+
+function getSharedEngineKey({ useWorker = true, poolSize = 1, wasmBasePath }: DocxodusEngineOptions): string {
+  return JSON.stringify([useWorker, Math.max(1, poolSize), wasmBasePath ?? null]);
+}
+
+/** Engine shared by everything on the page using the same options, created on first use */
+export function getSharedDocxodusEngine(options: DocxodusEngineOptions = {}): DocxodusEngine {
+  const key = getSharedEngineKey(options);
+  let engine = sharedEngines.get(key);
+  if (!engine) {
+    engine = createDocxodusEngine(options);
+    sharedEngines.set(key, engine);
+    // Let a later call retry if the runtime failed to load
+    engine.ready.catch(() => {
+      if (sharedEngines.get(key) === engine) sharedEngines.delete(key);
+    });
+  }
+  return engine;
+}
+
+/** The shared engine for these options if one has already been started */
+export function findSharedDocxodusEngine(options: DocxodusEngineOptions = {}): DocxodusEngine | null {
+  return sharedEngines.get(getSharedEngineKey(options)) ?? null;
+}
+
+/**
+ * Start loading the Docxodus runtime before any viewer mounts, e.g. while the user is
+ * still on another screen. Viewers and providers using the same options reuse it.
+ */
+export function preloadDocxodus(options: DocxodusEngineOptions = {}): Promise<void> {
+  return getSharedDocxodusEngine(options).ready;
+}
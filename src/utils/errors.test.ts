@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { DocumentViewerError, toDocumentViewerError, isRetryableError } from './errors'
+
+describe('toDocumentViewerError', () => {
+  it('wraps errors with the given code and keeps the original as cause', () => {
+    const original = new Error('Out of memory')
+    const error = toDocumentViewerError(original, 'CONVERSION_FAILED')
+
+    expect(error).toBeInstanceOf(DocumentViewerError)
+    expect(error.code).toBe('CONVERSION_FAILED')
+    expect(error.message).toBe('Out of memory')
+    expect(error.cause).toBe(original)
+  })
+
+  it('wraps non-error values', () => {
+    expect(toDocumentViewerError('offline', 'DOWNLOAD_FAILED').message).toBe('offline')
+  })
+
+  it('keeps the code of existing viewer errors', () => {
+    const timeout = new DocumentViewerError('CONVERSION_TIMEOUT', 'Too slow')
+    expect(toDocumentViewerError(timeout, 'CONVERSION_FAILED')).toBe(timeout)
+  })
+})
+
+describe('isRetryableError', () => {
+  it('allows retrying transient failures only', () => {
+    expect(isRetryableError(new DocumentViewerError('DOWNLOAD_FAILED', ''))).toBe(true)
+    expect(isRetryableError(new DocumentViewerError('CONVERSION_TIMEOUT', ''))).toBe(true)
+    expect(isRetryableError(new DocumentViewerError('ENCRYPTED_DOCUMENT', ''))).toBe(false)
+    expect(isRetryableError(new DocumentViewerError('INVALID_PACKAGE', ''))).toBe(false)
+  })
+})
@@ -0,0 +1,58 @@
+/** What went wrong, for choosing a message or recovery in custom error screens */
+export type DocumentViewerErrorCode =
+  /** The conversion engine (WASM runtime or worker) failed to load */
+  | 'ENGINE_LOAD_FAILED'
+  /** The file is not a valid Word package (not a ZIP, damaged, or missing required parts) */
+  | 'INVALID_PACKAGE'
+  /** The document is password protected */
+  | 'ENCRYPTED_DOCUMENT'
+  /** The file type isn't accepted, or is a legacy format such as .doc */
+  | 'UNSUPPORTED_FORMAT'
+  /** The file exceeds `maxFileSize` */
+  | 'FILE_TOO_LARGE'
+  /** The document could not be downloaded from its URL */
+  | 'DOWNLOAD_FAILED'
+  /** The converter failed */
+  | 'CONVERSION_FAILED'
+  /** The conversion took longer than `conversionTimeout` */
+  | 'CONVERSION_TIMEOUT'
+  /** Printing failed */
+  | 'PRINT_FAILED'
+  /** Tracked changes could not be read (warning) */
+  | 'REVISION_EXTRACTION_FAILED'
+  /** Page size metadata could not be read (warning) */
+  | 'METADATA_EXTRACTION_FAILED'
+  /** Reading or writing the conversion cache failed (warning) */
+  | 'CACHE_FAILED'
+  /** Saving settings or the reading position failed (warning) */
+  | 'PERSISTENCE_FAILED';
+
+/** Error reported by DocumentViewer through `onError`, `onWarning` and `renderError` */
+export class DocumentViewerError extends Error {
+  readonly code: DocumentViewerErrorCode;
+
+  constructor(code: DocumentViewerErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'DocumentViewerError';
+    this.code = code;
+  }
+}
+
+/** Wrap any thrown value in a DocumentViewerError with `code`, keeping existing DocumentViewerErrors as they are */
+export function toDocumentViewerError(err: unknown, code: DocumentViewerErrorCode): DocumentViewerError {
+  if (err instanceof DocumentViewerError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  return new DocumentViewerError(code, message, { cause: err });
+}
+
+const RETRYABLE_CODES: ReadonlySet<DocumentViewerErrorCode> = new Set([
+  'ENGINE_LOAD_FAILED',
+  'DOWNLOAD_FAILED',
+  'CONVERSION_FAILED',
+  'CONVERSION_TIMEOUT',
+]);
+
+/** Whether trying again might succeed (a problem with the file itself won't go away) */
+export function isRetryableError(error: DocumentViewerError): boolean {
+  return RETRYABLE_CODES.has(error.code);
+}
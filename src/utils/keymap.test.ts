@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_KEY_BINDINGS, matchesShortcut, resolveKeyBindings, findAction, formatShortcut, isEditableTarget } from './keymap'
+
+function key(init: KeyboardEventInit) {
+  return new KeyboardEvent('keydown', init)
+}
+
+describe('matchesShortcut', () => {
+  it('matches keys case-insensitively with exact modifiers', () => {
+    expect(matchesShortcut(key({ key: 'PageDown' }), 'PageDown')).toBe(true)
+    expect(matchesShortcut(key({ key: 'D' }), 'd')).toBe(true)
+    expect(matchesShortcut(key({ key: 'd', ctrlKey: true }), 'D')).toBe(false)
+    expect(matchesShortcut(key({ key: 'PageDown', shiftKey: true }), 'PageDown')).toBe(false)
+  })
+
+  it('resolves Mod to Cmd on Apple platforms and Ctrl elsewhere', () => {
+    expect(matchesShortcut(key({ key: 'f', metaKey: true }), 'Mod+F', true)).toBe(true)
+    expect(matchesShortcut(key({ key: 'f', ctrlKey: true }), 'Mod+F', true)).toBe(false)
+    expect(matchesShortcut(key({ key: 'f', ctrlKey: true }), 'Mod+F', false)).toBe(true)
+  })
+
+  it('ignores Shift for symbols typed with it', () => {
+    expect(matchesShortcut(key({ key: '?', shiftKey: true }), '?')).toBe(true)
+    expect(matchesShortcut(key({ key: '+', shiftKey: true }), '+')).toBe(true)
+    expect(matchesShortcut(key({ key: '+', ctrlKey: true }), 'Ctrl++')).toBe(true)
+  })
+})
+
+describe('resolveKeyBindings', () => {
+  it('merges overrides and disables actions set to null', () => {
+    const bindings = resolveKeyBindings({ nextPage: 'j', showChanges: null, zoomIn: ['Mod+=', 'Mod++'] })
+    expect(bindings.nextPage).toEqual(['j'])
+    expect(bindings.showChanges).toEqual([])
+    expect(bindings.zoomIn).toEqual(['Mod+=', 'Mod++'])
+    expect(bindings.previousPage).toEqual(DEFAULT_KEY_BINDINGS.previousPage)
+  })
+})
+
+describe('findAction', () => {
+  it('returns the action bound to an event', () => {
+    const bindings = resolveKeyBindings()
+    expect(findAction(key({ key: 'End' }), bindings)).toBe('lastPage')
+    expect(findAction(key({ key: 'x' }), bindings)).toBeNull()
+  })
+})
+
+describe('formatShortcut', () => {
+  it('uses platform conventions', () => {
+    expect(formatShortcut('Mod+F', false)).toBe('Ctrl+F')
+    expect(formatShortcut('Mod+F', true)).toBe('⌘F')
+    expect(formatShortcut('PageDown', false)).toBe('PageDown')
+  })
+})
+
+describe('isEditableTarget', () => {
+  it('detects form fields', () => {
+    expect(isEditableTarget(document.createElement('input'))).toBe(true)
+    expect(isEditableTarget(document.createElement('div'))).toBe(false)
+  })
+})
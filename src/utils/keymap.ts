@@ -0,0 +1,126 @@
+import type { KeyBindings, ViewerAction } from '../types';
+
+export const DEFAULT_KEY_BINDINGS: Record<ViewerAction, string[]> = {
+  nextPage: ['PageDown'],
+  previousPage: ['PageUp'],
+  firstPage: ['Home'],
+  lastPage: ['End'],
+  zoomIn: ['+', '='],
+  zoomOut: ['-'],
+  resetZoom: ['0'],
+  focusSearch: ['Mod+F'],
+  print: ['Mod+P'],
+  closeDialog: ['Escape'],
+  showDocument: ['D'],
+  showChanges: ['C'],
+  showSplit: ['S'],
+  showShortcuts: ['?'],
+};
+
+/** Descriptions shown in the shortcuts help overlay, in display order */
+export const ACTION_LABELS: Record<ViewerAction, string> = {
+  nextPage: 'Next page',
+  previousPage: 'Previous page',
+  firstPage: 'First page',
+  lastPage: 'Last page',
+  zoomIn: 'Zoom in',
+  zoomOut: 'Zoom out',
+  resetZoom: 'Reset zoom to 100%',
+  focusSearch: 'Search document',
+  print: 'Print',
+  closeDialog: 'Close dialog',
+  showDocument: 'Show document',
+  showChanges: 'Show tracked changes',
+  showSplit: 'Show document and changes side by side',
+  showShortcuts: 'Show keyboard shortcuts',
+};
+
+interface ParsedShortcut {
+  key: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+export function isApplePlatform(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform);
+}
+
+function parseShortcut(shortcut: string, apple: boolean): ParsedShortcut {
+  // A trailing '+' is the plus key itself ('+', 'Mod++')
+  const endsWithPlus = shortcut.endsWith('+');
+  const parts = (endsWithPlus ? shortcut.slice(0, -1) : shortcut).split('+').filter(Boolean);
+  const key = endsWithPlus ? '+' : parts.pop() ?? '';
+  const modifiers = new Set(parts.map((part) => part.toLowerCase()));
+  const mod = modifiers.has('mod');
+
+  return {
+    key: key.toLowerCase(),
+    ctrl: modifiers.has('ctrl') || (mod && !apple),
+    alt: modifiers.has('alt'),
+    shift: modifiers.has('shift'),
+    meta: modifiers.has('meta') || (mod && apple),
+  };
+}
+
+// Symbols such as '?' and '+' need Shift on most layouts, so Shift is only compared for
+// letters and named keys (e.g. 'Shift+PageDown')
+function shiftMatters(key: string): boolean {
+  return key.length > 1 || /^[a-z]$/.test(key);
+}
+
+export function matchesShortcut(event: KeyboardEvent | React.KeyboardEvent, shortcut: string, apple = isApplePlatform()): boolean {
+  const parsed = parseShortcut(shortcut, apple);
+  return (
+    event.key.toLowerCase() === parsed.key &&
+    event.ctrlKey === parsed.ctrl &&
+    event.altKey === parsed.alt &&
+    event.metaKey === parsed.meta &&
+    (!shiftMatters(parsed.key) || event.shiftKey === parsed.shift)
+  );
+}
+
+/** Merge user overrides over the defaults; null disables an action */
+export function resolveKeyBindings(overrides?: KeyBindings): Record<ViewerAction, string[]> {
+  const resolved = { ...DEFAULT_KEY_BINDINGS };
+  if (!overrides) return resolved;
+
+  for (const [action, binding] of Object.entries(overrides) as [ViewerAction, string | string[] | null | undefined][]) {
+    if (binding === undefined) continue;
+    resolved[action] = binding === null ? [] : Array.isArray(binding) ? binding : [binding];
+  }
+  return resolved;
+}
+
+/** The action bound to a key event, if any */
+export function findAction(
+  event: KeyboardEvent | React.KeyboardEvent,
+  bindings: Record<ViewerAction, string[]>
+): ViewerAction | null {
+  const apple = isApplePlatform();
+  for (const [action, shortcuts] of Object.entries(bindings) as [ViewerAction, string[]][]) {
+    if (shortcuts.some((shortcut) => matchesShortcut(event, shortcut, apple))) {
+      return action;
+    }
+  }
+  return null;
+}
+
+/** Human-readable form of a shortcut, e.g. 'Mod+F' becomes '⌘F' on macOS and 'Ctrl+F' elsewhere */
+export function formatShortcut(shortcut: string, apple = isApplePlatform()): string {
+  const parsed = parseShortcut(shortcut, apple);
+  const key = parsed.key.length === 1 ? parsed.key.toUpperCase() : shortcut.slice(shortcut.lastIndexOf('+') + 1);
+  if (apple) {
+    return `${parsed.ctrl ? '⌃' : ''}${parsed.alt ? '⌥' : ''}${parsed.shift ? '⇧' : ''}${parsed.meta ? '⌘' : ''}${key}`;
+  }
+  return [parsed.ctrl && 'Ctrl', parsed.alt && 'Alt', parsed.shift && 'Shift', parsed.meta && 'Meta', key]
+    .filter(Boolean)
+    .join('+');
+}
+
+/** Whether typing into `target` should take precedence over single-key shortcuts */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { loadDocumentSource, isSameSource, formatBytes } from './loadDocumentSource'
+
+function streamResponse(chunks: Uint8Array[], init: ResponseInit = {}) {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk))
+      controller.close()
+    },
+  })
+  return new Response(body, init)
+}
+
+function readBytes(file: Blob) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+describe('loadDocumentSource', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('wraps an ArrayBuffer in a File', async () => {
+    const bytes = new Uint8Array([1, 2, 3])
+    const file = await loadDocumentSource(bytes.buffer)
+    expect(file.name).toBe('document.docx')
+    expect(await readBytes(file)).toEqual(bytes)
+  })
+
+  it('wraps a Uint8Array in a File', async () => {
+    const file = await loadDocumentSource(new Uint8Array([4, 5]))
+    expect(await readBytes(file)).toEqual(new Uint8Array([4, 5]))
+  })
+
+  it('returns File sources unchanged', async () => {
+    const original = new File(['x'], 'contract.docx')
+    expect(await loadDocumentSource(original)).toBe(original)
+  })
+
+  it('downloads URLs with headers and reports progress', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      streamResponse([new Uint8Array([1, 2]), new Uint8Array([3, 4, 5])], {
+        headers: { 'Content-Length': '5' },
+      })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+    const onProgress = vi.fn()
+
+    const file = await loadDocumentSource(
+      { url: 'https://example.com/files/My%20Contract.docx', headers: { Authorization: 'Bearer t' } },
+      { onProgress }
+    )
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://example.com/files/My%20Contract.docx',
+      expect.objectContaining({ headers: { Authorization: 'Bearer t' } })
+    )
+    expect(file.name).toBe('My Contract.docx')
+    expect(await readBytes(file)).toEqual(new Uint8Array([1, 2, 3, 4, 5]))
+    expect(onProgress).toHaveBeenNthCalledWith(1, { loaded: 0, total: 5 })
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 5, total: 5 })
+  })
+
+  it('reports a null total when Content-Length is missing', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([new Uint8Array([1])])))
+    const onProgress = vi.fn()
+
+    await loadDocumentSource('/doc.docx', { onProgress })
+
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 1, total: null })
+  })
+
+  it('throws on HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('nope', { status: 404 })))
+    await expect(loadDocumentSource('/missing.docx')).rejects.toThrow('Failed to download document: 404')
+  })
+
+  it('does not fetch when the signal is already aborted', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(loadDocumentSource('/doc.docx', { signal: controller.signal })).rejects.toThrow()
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('isSameSource', () => {
+  it('compares URL sources by their request', () => {
+    expect(isSameSource('https://example.com/a.docx', { url: 'https://example.com/a.docx' })).toBe(true)
+    expect(isSameSource(
+      { url: '/doc', headers: { Authorization: 'Bearer t' }, credentials: 'include' },
+      { url: '/doc', headers: { Authorization: 'Bearer t' }, credentials: 'include' }
+    )).toBe(true)
+    expect(isSameSource({ url: '/doc' }, { url: '/other' })).toBe(false)
+    expect(isSameSource({ url: '/doc', headers: { Authorization: 'Bearer t' } }, { url: '/doc', headers: { Authorization: 'Bearer u' } })).toBe(false)
+    expect(isSameSource({ url: '/doc' }, { url: '/doc', credentials: 'include' })).toBe(false)
+    expect(isSameSource({ url: '/doc' }, { url: '/doc', fileName: 'contract.docx' })).toBe(false)
+  })
+
+  it('compares in-memory sources by identity', () => {
+    const bytes = new Uint8Array([1, 2])
+    expect(isSameSource(bytes, bytes)).toBe(true)
+    expect(isSameSource(bytes, new Uint8Array([1, 2]))).toBe(false)
+    expect(isSameSource(new Blob(['x']), new Blob(['x']))).toBe(false)
+    expect(isSameSource(bytes, null)).toBe(false)
+  })
+})
+
+describe('formatBytes', () => {
+  it('formats bytes, kilobytes and megabytes', () => {
+    expect(formatBytes(512)).toBe('512 B')
+    expect(formatBytes(2048)).toBe('2.0 KB')
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB')
+  })
+})
@@ -0,0 +1,138 @@
+import type { DocumentSource, DocumentUrlSource, LoadProgress } from '../types';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const DEFAULT_FILE_NAME = 'document.docx';
+
+export interface LoadDocumentSourceOptions {
+  /** Aborts the download (or any pending read) when signalled */
+  signal?: AbortSignal;
+  /** Called as bytes arrive; `total` is null when the server sends no Content-Length */
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+// Derive a display name from the last path segment of a URL
+function getFileNameFromUrl(url: string): string {
+  try {
+    const base = typeof window !== 'undefined' ? window.location.href : undefined;
+    const segment = new URL(url, base).pathname.split('/').pop();
+    return segment ? decodeURIComponent(segment) : DEFAULT_FILE_NAME;
+  } catch {
+    return DEFAULT_FILE_NAME;
+  }
+}
+
+function getContentLength(response: Response): number | null {
+  const header = response.headers.get('Content-Length');
+  if (!header) return null;
+  const length = parseInt(header, 10);
+  return isNaN(length) ? null : length;
+}
+
+async function fetchDocument(
+  source: DocumentUrlSource,
+  { signal, onProgress }: LoadDocumentSourceOptions
+): Promise<File> {
+  const response = await fetch(source.url, {
+    headers: source.headers,
+    credentials: source.credentials,
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to download document: ${response.status} ${response.statusText}`.trim());
+  }
+
+  const fileName = source.fileName || getFileNameFromUrl(source.url);
+  const total = getContentLength(response);
+  onProgress?.({ loaded: 0, total });
+
+  // Servers and polyfills without streaming support: read in one go
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onProgress?.({ loaded: buffer.byteLength, total });
+    return new File([buffer], fileName, { type: DOCX_MIME_TYPE });
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let loaded = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      signal?.throwIfAborted();
+      chunks.push(value);
+      loaded += value.byteLength;
+      onProgress?.({ loaded, total });
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return new File(chunks, fileName, { type: DOCX_MIME_TYPE });
+}
+
+/**
+ * Resolve a document source into a File that can be fed into the conversion pipeline.
+ * URLs are downloaded with streamed progress; in-memory sources are wrapped without a copy
+ * where possible.
+ */
+export async function loadDocumentSource(
+  source: DocumentSource,
+  options: LoadDocumentSourceOptions = {}
+): Promise<File> {
+  options.signal?.throwIfAborted();
+
+  if (typeof source === 'string') {
+    return fetchDocument({ url: source }, options);
+  }
+  if (source instanceof File) {
+    return source;
+  }
+  if (source instanceof Blob) {
+    return new File([source], DEFAULT_FILE_NAME, { type: source.type || DOCX_MIME_TYPE });
+  }
+  if (source instanceof ArrayBuffer) {
+    return new File([source], DEFAULT_FILE_NAME, { type: DOCX_MIME_TYPE });
+  }
+  if (source instanceof Uint8Array) {
+    // Copy so the File owns a plain ArrayBuffer (the view may be backed by a SharedArrayBuffer)
+    return new File([new Uint8Array(source)], DEFAULT_FILE_NAME, { type: DOCX_MIME_TYPE });
+  }
+  return fetchDocument(source, options);
+}
+
+// The request a URL source stands for, or null for in-memory sources
+function toUrlSource(source: DocumentSource): DocumentUrlSource | null {
+  if (typeof source === 'string') return { url: source };
+  if (source instanceof Blob || source instanceof ArrayBuffer || source instanceof Uint8Array) return null;
+  return source;
+}
+
+function isSameHeaders(a: Record<string, string> = {}, b: Record<string, string> = {}): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+/**
+ * Whether two sources load the same document, so a new `{ url, headers }` object passed on
+ * every render doesn't download it again. URL sources are compared by their request; bytes
+ * and Blobs by identity.
+ */
+export function isSameSource(a: DocumentSource | null | undefined, b: DocumentSource | null | undefined): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  const urlA = toUrlSource(a);
+  const urlB = toUrlSource(b);
+  return !!urlA && !!urlB &&
+    urlA.url === urlB.url &&
+    urlA.credentials === urlB.credentials &&
+    urlA.fileName === urlB.fileName &&
+    isSameHeaders(urlA.headers, urlB.headers);
+}
+
+/** Human-readable byte count for progress display */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
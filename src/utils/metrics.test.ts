@@ -0,0 +1,34 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { startMeasure, formatDuration } from './metrics'
+
+describe('startMeasure', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    performance.clearMeasures()
+    performance.clearMarks()
+  })
+
+  it('returns the duration and records a performance measure', () => {
+    const measure = vi.spyOn(performance, 'measure')
+    const finish = startMeasure('conversion')
+    const duration = finish()
+
+    expect(duration).toBeGreaterThanOrEqual(0)
+    expect(measure).toHaveBeenCalledWith('rdv:conversion', expect.anything())
+    expect((measure.mock.results[0].value as PerformanceMeasure).duration).toBeCloseTo(duration)
+  })
+
+  it('clears its entries from the performance timeline', () => {
+    startMeasure('conversion')()
+    startMeasure('pagination')()
+
+    expect(performance.getEntries().filter((entry) => entry.name.startsWith('rdv:'))).toEqual([])
+  })
+})
+
+describe('formatDuration', () => {
+  it('uses milliseconds below a second and seconds above', () => {
+    expect(formatDuration(849.6)).toBe('850 ms')
+    expect(formatDuration(2400)).toBe('2.4 s')
+  })
+})
@@ -0,0 +1,39 @@
+// Prefix for User Timing entries, so the viewer's phases are easy to find in browser profiles
+const MEASURE_PREFIX = 'rdv:';
+
+function mark(name: string): number {
+  try {
+    // Older browsers return undefined from mark()
+    return performance.mark(name)?.startTime ?? performance.now();
+  } catch {
+    return performance.now();
+  }
+}
+
+/**
+ * Start timing a phase. The returned function ends it, records a `rdv:<phase>` measure
+ * (visible in a performance recording and to PerformanceObservers) and returns the duration
+ * in milliseconds. The entries are cleared from the timeline again, so a long session
+ * doesn't keep collecting one set per document.
+ */
+export function startMeasure(phase: string): () => number {
+  const name = MEASURE_PREFIX + phase;
+  const start = mark(`${name}:start`);
+  return () => {
+    const end = mark(`${name}:end`);
+    try {
+      performance.measure(name, { start, end });
+      performance.clearMarks(`${name}:start`);
+      performance.clearMarks(`${name}:end`);
+      performance.clearMeasures(name);
+    } catch {
+      // User Timing is unavailable; the duration is still reported
+    }
+    return end - start;
+  };
+}
+
+/** Format a duration for display, e.g. "850 ms" or "2.4 s" */
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { buildOutline, flattenOutline, getActiveOutlineId, OUTLINE_ID_ATTRIBUTE } from './outline'
+
+function renderPages(...pages: string[]) {
+  const container = document.createElement('div')
+  container.innerHTML = pages
+    .map((content, i) => `<div data-page-number="${i + 1}">${content}</div>`)
+    .join('')
+  return Array.from(container.querySelectorAll<HTMLElement>('[data-page-number]'))
+}
+
+describe('buildOutline', () => {
+  it('nests headings by level with their page numbers', () => {
+    const pages = renderPages(
+      '<h1>Definitions</h1><p>text</p><h2>Terms</h2>',
+      '<h2>Interpretation</h2><h3>Headings</h3>',
+      '<h1>Payment</h1>'
+    )
+
+    const outline = buildOutline(pages)
+
+    expect(outline.map((item) => item.text)).toEqual(['Definitions', 'Payment'])
+    expect(outline[0].children.map((item) => [item.text, item.pageNumber])).toEqual([
+      ['Terms', 1],
+      ['Interpretation', 2],
+    ])
+    expect(outline[0].children[1].children[0]).toMatchObject({ text: 'Headings', level: 3, pageNumber: 2 })
+    expect(outline[1].pageNumber).toBe(3)
+  })
+
+  it('keeps headings that skip levels under the nearest shallower heading', () => {
+    const outline = buildOutline(renderPages('<h1>A</h1><h3>B</h3><h2>C</h2>'))
+    expect(outline[0].children.map((item) => item.text)).toEqual(['B', 'C'])
+  })
+
+  it('starts at the top level when the first heading is not level 1', () => {
+    const outline = buildOutline(renderPages('<h2>Recitals</h2><h1>Agreement</h1>'))
+    expect(outline.map((item) => item.text)).toEqual(['Recitals', 'Agreement'])
+  })
+
+  it('skips empty headings and tags heading elements with their id', () => {
+    const pages = renderPages('<h1>  </h1><h1>Real  heading</h1>')
+    const outline = buildOutline(pages)
+
+    expect(outline).toHaveLength(1)
+    expect(outline[0].text).toBe('Real heading')
+    expect(pages[0].querySelector(`[${OUTLINE_ID_ATTRIBUTE}="${outline[0].id}"]`)?.textContent).toBe('Real  heading')
+  })
+})
+
+describe('getActiveOutlineId', () => {
+  const outline = buildOutline(renderPages('<h1>One</h1>', '<p>body</p>', '<h1>Three</h1><h2>Three.1</h2>'))
+  const [one, three, threeOne] = flattenOutline(outline)
+
+  it('returns the last heading at or before the current page', () => {
+    expect(getActiveOutlineId(outline, 1)).toBe(one.id)
+    expect(getActiveOutlineId(outline, 2)).toBe(one.id)
+    expect(getActiveOutlineId(outline, 3)).toBe(threeOne.id)
+    expect(three.text).toBe('Three')
+  })
+
+  it('returns null before the first heading', () => {
+    const late = buildOutline(renderPages('<p>cover</p>', '<h1>Start</h1>'))
+    expect(getActiveOutlineId(late, 1)).toBeNull()
+  })
+})
@@ -0,0 +1,65 @@
+import type { OutlineItem } from '../types';
+
+/** Attribute set on heading elements so outline items can find them again */
+export const OUTLINE_ID_ATTRIBUTE = 'data-rdv-outline-id';
+
+// The converter emits h1-h6 for paragraphs whose style has an outline level (Heading 1-6)
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+/**
+ * Build a hierarchical outline from the headings in the rendered pages.
+ * Each page must carry a `data-page-number` attribute (as rendered by PaginatedDocument).
+ */
+export function buildOutline(pages: Iterable<HTMLElement>): OutlineItem[] {
+  const roots: OutlineItem[] = [];
+  const stack: OutlineItem[] = [];
+  let nextId = 0;
+
+  for (const page of pages) {
+    const pageNumber = parseInt(page.dataset.pageNumber || '0', 10);
+
+    page.querySelectorAll<HTMLElement>(HEADING_SELECTOR).forEach((heading) => {
+      const text = (heading.textContent || '').replace(/\s+/g, ' ').trim();
+      if (!text) return;
+
+      const id = `outline-${nextId++}`;
+      heading.setAttribute(OUTLINE_ID_ATTRIBUTE, id);
+      const item: OutlineItem = {
+        id,
+        text,
+        level: parseInt(heading.tagName.substring(1), 10),
+        pageNumber,
+        children: [],
+      };
+
+      // Pop until the top of the stack is a shallower heading (the new item's parent)
+      while (stack.length > 0 && stack[stack.length - 1].level >= item.level) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(item);
+      } else {
+        roots.push(item);
+      }
+      stack.push(item);
+    });
+  }
+
+  return roots;
+}
+
+/** Flatten an outline into document order */
+export function flattenOutline(items: OutlineItem[]): OutlineItem[] {
+  return items.flatMap((item) => [item, ...flattenOutline(item.children)]);
+}
+
+/** The section the reader is in: the last heading at or before the current page */
+export function getActiveOutlineId(items: OutlineItem[], currentPage: number): string | null {
+  let activeId: string | null = null;
+  for (const item of flattenOutline(items)) {
+    if (item.pageNumber > currentPage) break;
+    activeId = item.id;
+  }
+  return activeId;
+}
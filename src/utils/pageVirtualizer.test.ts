@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { PaginationResult } from 'docxodus/react'
+import { createPageContentStore, PAGE_PLACEHOLDER_CLASS, readPageBox } from './pageVirtualizer'
+import { buildSearchPattern, highlightMatches, DEFAULT_SEARCH_OPTIONS } from './search'
+
+type PageInfo = PaginationResult['pages'][number]
+
+function renderPages(...contents: string[]) {
+  const container = document.createElement('div')
+  container.innerHTML = contents
+    .map((content, i) => `<div class="page-box" style="width: 612pt; height: 792pt; transform: scale(0.5)" data-page-number="${i + 1}">${content}</div>`)
+    .join('')
+  document.body.appendChild(container)
+  const dimensions = { pageWidth: 612, pageHeight: 792 } as PageInfo['dimensions']
+  const pages = Array.from(container.children, (element, i) => (
+    { pageNumber: i + 1, sectionIndex: 0, dimensions, element: element as HTMLElement }
+  ))
+  return { container, pages }
+}
+
+describe('createPageContentStore', () => {
+  beforeEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('replaces a page with an empty placeholder of its size', () => {
+    const { container, pages } = renderPages('<p>One</p>', '<p>Two</p>')
+    const store = createPageContentStore()
+
+    const placeholder = store.unmountPage(pages[1])!
+
+    expect(container).not.toContainElement(pages[1].element)
+    expect(container).not.toHaveTextContent('Two')
+    expect(placeholder).toBe(container.querySelector('[data-page-number="2"]'))
+    expect(placeholder).toBeEmptyDOMElement()
+    expect(placeholder).toHaveClass('page-box', PAGE_PLACEHOLDER_CLASS)
+    expect(placeholder.style.width).toBe('612pt')
+    expect(placeholder.style.height).toBe('792pt')
+    expect(placeholder.style.transform).toBe('scale(0.5)')
+    expect(store.unmountPage(pages[1])).toBeNull()
+  })
+
+  it('reads pages outside the window from copies of their HTML', () => {
+    const { container, pages } = renderPages('<p>Alpha</p>', '<p>Beta gamma</p>')
+    const store = createPageContentStore()
+    store.unmountPage(pages[1])
+
+    const [first, second] = store.pages(container)
+    expect(first).toBe(pages[0].element)
+    expect(second.isConnected).toBe(false)
+    expect(second.dataset.pageNumber).toBe('2')
+    expect(store.page(pages[1].element)).toHaveTextContent('Beta gamma')
+
+    const hits = highlightMatches(store.pages(container), buildSearchPattern('gamma', DEFAULT_SEARCH_OPTIONS)!)
+    expect(hits).toHaveLength(1)
+    expect(hits[0].pageNumber).toBe(2)
+  })
+
+  it('renders a page again in place of its placeholder', () => {
+    const { container, pages } = renderPages('<p>One</p>', '<p>Two</p>')
+    const store = createPageContentStore()
+    const listener = vi.fn()
+    const stop = store.onPageMount(listener)
+    const placeholder = store.unmountPage(pages[1])
+
+    store.mountPage(container, 2)
+    expect(container.querySelector('[data-page-number="2"]')).toBe(pages[1].element)
+    expect(pages[1].element).toHaveTextContent('Two')
+    expect(container).not.toContainElement(placeholder)
+    expect(listener).toHaveBeenCalledWith(pages[1].element)
+
+    // The page keeps its placeholder for the next time it leaves the window
+    expect(store.unmountPage(pages[1])).toBe(placeholder)
+    stop()
+    store.mountPage(container, 2)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('finds elements on pages outside the window and renders their page', () => {
+    const { container, pages } = renderPages('<p>One</p>', '<p id="note-1">Footnote</p>')
+    const store = createPageContentStore()
+    store.unmountPage(pages[1])
+
+    const element = store.querySelector(container, '#note-1')
+    expect(element).toHaveTextContent('Footnote')
+    expect(container).toContainElement(element)
+    expect(store.querySelector(container, '#missing')).toBeNull()
+  })
+
+  it('renders every page', () => {
+    const { container, pages } = renderPages('<p>One</p>', '<p>Two</p>', '<p>Three</p>')
+    const store = createPageContentStore()
+    store.unmountPage(pages[0])
+    store.unmountPage(pages[2])
+
+    store.mountAll(container)
+    expect(container).toHaveTextContent('OneTwoThree')
+    expect(container.querySelectorAll(`.${PAGE_PLACEHOLDER_CLASS}`)).toHaveLength(0)
+  })
+
+  it('reads page info from a page box', () => {
+    const { pages } = renderPages('<p>One</p>', '<p>Two</p>')
+
+    const page = readPageBox(pages[1].element)
+    expect(page).toEqual({ element: pages[1].element, pageNumber: 2, dimensions: { pageWidth: 612, pageHeight: 792 } })
+    const store = createPageContentStore()
+    expect(store.unmountPage(page)?.style.height).toBe('792pt')
+  })
+})
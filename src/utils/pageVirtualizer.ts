@@ -0,0 +1,161 @@
+import type { PaginationResult } from 'docxodus/react';
+
+type PageInfo = PaginationResult['pages'][number];
+
+/** A page the store can stand in for; pagination's page info is one */
+export interface PageBox {
+  element: HTMLElement;
+  pageNumber: number;
+  dimensions: Pick<PageInfo['dimensions'], 'pageWidth' | 'pageHeight'>;
+}
+
+/** Class of the empty boxes standing in for pages outside the rendered window */
+export const PAGE_PLACEHOLDER_CLASS = 'rdv-page-placeholder';
+
+/**
+ * Renders only the pages near the viewport. A page outside the window is replaced by an
+ * empty placeholder of the same size, so the scroll height doesn't change, and its content
+ * is kept as HTML until the page is rendered again.
+ */
+export interface PageVirtualizer {
+  /**
+   * Every page with its content: the page box when rendered, otherwise a detached copy
+   * built from its HTML. Changes made to a copy are not kept.
+   */
+  pages: () => HTMLElement[];
+  /** The page box itself when rendered, otherwise a detached copy with its content */
+  page: (box: HTMLElement) => HTMLElement;
+  /** Render a page in place of its placeholder, e.g. before scrolling to something on it */
+  mountPage: (pageNumber: number) => void;
+  /** First element matching `selector` on any page. Its page is rendered so it can be scrolled to. */
+  querySelector: (selector: string) => HTMLElement | null;
+  /** Call `listener` with every page box rendered again. Returns a function removing it. */
+  onPageMount: (listener: (box: HTMLElement) => void) => () => void;
+}
+
+/**
+ * Virtualizer operations taking the container of the rendered pages as their first argument,
+ * so a component can keep one store while its container element comes and goes.
+ */
+export interface PageContentStore {
+  pages: (container: HTMLElement | null) => HTMLElement[];
+  page: (box: HTMLElement) => HTMLElement;
+  mountPage: (container: HTMLElement | null, pageNumber: number) => void;
+  /** Replace a page with its placeholder. Returns the placeholder, or null when the page isn't rendered. */
+  unmountPage: (page: PageBox) => HTMLElement | null;
+  mountAll: (container: HTMLElement | null) => void;
+  querySelector: (container: HTMLElement | null, selector: string) => HTMLElement | null;
+  onPageMount: (listener: (box: HTMLElement) => void) => () => void;
+}
+
+interface UnmountedPage {
+  /** The emptied page box, put back when the page is rendered again */
+  box: HTMLElement;
+  html: string;
+  placeholder: HTMLElement;
+}
+
+// Pages and placeholders both carry data-page-number
+const getBoxes = (container: HTMLElement | null) =>
+  Array.from(container?.querySelectorAll<HTMLElement>('[data-page-number]') ?? []);
+const getBox = (container: HTMLElement | null, pageNumber: number) =>
+  container?.querySelector<HTMLElement>(`[data-page-number="${pageNumber}"]`) ?? null;
+
+// Inline styles pagination scales and spaces each page box with
+const SCALING_PROPERTIES = ['zoom', 'transform', 'transform-origin', 'margin-right', 'margin-bottom'];
+
+function createPlaceholder({ element: box, pageNumber, dimensions }: PageBox): HTMLElement {
+  const placeholder = document.createElement('div');
+  placeholder.className = `${box.className} ${PAGE_PLACEHOLDER_CLASS}`.trim();
+  placeholder.dataset.pageNumber = String(pageNumber);
+  placeholder.style.width = `${dimensions.pageWidth}pt`;
+  placeholder.style.height = `${dimensions.pageHeight}pt`;
+  // Scaled and spaced like the page it stands in for
+  SCALING_PROPERTIES.forEach((property) => {
+    placeholder.style.setProperty(property, box.style.getPropertyValue(property));
+  });
+  return placeholder;
+}
+
+/**
+ * Page info for a page box pagination has just laid out, before its results are reported.
+ * Pagination sizes each box from its page dimensions in points.
+ */
+export function readPageBox(element: HTMLElement): PageBox {
+  return {
+    element,
+    pageNumber: parseInt(element.dataset.pageNumber || '0', 10),
+    dimensions: { pageWidth: parseFloat(element.style.width), pageHeight: parseFloat(element.style.height) },
+  };
+}
+
+function createCopy({ box, html }: UnmountedPage): HTMLElement {
+  const copy = box.cloneNode(false) as HTMLElement;
+  copy.innerHTML = html;
+  return copy;
+}
+
+export function createPageContentStore(): PageContentStore {
+  // Pages outside the window, by both their page box and their placeholder
+  const unmounted = new WeakMap<HTMLElement, UnmountedPage>();
+  // Each page keeps its placeholder, so an observer only has to watch it once
+  const placeholders = new WeakMap<HTMLElement, HTMLElement>();
+  const listeners = new Set<(box: HTMLElement) => void>();
+
+  const mount = (element: HTMLElement) => {
+    const page = unmounted.get(element);
+    if (!page) return;
+    unmounted.delete(page.box);
+    unmounted.delete(page.placeholder);
+    page.box.innerHTML = page.html;
+    page.placeholder.replaceWith(page.box);
+    listeners.forEach((listener) => listener(page.box));
+  };
+
+  return {
+    pages: (container) => getBoxes(container).map((element) => {
+      const page = unmounted.get(element);
+      return page ? createCopy(page) : element;
+    }),
+    page: (box) => {
+      const page = unmounted.get(box);
+      return page ? createCopy(page) : box;
+    },
+    mountPage: (container, pageNumber) => {
+      const element = getBox(container, pageNumber);
+      if (element) mount(element);
+    },
+    unmountPage: (info) => {
+      const box = info.element;
+      if (!box.isConnected || unmounted.has(box)) return null;
+      const placeholder = placeholders.get(box) ?? createPlaceholder(info);
+      placeholders.set(box, placeholder);
+      const page = { box, html: box.innerHTML, placeholder };
+      box.replaceWith(page.placeholder);
+      box.replaceChildren();
+      unmounted.set(box, page);
+      unmounted.set(page.placeholder, page);
+      return page.placeholder;
+    },
+    mountAll: (container) => getBoxes(container).forEach(mount),
+    querySelector: (container, selector) => {
+      for (const element of getBoxes(container)) {
+        const page = unmounted.get(element);
+        if (!page) {
+          const match = element.querySelector<HTMLElement>(selector);
+          if (match) return match;
+        } else if (createCopy(page).querySelector(selector)) {
+          mount(element);
+          return page.box.querySelector<HTMLElement>(selector);
+        }
+      }
+      return null;
+    },
+    onPageMount: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
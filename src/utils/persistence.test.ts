@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_SETTINGS } from '../types'
+import type { PersistenceStorage } from '../types'
+import { createViewerPersistence, migrateSettings, SETTINGS_VERSION } from './persistence'
+
+function createStorage(): PersistenceStorage & { values: Map<string, string> } {
+  const values = new Map<string, string>()
+  return {
+    values,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => values.set(key, value),
+    removeItem: (key) => values.delete(key),
+  }
+}
+
+describe('migrateSettings', () => {
+  it('keeps known settings of the right type', () => {
+    const stored = { version: SETTINGS_VERSION, settings: { pageGap: 30, showPageNumbers: 'yes', cssPrefix: 'x-', legacy: 1 } }
+    expect(migrateSettings(stored)).toEqual({ pageGap: 30 })
+  })
+
+  it('drops values that aren\'t among a setting\'s options', () => {
+    const settings = {
+      zoomMode: 'banana',
+      revisionPanelSide: 'top',
+      revisionGroupBy: 'colour',
+      revisionSortOrder: 'random',
+      commentMode: 'footnote',
+      annotationMode: 'toString',
+      backgroundColor: '',
+      renderTrackedChanges: true,
+    }
+    expect(migrateSettings({ version: SETTINGS_VERSION, settings })).toEqual({ renderTrackedChanges: true })
+    expect(migrateSettings({ version: SETTINGS_VERSION, settings: { zoomMode: 'fit-page', commentMode: 'margin' } }))
+      .toEqual({ zoomMode: 'fit-page', commentMode: 'margin' })
+  })
+
+  it('clamps numbers to the ranges the viewer allows', () => {
+    const settings = { paginationScale: -5, pageGap: 1e9, revisionPanelWidth: 95 }
+    expect(migrateSettings({ version: SETTINGS_VERSION, settings }))
+      .toEqual({ paginationScale: 0.3, pageGap: 200, revisionPanelWidth: 80 })
+    expect(migrateSettings({ version: SETTINGS_VERSION, settings: { paginationScale: NaN, pageGap: Infinity } }))
+      .toEqual({})
+  })
+
+  it('upgrades older records one version at a time', () => {
+    const migrations = {
+      1: ({ zoom, ...rest }: Record<string, unknown>) => ({ ...rest, paginationScale: zoom }),
+      2: (settings: Record<string, unknown>) => ({ ...settings, zoomMode: 'custom' }),
+    }
+    expect(migrateSettings({ version: 1, settings: { zoom: 1.5 } }, migrations, 3))
+      .toEqual({ paginationScale: 1.5, zoomMode: 'custom' })
+  })
+
+  it('ignores unreadable and newer records', () => {
+    expect(migrateSettings(null)).toBeNull()
+    expect(migrateSettings({ settings: {} })).toBeNull()
+    expect(migrateSettings({ version: SETTINGS_VERSION + 1, settings: { pageGap: 30 } })).toBeNull()
+  })
+})
+
+describe('createViewerPersistence', () => {
+  it('saves the settings the reader controls', () => {
+    const storage = createStorage()
+    const persistence = createViewerPersistence('viewer', storage)
+    expect(persistence.loadSettings()).toBeNull()
+
+    persistence.saveSettings({ ...DEFAULT_SETTINGS, pageGap: 40, additionalCss: 'p { color: red }' })
+    expect(persistence.loadSettings()).toEqual(expect.objectContaining({ pageGap: 40 }))
+    expect(persistence.loadSettings()).not.toHaveProperty('additionalCss')
+  })
+
+  it('saves reading positions per document', () => {
+    const storage = createStorage()
+    const persistence = createViewerPersistence('viewer', storage)
+
+    persistence.savePosition('abc', { pageNumber: 14, offset: 0.25 })
+    persistence.savePosition('def', { pageNumber: 2, offset: 0 })
+    expect(persistence.loadPosition('abc')).toEqual({ pageNumber: 14, offset: 0.25 })
+    expect(persistence.loadPosition('missing')).toBeNull()
+
+    storage.setItem('viewer:positions', '{not json')
+    expect(persistence.loadPosition('abc')).toBeNull()
+  })
+})
@@ -0,0 +1,179 @@
+import type {
+  PersistenceStorage,
+  ReadingPosition,
+  ViewerSettings,
+  ZoomMode,
+  PanelSide,
+  RevisionGroupBy,
+  RevisionSortOrder,
+  CommentMode,
+  AnnotationMode,
+} from '../types';
+import { MIN_ZOOM, MAX_ZOOM } from './zoom';
+import { MIN_PAGE_GAP, MAX_PAGE_GAP, MIN_REVISION_PANEL_WIDTH, MAX_REVISION_PANEL_WIDTH } from './settings';
+
+// Bump when a persisted setting is renamed or changes meaning, adding a migration from the previous version
+export const SETTINGS_VERSION = 1;
+// Reading positions kept, most recently read documents first
+const MAX_POSITIONS = 100;
+
+/**
+ * Settings the reader changes from the viewer (zoom and the settings panel). Host-level
+ * options such as CSS prefixes or injected CSS always come from props.
+ */
+export const PERSISTED_SETTINGS = [
+  'paginationScale',
+  'zoomMode',
+  'showPageNumbers',
+  'pageGap',
+  'backgroundColor',
+  'revisionPanelWidth',
+  'revisionPanelSide',
+  'revisionGroupBy',
+  'revisionSortOrder',
+  'renderFootnotesAndEndnotes',
+  'renderHeadersAndFooters',
+  'commentMode',
+  'annotationMode',
+  'renderTrackedChanges',
+  'showDeletedContent',
+  'renderMoveOperations',
+] as const satisfies readonly (keyof ViewerSettings)[];
+
+type StoredSettings = Record<string, unknown>;
+type PersistedSetting = typeof PERSISTED_SETTINGS[number];
+
+/** Reads a stored setting: the value to apply, or undefined to drop it */
+type SettingReader<T> = (value: unknown) => T | undefined;
+
+// A record rather than an array so the compiler checks every value is listed
+const oneOf = <T extends string>(values: Record<T, true>): SettingReader<T> =>
+  (value) => (typeof value === 'string' && Object.hasOwn(values, value) ? value as T : undefined);
+
+// Clamped to the range the viewer's controls allow
+const between = (min: number, max: number): SettingReader<number> =>
+  (value) => (typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : undefined);
+
+const readBoolean: SettingReader<boolean> = (value) => (typeof value === 'boolean' ? value : undefined);
+const readString: SettingReader<string> = (value) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+const SETTING_READERS: { [K in PersistedSetting]: SettingReader<ViewerSettings[K]> } = {
+  paginationScale: between(MIN_ZOOM, MAX_ZOOM),
+  zoomMode: oneOf<ZoomMode>({ custom: true, 'fit-width': true, 'fit-page': true }),
+  showPageNumbers: readBoolean,
+  pageGap: between(MIN_PAGE_GAP, MAX_PAGE_GAP),
+  backgroundColor: readString,
+  revisionPanelWidth: between(MIN_REVISION_PANEL_WIDTH, MAX_REVISION_PANEL_WIDTH),
+  revisionPanelSide: oneOf<PanelSide>({ left: true, right: true }),
+  revisionGroupBy: oneOf<RevisionGroupBy>({ none: true, author: true, day: true, type: true, page: true }),
+  revisionSortOrder: oneOf<RevisionSortOrder>({ document: true, newest: true, oldest: true, author: true }),
+  renderFootnotesAndEndnotes: readBoolean,
+  renderHeadersAndFooters: readBoolean,
+  commentMode: oneOf<CommentMode>({ disabled: true, endnote: true, inline: true, margin: true }),
+  annotationMode: oneOf<AnnotationMode>({ disabled: true, above: true, inline: true, tooltip: true, none: true }),
+  renderTrackedChanges: readBoolean,
+  showDeletedContent: readBoolean,
+  renderMoveOperations: readBoolean,
+};
+
+/** Upgrades of stored settings, by the version they upgrade from */
+export type SettingsMigrations = Record<number, (settings: StoredSettings) => StoredSettings>;
+
+const SETTINGS_MIGRATIONS: SettingsMigrations = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Settings from a stored `{ version, settings }` record, upgraded to `version`. Unknown
+ * settings and invalid values are dropped, and numbers are clamped to the ranges the viewer
+ * allows. Returns null for records that aren't readable, including ones written by a newer
+ * version.
+ */
+export function migrateSettings(
+  stored: unknown,
+  migrations: SettingsMigrations = SETTINGS_MIGRATIONS,
+  version = SETTINGS_VERSION
+): Partial<ViewerSettings> | null {
+  if (!isRecord(stored) || typeof stored.version !== 'number' || !isRecord(stored.settings)) return null;
+  if (stored.version > version) return null;
+
+  let values = stored.settings;
+  for (let from = stored.version; from < version; from++) {
+    values = migrations[from]?.(values) ?? values;
+  }
+
+  const settings: Partial<Record<keyof ViewerSettings, unknown>> = {};
+  for (const key of PERSISTED_SETTINGS) {
+    const value = SETTING_READERS[key](values[key]);
+    if (value !== undefined) {
+      settings[key] = value;
+    }
+  }
+  return settings as Partial<ViewerSettings>;
+}
+
+/** Settings and per-document reading positions stored under one key prefix */
+export interface ViewerPersistence {
+  /** Stored settings, or null when there are none (or they can't be read) */
+  loadSettings: () => Partial<ViewerSettings> | null;
+  /** @throws when storage fails, e.g. its quota is exceeded */
+  saveSettings: (settings: ViewerSettings) => void;
+  /** Reading position in the document with content hash `documentHash` */
+  loadPosition: (documentHash: string) => ReadingPosition | null;
+  /** @throws when storage fails */
+  savePosition: (documentHash: string, position: ReadingPosition) => void;
+}
+
+function readJson(storage: PersistenceStorage, key: string): unknown {
+  try {
+    const value = storage.getItem(key);
+    return value === null ? null : JSON.parse(value);
+  } catch {
+    // Unreadable storage or corrupt JSON counts as nothing stored
+    return null;
+  }
+}
+
+function isReadingPosition(value: unknown): value is ReadingPosition {
+  return isRecord(value) && typeof value.pageNumber === 'number' && typeof value.offset === 'number';
+}
+
+export function createViewerPersistence(key: string, storage: PersistenceStorage): ViewerPersistence {
+  const settingsKey = `${key}:settings`;
+  const positionsKey = `${key}:positions`;
+
+  // Positions by document hash, in insertion order from least to most recently saved
+  const readPositions = (): Record<string, ReadingPosition> => {
+    const stored = readJson(storage, positionsKey);
+    return isRecord(stored) ? stored as Record<string, ReadingPosition> : {};
+  };
+
+  return {
+    loadSettings: () => migrateSettings(readJson(storage, settingsKey)),
+    saveSettings: (settings) => {
+      const values = Object.fromEntries(PERSISTED_SETTINGS.map((name) => [name, settings[name]]));
+      storage.setItem(settingsKey, JSON.stringify({ version: SETTINGS_VERSION, settings: values }));
+    },
+    loadPosition: (documentHash) => {
+      const position = readPositions()[documentHash];
+      return isReadingPosition(position) ? position : null;
+    },
+    savePosition: (documentHash, position) => {
+      const positions = readPositions();
+      delete positions[documentHash];
+      positions[documentHash] = position;
+      const kept = Object.entries(positions).slice(-MAX_POSITIONS);
+      storage.setItem(positionsKey, JSON.stringify(Object.fromEntries(kept)));
+    },
+  };
+}
+
+/** localStorage, or null where it is unavailable (e.g. blocked by privacy settings) */
+export function getDefaultPersistenceStorage(): PersistenceStorage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
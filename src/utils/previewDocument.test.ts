@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import type { DocumentMetadata } from 'docxodus'
+import { createPreviewDocument, getPreviewBlockCount, PREVIEW_PAGES } from './previewDocument'
+import { readZipEntries, readZipEntryContent } from './zip'
+import { createZipBytes } from '../test/createZipFile'
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+
+function createDocument(blocks: string[]) {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W}"><w:body>${blocks.join('')}<w:sectPr/></w:body></w:document>`
+  return new File([createZipBytes({ '[Content_Types].xml': '<Types/>', 'word/document.xml': xml })], 'long.docx')
+}
+
+const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`
+
+async function readBody(file: File) {
+  const entry = (await readZipEntries(file))!.find(({ name }) => name === 'word/document.xml')!
+  const xml = new TextDecoder().decode(await readZipEntryContent(file, entry))
+  const body = new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagNameNS(W, 'body')[0]
+  return Array.from(body.children).map((child) => `${child.localName}:${child.textContent}`)
+}
+
+describe('getPreviewBlockCount', () => {
+  const metadata = (estimatedPageCount: number, totalParagraphs: number, totalTables = 0) =>
+    ({ estimatedPageCount, totalParagraphs, totalTables }) as DocumentMetadata
+
+  it('covers the first pages at the document\'s density', () => {
+    expect(getPreviewBlockCount(metadata(100, 2000, 100))).toBe(PREVIEW_PAGES * 21)
+    expect(getPreviewBlockCount(null)).toBeGreaterThan(0)
+  })
+
+  it('skips short documents', () => {
+    expect(getPreviewBlockCount(metadata(2, 40))).toBeNull()
+  })
+})
+
+describe('createPreviewDocument', () => {
+  it('keeps the first blocks and the section properties', async () => {
+    const file = createDocument(['One', 'Two', 'Three', 'Four'].map(paragraph))
+    const preview = await createPreviewDocument(file, 2)
+
+    expect(preview?.name).toBe('long.docx')
+    expect(await readBody(preview!)).toEqual(['p:One', 'p:Two', 'sectPr:'])
+  })
+
+  it('returns null when nothing would be cut', async () => {
+    const file = createDocument(['One', 'Two'].map(paragraph))
+    expect(await createPreviewDocument(file, 2)).toBeNull()
+  })
+})
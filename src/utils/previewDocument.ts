@@ -0,0 +1,60 @@
+import type { DocumentMetadata } from 'docxodus';
+import { readZipEntries, readZipEntryContent, replaceZipEntry } from './zip';
+
+/** Number of pages converted up front when rendering progressively */
+export const PREVIEW_PAGES = 3;
+// Documents this short convert quickly enough that a preview only adds work
+const MIN_PAGES_FOR_PREVIEW = PREVIEW_PAGES * 3;
+// Paragraphs and tables per page when the document's metadata is unknown
+const DEFAULT_BLOCKS_PER_PAGE = 15;
+
+const DOCUMENT_PART = 'word/document.xml';
+const WORDPROCESSING_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Number of body blocks (paragraphs and tables) to keep for a preview of the first
+ * `PREVIEW_PAGES` pages, or null when the document is too short to benefit from one.
+ */
+export function getPreviewBlockCount(metadata: DocumentMetadata | null): number | null {
+  if (!metadata || metadata.estimatedPageCount <= 0) {
+    return PREVIEW_PAGES * DEFAULT_BLOCKS_PER_PAGE;
+  }
+  if (metadata.estimatedPageCount < MIN_PAGES_FOR_PREVIEW) return null;
+  // totalParagraphs includes paragraphs inside tables, so this errs towards a longer preview
+  const blocksPerPage = (metadata.totalParagraphs + metadata.totalTables) / metadata.estimatedPageCount;
+  return Math.max(1, Math.ceil(PREVIEW_PAGES * blocksPerPage));
+}
+
+/**
+ * A copy of `file` whose body keeps only its first `blockCount` paragraphs and tables,
+ * so the opening pages can be converted quickly. Everything else in the package (styles,
+ * numbering, images, section properties) is left as is.
+ *
+ * Resolves to null when the body has no more blocks than that, or the package can't be
+ * rewritten (e.g. it uses a compression method this environment can't decompress).
+ */
+export async function createPreviewDocument(file: File, blockCount: number): Promise<File | null> {
+  const entries = await readZipEntries(file);
+  const documentEntry = entries?.find((entry) => entry.name === DOCUMENT_PART);
+  if (!entries || !documentEntry) return null;
+
+  let xml: string;
+  try {
+    xml = new TextDecoder().decode(await readZipEntryContent(file, documentEntry));
+  } catch {
+    return null;
+  }
+
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const body = document.getElementsByTagNameNS(WORDPROCESSING_NS, 'body')[0];
+  if (!body || document.getElementsByTagName('parsererror').length > 0) return null;
+
+  // The body's own section properties describe the last section, so they stay
+  const blocks = Array.from(body.children).filter((child) => child.localName !== 'sectPr');
+  if (blocks.length <= blockCount) return null;
+  blocks.slice(blockCount).forEach((block) => block.remove());
+
+  const content = new TextEncoder().encode(new XMLSerializer().serializeToString(document));
+  const preview = await replaceZipEntry(file, entries, DOCUMENT_PART, content);
+  return new File([preview], file.name, { type: file.type });
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { parsePageRange, printPages } from './print'
+
+describe('parsePageRange', () => {
+  it('parses single pages, ranges and open-ended ranges', () => {
+    expect(parsePageRange('1-3, 5', 10)).toEqual([1, 2, 3, 5])
+    expect(parsePageRange('8-', 10)).toEqual([8, 9, 10])
+    expect(parsePageRange('3, 1-2, 3', 10)).toEqual([1, 2, 3])
+  })
+
+  it('drops pages past the end of the document', () => {
+    expect(parsePageRange('4-20', 5)).toEqual([4, 5])
+  })
+
+  it('rejects malformed or empty ranges', () => {
+    expect(() => parsePageRange('abc', 5)).toThrow(RangeError)
+    expect(() => parsePageRange('3-1', 5)).toThrow(RangeError)
+    expect(() => parsePageRange('0', 5)).toThrow(RangeError)
+    expect(() => parsePageRange('9', 5)).toThrow(RangeError)
+    expect(() => parsePageRange('', 5)).toThrow(RangeError)
+  })
+})
+
+describe('printPages', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  // jsdom doesn't implement print(); stub it on the frame's window as soon as the frame is attached
+  function interceptPrintFrame() {
+    const print = vi.fn()
+    const appendChild = document.body.appendChild.bind(document.body)
+    vi.spyOn(document.body, 'appendChild').mockImplementation(<T extends Node>(node: T) => {
+      const result = appendChild(node)
+      if (node instanceof HTMLIFrameElement && node.contentWindow) {
+        node.contentWindow.print = print
+      }
+      return result
+    })
+    return print
+  }
+
+  function renderPages() {
+    const container = document.createElement('div')
+    container.innerHTML = `
+      <style>.docx-p { color: black; }</style>
+      <div class="page-box" data-page-number="1" data-section-index="0" style="zoom: 0.8; transform: scale(0.8); margin-bottom: 10px">
+        <p>First <mark class="rdv-search-hit">page</mark></p><div class="page-number">1</div>
+      </div>
+      <div class="page-box" data-page-number="2" data-section-index="1" style="zoom: 0.8"><p>Second page</p></div>
+    `
+    document.body.appendChild(container)
+    return container
+  }
+
+  const sectionSizes = new Map([
+    [0, { widthPt: 612, heightPt: 792 }],
+    [1, { widthPt: 792, heightPt: 612 }],
+  ])
+
+  it('prints unscaled pages with per-section sheet sizes from an isolated frame', async () => {
+    const container = renderPages()
+    const print = interceptPrintFrame()
+
+    await printPages(container, { pageNumbers: null, sectionSizes, title: 'Report' })
+
+    const frame = document.querySelector('iframe.rdv-print-frame') as HTMLIFrameElement
+    const printDocument = frame.contentDocument!
+    const pages = printDocument.querySelectorAll<HTMLElement>('.rdv-print-page')
+
+    expect(print).toHaveBeenCalledTimes(1)
+    expect(printDocument.title).toBe('Report')
+    expect(pages).toHaveLength(2)
+    expect(pages[0].style.transform).toBe('')
+    expect(pages[0].querySelector('.page-number, mark')).toBeNull()
+    expect(pages[1].classList).toContain('rdv-print-section-1')
+
+    const css = [...printDocument.querySelectorAll('style')].map((style) => style.textContent).join('\n')
+    expect(css).toContain('.docx-p')
+    expect(css).toContain('@page rdv-section-1 { size: 792pt 612pt; margin: 0; }')
+  })
+
+  it('prints only the requested pages', async () => {
+    const container = renderPages()
+    interceptPrintFrame()
+
+    await printPages(container, { pageNumbers: [2], sectionSizes, title: 'Report' })
+
+    const frame = document.querySelector('iframe.rdv-print-frame') as HTMLIFrameElement
+    const pages = frame.contentDocument!.querySelectorAll<HTMLElement>('.rdv-print-page')
+    expect([...pages].map((page) => page.dataset.pageNumber)).toEqual(['2'])
+  })
+
+  it('rejects when no pages match', async () => {
+    const container = renderPages()
+    await expect(printPages(container, { pageNumbers: [7], sectionSizes, title: 'Report' })).rejects.toThrow('No pages to print')
+  })
+})
@@ -0,0 +1,163 @@
+import type { DocumentMetadata, PaginationResult } from 'docxodus/react';
+import type { PageSize } from './zoom';
+import { clearHighlights } from './search';
+
+const PRINT_FRAME_CLASS = 'rdv-print-frame';
+
+/**
+ * Parse a page range such as `'1-3, 5, 8-'` into sorted, unique page numbers.
+ * An open-ended range (`'8-'`) runs to the last page.
+ * @throws RangeError if the range is malformed or selects no pages
+ */
+export function parsePageRange(range: string, totalPages: number): number[] {
+  const pages = new Set<number>();
+
+  for (const part of range.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)\s*(?:-\s*(\d*))?$/.exec(part);
+    if (!match) {
+      throw new RangeError(`Invalid page range "${part}"`);
+    }
+    const start = parseInt(match[1], 10);
+    const end = match[2] === undefined ? start : match[2] === '' ? totalPages : parseInt(match[2], 10);
+    if (start < 1 || end < start) {
+      throw new RangeError(`Invalid page range "${part}"`);
+    }
+    for (let page = start; page <= Math.min(end, totalPages); page++) {
+      pages.add(page);
+    }
+  }
+
+  if (pages.size === 0) {
+    throw new RangeError(`Page range "${range}" does not include any of the ${totalPages} pages`);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Copy the rendered page boxes at 100% scale, without viewer-only decoration
+ * (page number labels, search highlights).
+ */
+function clonePagesForPrint(pageElements: Iterable<HTMLElement>, pageNumbers: number[] | null): HTMLElement[] {
+  const wanted = pageNumbers ? new Set(pageNumbers) : null;
+  const clones: HTMLElement[] = [];
+
+  for (const page of pageElements) {
+    const pageNumber = parseInt(page.dataset.pageNumber || '0', 10);
+    if (wanted && !wanted.has(pageNumber)) continue;
+
+    const clone = page.cloneNode(true) as HTMLElement;
+    // Undo the viewer's scaling (PaginationEngine sets zoom, a transform fallback and compensating margins)
+    clone.style.zoom = '';
+    clone.style.transform = '';
+    clone.style.margin = '0';
+    clone.style.willChange = '';
+    clone.style.boxShadow = 'none';
+    clone.querySelectorAll('.page-number').forEach((label) => label.remove());
+    clearHighlights(clone);
+    clone.classList.add('rdv-print-page', `rdv-print-section-${clone.dataset.sectionIndex || '0'}`);
+    clones.push(clone);
+  }
+
+  return clones;
+}
+
+/**
+ * `@page` rules giving each section's pages their own sheet size. Margins are zero because
+ * the page boxes already include the section margins (and headers/footers within them).
+ */
+function buildPrintCss(sectionSizes: Map<number, PageSize>): string {
+  const rules = [...sectionSizes].map(([index, size]) => `
+    @page rdv-section-${index} { size: ${size.widthPt}pt ${size.heightPt}pt; margin: 0; }
+    .rdv-print-section-${index} { page: rdv-section-${index}; }`);
+
+  return `
+    @page { margin: 0; }
+    html, body { margin: 0; padding: 0; background: #fff; }
+    .rdv-print-page { break-after: page; break-inside: avoid; }
+    .rdv-print-page:last-child { break-after: auto; }
+    ${rules.join('\n')}
+  `;
+}
+
+export interface PrintPagesOptions {
+  /** Pages to print (1-based); all pages when null */
+  pageNumbers: number[] | null;
+  /** Page size of each section, by section index */
+  sectionSizes: Map<number, PageSize>;
+  /** Document title (used by the browser for headers and "Save as PDF" file names) */
+  title: string;
+  /** Page elements with their content, when some pages inside `container` are placeholders */
+  pages?: Iterable<HTMLElement>;
+}
+
+/**
+ * Print the pages rendered inside `container` from an isolated frame, so the viewer's
+ * toolbar, background and zoom don't end up on paper. Resolves once the print dialog
+ * has been opened (and, in browsers where printing blocks, closed).
+ */
+export async function printPages(container: HTMLElement, options: PrintPagesOptions): Promise<void> {
+  // Frames are only removed after printing finishes; clean up any left by a cancelled print
+  document.querySelectorAll(`iframe.${PRINT_FRAME_CLASS}`).forEach((frame) => frame.remove());
+
+  const pages = clonePagesForPrint(
+    options.pages ?? container.querySelectorAll<HTMLElement>('[data-page-number]'),
+    options.pageNumbers
+  );
+  if (pages.length === 0) {
+    throw new Error('No pages to print');
+  }
+
+  const frame = document.createElement('iframe');
+  frame.className = PRINT_FRAME_CLASS;
+  frame.setAttribute('aria-hidden', 'true');
+  frame.tabIndex = -1;
+  Object.assign(frame.style, { position: 'fixed', right: '0', bottom: '0', width: '0', height: '0', border: '0' });
+  document.body.appendChild(frame);
+
+  const printWindow = frame.contentWindow;
+  const printDocument = frame.contentDocument;
+  if (!printWindow || !printDocument) {
+    frame.remove();
+    throw new Error('Printing is not available');
+  }
+
+  printDocument.open();
+  printDocument.write('<!DOCTYPE html><html><head><meta charset="utf-8"></head><body></body></html>');
+  printDocument.close();
+  printDocument.title = options.title;
+
+  // The converted HTML's own stylesheets live inside the paginated container
+  container.querySelectorAll('style').forEach((style) => {
+    printDocument.head.appendChild(printDocument.importNode(style, true));
+  });
+  const printStyle = printDocument.createElement('style');
+  printStyle.textContent = buildPrintCss(options.sectionSizes);
+  printDocument.head.appendChild(printStyle);
+  pages.forEach((page) => printDocument.body.appendChild(printDocument.importNode(page, true)));
+
+  printWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+
+  // Web fonts must be loaded before the browser lays out the print preview
+  await printDocument.fonts?.ready;
+  printWindow.focus();
+  printWindow.print();
+}
+
+/**
+ * Sheet size for every section that has pages, from the document metadata when available,
+ * otherwise from the paginated page dimensions.
+ */
+export function getSectionPageSizes(
+  metadata: DocumentMetadata | null,
+  pages: PaginationResult['pages']
+): Map<number, PageSize> {
+  const sizes = new Map<number, PageSize>();
+  for (const page of pages) {
+    if (sizes.has(page.sectionIndex)) continue;
+    const section = metadata?.sections[page.sectionIndex];
+    sizes.set(page.sectionIndex, section
+      ? { widthPt: section.pageWidthPt, heightPt: section.pageHeightPt }
+      : { widthPt: page.dimensions.pageWidth, heightPt: page.dimensions.pageHeight });
+  }
+  return sizes;
+}
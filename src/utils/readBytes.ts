@@ -0,0 +1,9 @@
+/** Read a Blob into an ArrayBuffer (FileReader-based, so it also works where Blob#arrayBuffer is missing) */
+export function readBytes(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
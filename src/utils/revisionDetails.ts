@@ -0,0 +1,100 @@
+import type { Revision } from 'docxodus';
+import { isInsertion, isDeletion, isMove, isFormatChange } from 'docxodus';
+
+/** Label for the kind of change, e.g. "Moved from" */
+export function getRevisionTypeLabel(revision: Revision): string {
+  if (isInsertion(revision)) return 'Inserted';
+  if (isDeletion(revision)) return 'Deleted';
+  if (isMove(revision)) return revision.isMoveSource ? 'Moved from' : 'Moved to';
+  if (isFormatChange(revision)) return 'Formatted';
+  return String(revision.revisionType);
+}
+
+/** Revision date for display, in the reader's locale */
+export function formatRevisionDate(isoDate: string): string {
+  try {
+    const date = new Date(isoDate);
+    return date.toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  } catch {
+    return isoDate;
+  }
+}
+
+// Filter out raw XML values and clean up property names
+function isValidPropertyValue(value: string): boolean {
+  if (!value || typeof value !== 'string') return false;
+  // Filter out raw XML data
+  if (value.includes('<') || value.includes('xmlns') || value.includes('Unid=')) return false;
+  // Filter out overly long values (likely XML)
+  if (value.length > 100) return false;
+  return true;
+}
+
+// Make property names more readable
+function formatPropertyName(name: string): string {
+  // Convert camelCase to Title Case with spaces
+  return name
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (str) => str.toUpperCase())
+    .trim();
+}
+
+// Format property value for display
+function formatPropertyValue(value: string): string {
+  if (value === 'true') return 'Yes';
+  if (value === 'false') return 'No';
+  if (value === 'single') return 'Single';
+  if (value === 'double') return 'Double';
+  return value;
+}
+
+/** A formatting property changed by a revision, with readable names and values */
+export interface FormatChangeItem {
+  property: string;
+  oldValue?: string;
+  newValue?: string;
+}
+
+// Get paired format changes (old → new for same property)
+export function getFormatChanges(revision: Revision): FormatChangeItem[] {
+  if (!revision.formatChange) return [];
+
+  const { oldProperties, newProperties } = revision.formatChange;
+  const changes: FormatChangeItem[] = [];
+  const processedKeys = new Set<string>();
+
+  // Process old properties
+  if (oldProperties) {
+    for (const [key, value] of Object.entries(oldProperties)) {
+      if (!isValidPropertyValue(value)) continue;
+      processedKeys.add(key);
+      const newValue = newProperties?.[key];
+      changes.push({
+        property: formatPropertyName(key),
+        oldValue: formatPropertyValue(value),
+        newValue: newValue && isValidPropertyValue(newValue) ? formatPropertyValue(newValue) : undefined,
+      });
+    }
+  }
+
+  // Process new properties not in old
+  if (newProperties) {
+    for (const [key, value] of Object.entries(newProperties)) {
+      if (processedKeys.has(key)) continue;
+      if (!isValidPropertyValue(value)) continue;
+      changes.push({
+        property: formatPropertyName(key),
+        oldValue: undefined,
+        newValue: formatPropertyValue(value),
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import type { Revision } from 'docxodus'
+import { exportRevisions } from './revisionExport'
+
+const revisions: Revision[] = [
+  { author: 'Ann', date: '2024-01-15T10:30:00Z', revisionType: 'Inserted', text: 'Price, "net"\nof tax' },
+  { author: 'Bob', date: '2024-01-16T09:00:00Z', revisionType: 'Moved', text: '=SUM(A1)', moveGroupId: 2, isMoveSource: true },
+  {
+    author: '',
+    date: '2024-01-17T09:00:00Z',
+    revisionType: 'FormatChanged',
+    text: 'a | b',
+    formatChange: { oldProperties: { bold: 'false' }, newProperties: { bold: 'true', fontSize: '28' } },
+  } as Revision,
+]
+
+describe('exportRevisions', () => {
+  it('writes CSV with quoted fields and spreadsheet formulas defused', () => {
+    const lines = exportRevisions(revisions, 'csv').split('\r\n')
+    expect(lines[0]).toBe('Type,Author,Date,Text,Move group,Property changes')
+    expect(lines[1]).toBe('Inserted,Ann,2024-01-15T10:30:00Z,"Price, ""net""\nof tax",,')
+    expect(lines[2]).toBe("Moved from,Bob,2024-01-16T09:00:00Z,'=SUM(A1),2,")
+    expect(lines[3]).toBe('Formatted,,2024-01-17T09:00:00Z,a | b,,Bold: No → Yes; Font Size: 28 (added)')
+  })
+
+  it('writes JSON with the type label, move group and paired property changes', () => {
+    const [inserted, moved, formatted] = JSON.parse(exportRevisions(revisions, 'json'))
+    expect(inserted).toEqual({
+      type: 'Inserted',
+      author: 'Ann',
+      date: '2024-01-15T10:30:00Z',
+      text: 'Price, "net"\nof tax',
+      moveGroupId: null,
+      formatChanges: [],
+    })
+    expect(moved.moveGroupId).toBe(2)
+    expect(formatted.formatChanges).toEqual([
+      { property: 'Bold', oldValue: 'No', newValue: 'Yes' },
+      { property: 'Font Size', newValue: '28' },
+    ])
+  })
+
+  it('writes a Markdown table under the title', () => {
+    const markdown = exportRevisions(revisions, 'markdown', { title: 'Changes to lease.docx' })
+    expect(markdown).toMatch(/^# Changes to lease\.docx\n\n3 changes\n\n\| Type \| Author \|/)
+    expect(markdown).toContain('| Price, "net"<br>of tax |')
+    expect(markdown).toContain('| Formatted | Unknown |')
+    expect(markdown).toContain('| a \\| b |  | Bold: No → Yes<br>Font Size: 28 (added) |')
+  })
+
+  it('writes a standalone HTML report with the text escaped', () => {
+    const html = exportRevisions([{ ...revisions[0], text: '<script>x</script>' }], 'html')
+    const report = new DOMParser().parseFromString(html, 'text/html')
+    expect(report.title).toBe('Tracked changes')
+    expect(report.querySelector('script')).toBeNull()
+    const cells = Array.from(report.querySelectorAll('tbody td'), (cell) => cell.textContent)
+    expect(cells[0]).toBe('Inserted')
+    expect(cells[3]).toBe('<script>x</script>')
+    expect(report.querySelector('tbody tr')?.className).toBe('insertion')
+  })
+})
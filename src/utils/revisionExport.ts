@@ -0,0 +1,184 @@
+import type { Revision } from 'docxodus';
+import { isInsertion, isDeletion, isMove, isFormatChange } from 'docxodus';
+import type { RevisionExportFormat } from '../types';
+import { getRevisionTypeLabel, getFormatChanges, formatRevisionDate } from './revisionDetails';
+import type { FormatChangeItem } from './revisionDetails';
+
+export interface RevisionExportOptions {
+  /** Heading of Markdown and HTML exports. Defaults to "Tracked changes". */
+  title?: string;
+}
+
+const DEFAULT_TITLE = 'Tracked changes';
+
+const EXPORT_FILES: Record<RevisionExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+const COLUMNS = ['Type', 'Author', 'Date', 'Text', 'Move group', 'Property changes'];
+
+function describeFormatChange({ property, oldValue, newValue }: FormatChangeItem): string {
+  if (oldValue && newValue) return `${property}: ${oldValue} → ${newValue}`;
+  if (newValue) return `${property}: ${newValue} (added)`;
+  return `${property}: ${oldValue} (removed)`;
+}
+
+const getMoveGroupId = (revision: Revision) => (isMove(revision) ? revision.moveGroupId ?? null : null);
+
+function escapeCsv(value: string): string {
+  // Spreadsheets run cells starting with these as formulas; document text shouldn't be
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toCsv(revisions: Revision[]): string {
+  const rows = revisions.map((revision) => [
+    getRevisionTypeLabel(revision),
+    revision.author,
+    revision.date,
+    revision.text,
+    String(getMoveGroupId(revision) ?? ''),
+    getFormatChanges(revision).map(describeFormatChange).join('; '),
+  ]);
+  return [COLUMNS, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function toJson(revisions: Revision[]): string {
+  return JSON.stringify(revisions.map((revision) => ({
+    type: getRevisionTypeLabel(revision),
+    author: revision.author,
+    date: revision.date,
+    text: revision.text,
+    moveGroupId: getMoveGroupId(revision),
+    formatChanges: getFormatChanges(revision),
+  })), null, 2);
+}
+
+const escapeMarkdownCell = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+function toMarkdown(revisions: Revision[], title: string): string {
+  const rows = revisions.map((revision) => [
+    getRevisionTypeLabel(revision),
+    revision.author || 'Unknown',
+    formatRevisionDate(revision.date),
+    revision.text,
+    String(getMoveGroupId(revision) ?? ''),
+    getFormatChanges(revision).map(describeFormatChange).join('<br>'),
+  ]);
+  const table = [COLUMNS, COLUMNS.map(() => '---'), ...rows]
+    .map((row) => `| ${row.map(escapeMarkdownCell).join(' | ')} |`);
+  return [`# ${title}`, '', `${revisions.length} change${revisions.length !== 1 ? 's' : ''}`, '', ...table, ''].join('\n');
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+function getReportRowClass(revision: Revision): string {
+  if (isInsertion(revision)) return 'insertion';
+  if (isDeletion(revision)) return 'deletion';
+  if (isMove(revision)) return 'move';
+  if (isFormatChange(revision)) return 'format';
+  return '';
+}
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1e293b; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin: 0 0 0.25rem; }
+  .summary { color: #64748b; margin: 0 0 1.5rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+  th, td { text-align: left; vertical-align: top; padding: 0.4rem 0.6rem; border-bottom: 1px solid #e2e8f0; }
+  th { background: #f1f5f9; }
+  tr { break-inside: avoid; }
+  td:first-child { border-left: 3px solid #94a3b8; white-space: nowrap; }
+  tr.insertion td:first-child { border-left-color: #22c55e; }
+  tr.deletion td:first-child { border-left-color: #ef4444; }
+  tr.move td:first-child { border-left-color: #3b82f6; }
+  tr.format td:first-child { border-left-color: #a855f7; }
+  .text { white-space: pre-wrap; }
+  ul { margin: 0; padding-left: 1rem; }
+  @media print { body { margin: 0; } thead { display: table-header-group; } }
+`;
+
+function toHtml(revisions: Revision[], title: string): string {
+  const rows = revisions.map((revision) => {
+    const moveGroupId = getMoveGroupId(revision);
+    const formatChanges = getFormatChanges(revision);
+    return [
+      `<tr class="${getReportRowClass(revision)}">`,
+      `<td>${escapeHtml(getRevisionTypeLabel(revision))}</td>`,
+      `<td>${escapeHtml(revision.author || 'Unknown')}</td>`,
+      `<td>${escapeHtml(formatRevisionDate(revision.date))}</td>`,
+      `<td class="text">${escapeHtml(revision.text)}</td>`,
+      `<td>${moveGroupId ?? ''}</td>`,
+      formatChanges.length > 0
+        ? `<td><ul>${formatChanges.map((change) => `<li>${escapeHtml(describeFormatChange(change))}</li>`).join('')}</ul></td>`
+        : '<td></td>',
+      '</tr>',
+    ].join('');
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="summary">${revisions.length} change${revisions.length !== 1 ? 's' : ''}</p>
+<table>
+<thead><tr>${COLUMNS.map((column) => `<th>${column}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write tracked changes out as CSV, JSON, a Markdown table or a printable HTML report.
+ * CSV and JSON keep dates as given (ISO 8601); Markdown and HTML format them for reading.
+ */
+export function exportRevisions(
+  revisions: Revision[],
+  format: RevisionExportFormat,
+  options: RevisionExportOptions = {}
+): string {
+  const title = options.title ?? DEFAULT_TITLE;
+  switch (format) {
+    case 'csv': return toCsv(revisions);
+    case 'json': return toJson(revisions);
+    case 'markdown': return toMarkdown(revisions, title);
+    case 'html': return toHtml(revisions, title);
+  }
+}
+
+/** Export tracked changes and save them as `fileName` plus the format's extension */
+export function downloadRevisions(
+  revisions: Revision[],
+  format: RevisionExportFormat,
+  fileName: string,
+  options?: RevisionExportOptions
+): void {
+  const { extension, mimeType } = EXPORT_FILES[format];
+  const blob = new Blob([exportRevisions(revisions, format, options)], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke once the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
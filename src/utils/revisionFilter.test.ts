@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import type { Revision } from 'docxodus'
+import { DEFAULT_REVISION_FILTER } from '../types'
+import {
+  matchesRevisionFilter,
+  isRevisionFilterActive,
+  getRevisionAuthors,
+} from './revisionFilter'
+
+const revision = (extra: Partial<Revision> = {}): Revision => ({
+  author: 'Ann',
+  date: '2024-01-15T10:30:00',
+  revisionType: 'Inserted',
+  text: 'Indemnity clause',
+  ...extra,
+})
+
+describe('matchesRevisionFilter', () => {
+  it('matches everything with the default filter', () => {
+    expect(matchesRevisionFilter(revision({ date: '' }), DEFAULT_REVISION_FILTER)).toBe(true)
+  })
+
+  it('filters by type and author', () => {
+    const filter = { ...DEFAULT_REVISION_FILTER, type: 'deletions' as const, authors: ['Ann', 'Bob'] }
+    expect(matchesRevisionFilter(revision({ revisionType: 'Deleted' }), filter)).toBe(true)
+    expect(matchesRevisionFilter(revision(), filter)).toBe(false)
+    expect(matchesRevisionFilter(revision({ revisionType: 'Deleted', author: 'Cy' }), filter)).toBe(false)
+  })
+
+  it('filters by an inclusive range of days', () => {
+    const filter = { ...DEFAULT_REVISION_FILTER, dateFrom: '2024-01-15', dateTo: '2024-01-16' }
+    expect(matchesRevisionFilter(revision({ date: '2024-01-15T00:00:00' }), filter)).toBe(true)
+    expect(matchesRevisionFilter(revision({ date: '2024-01-16T23:59:00' }), filter)).toBe(true)
+    expect(matchesRevisionFilter(revision({ date: '2024-01-14T23:59:00' }), filter)).toBe(false)
+    expect(matchesRevisionFilter(revision({ date: '2024-01-17T00:00:00' }), filter)).toBe(false)
+    expect(matchesRevisionFilter(revision({ date: 'not a date' }), filter)).toBe(false)
+  })
+
+  it('searches text case-insensitively', () => {
+    expect(matchesRevisionFilter(revision(), { ...DEFAULT_REVISION_FILTER, text: ' INDEMNITY ' })).toBe(true)
+    expect(matchesRevisionFilter(revision(), { ...DEFAULT_REVISION_FILTER, text: 'liability' })).toBe(false)
+  })
+})
+
+describe('isRevisionFilterActive', () => {
+  it('ignores blank text', () => {
+    expect(isRevisionFilterActive({ ...DEFAULT_REVISION_FILTER, text: '  ' })).toBe(false)
+    expect(isRevisionFilterActive({ ...DEFAULT_REVISION_FILTER, dateTo: '2024-01-01' })).toBe(true)
+  })
+})
+
+describe('getRevisionAuthors', () => {
+  it('lists each author once, sorted', () => {
+    expect(getRevisionAuthors([
+      revision({ author: 'Cy' }),
+      revision(),
+      revision({ author: 'Cy' }),
+    ])).toEqual(['Ann', 'Cy'])
+  })
+})
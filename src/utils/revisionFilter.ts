@@ -0,0 +1,54 @@
+import type { Revision } from 'docxodus';
+import { isInsertion, isDeletion, isMove, isFormatChange } from 'docxodus';
+import type { RevisionFilter, RevisionTypeFilter } from '../types';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Local day of an ISO date as `YYYY-MM-DD`, or null when the date can't be parsed */
+export function toLocalDay(date: string): string | null {
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return null;
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+export function matchesRevisionType(revision: Revision, type: RevisionTypeFilter): boolean {
+  switch (type) {
+    case 'insertions': return isInsertion(revision);
+    case 'deletions': return isDeletion(revision);
+    case 'moves': return isMove(revision);
+    case 'formatting': return isFormatChange(revision);
+    default: return true;
+  }
+}
+
+/** Whether a revision matches every part of the filter */
+export function matchesRevisionFilter(revision: Revision, filter: RevisionFilter): boolean {
+  if (!matchesRevisionType(revision, filter.type)) return false;
+  if (filter.authors.length > 0 && !filter.authors.includes(revision.author)) return false;
+
+  if (filter.dateFrom || filter.dateTo) {
+    // Undated revisions can't be placed in the range
+    const day = toLocalDay(revision.date);
+    if (!day) return false;
+    if (filter.dateFrom && day < filter.dateFrom) return false;
+    if (filter.dateTo && day > filter.dateTo) return false;
+  }
+
+  const text = filter.text.trim().toLowerCase();
+  return !text || revision.text.toLowerCase().includes(text);
+}
+
+/** Whether the filter hides any revisions at all */
+export function isRevisionFilterActive(filter: RevisionFilter): boolean {
+  return filter.type !== 'all'
+    || filter.authors.length > 0
+    || !!filter.dateFrom
+    || !!filter.dateTo
+    || filter.text.trim() !== '';
+}
+
+/** Distinct revision authors, plus any `extraAuthors`, sorted by name */
+export function getRevisionAuthors(revisions: Revision[], extraAuthors: string[] = []): string[] {
+  return Array.from(new Set([...revisions.map((revision) => revision.author), ...extraAuthors]))
+    .sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import type { Revision } from 'docxodus'
+import { sortRevisions, groupRevisions } from './revisionGroups'
+
+const revision = (author: string, date: string, revisionType = 'Inserted'): Revision => ({
+  author,
+  date,
+  revisionType,
+  text: '',
+})
+
+const items = [
+  revision('Cy', '2024-01-16T09:00:00'),
+  revision('Ann', '2024-01-15T09:00:00', 'Deleted'),
+  revision('Bob', ''),
+  revision('Ann', '2024-01-16T18:00:00', 'FormatChanged'),
+].map((rev, index) => ({ revision: rev, index }))
+
+const indexes = (list: { index: number }[]) => list.map(({ index }) => index)
+
+describe('sortRevisions', () => {
+  it('sorts by date either way, with undated revisions last', () => {
+    expect(indexes(sortRevisions(items, 'newest'))).toEqual([3, 0, 1, 2])
+    expect(indexes(sortRevisions(items, 'oldest'))).toEqual([1, 0, 3, 2])
+  })
+
+  it('sorts by author, keeping document order between their revisions', () => {
+    expect(indexes(sortRevisions(items, 'author'))).toEqual([1, 3, 2, 0])
+    expect(indexes(sortRevisions([...items].reverse(), 'document'))).toEqual([0, 1, 2, 3])
+  })
+})
+
+describe('groupRevisions', () => {
+  it('groups by day in the direction of the sort', () => {
+    const groups = groupRevisions(sortRevisions(items, 'newest'), 'day', 'newest')
+    expect(groups.map(({ key }) => key)).toEqual(['2024-01-16', '2024-01-15', ''])
+    expect(indexes(groups[0].items)).toEqual([3, 0])
+    expect(groups[2].label).toBe('No date')
+  })
+
+  it('groups by type and by page in their natural order', () => {
+    expect(groupRevisions(items, 'type', 'document').map(({ label, items: group }) => [label, group.length]))
+      .toEqual([['Insertions', 2], ['Deletions', 1], ['Formatting', 1]])
+    expect(groupRevisions(items, 'page', 'document', [3, 1, 3, null]).map(({ label }) => label))
+      .toEqual(['Page 1', 'Page 3', 'Not on a page'])
+  })
+
+  it('keeps everything in one group when not grouping', () => {
+    expect(groupRevisions(items, 'none', 'document')).toEqual([{ key: 'all', label: '', items }])
+  })
+})
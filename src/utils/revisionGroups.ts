@@ -0,0 +1,121 @@
+import type { Revision } from 'docxodus';
+import { isInsertion, isDeletion, isMove, isFormatChange } from 'docxodus';
+import type { RevisionGroupBy, RevisionSortOrder } from '../types';
+import { toLocalDay } from './revisionFilter';
+
+/** A revision with its index in the full revision list */
+export interface IndexedRevision {
+  revision: Revision;
+  index: number;
+}
+
+export interface RevisionGroup {
+  /** Identifies the group across renders, e.g. to remember that it's collapsed */
+  key: string;
+  label: string;
+  items: IndexedRevision[];
+}
+
+const TYPE_GROUPS = [
+  { key: 'insertions', label: 'Insertions', matches: isInsertion },
+  { key: 'deletions', label: 'Deletions', matches: isDeletion },
+  { key: 'moves', label: 'Moves', matches: isMove },
+  { key: 'formatting', label: 'Formatting', matches: isFormatChange },
+];
+
+const getTime = (revision: Revision) => {
+  const time = new Date(revision.date).getTime();
+  return isNaN(time) ? null : time;
+};
+
+// Orders values ascending (or descending), with nulls last either way
+function compareNullable<T extends number | string>(a: T | null, b: T | null, direction = 1): number {
+  if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  if (typeof a === 'number' && typeof b === 'number') return (a - b) * direction;
+  return String(a).localeCompare(String(b)) * direction;
+}
+
+/** Sort revisions, keeping document order between ties. Undated revisions go last by date. */
+export function sortRevisions(items: IndexedRevision[], order: RevisionSortOrder): IndexedRevision[] {
+  const compare = (a: IndexedRevision, b: IndexedRevision): number => {
+    switch (order) {
+      case 'newest': return compareNullable(getTime(a.revision), getTime(b.revision), -1);
+      case 'oldest': return compareNullable(getTime(a.revision), getTime(b.revision));
+      case 'author': return compareNullable(a.revision.author || null, b.revision.author || null);
+      default: return 0;
+    }
+  };
+  return [...items].sort((a, b) => compare(a, b) || a.index - b.index);
+}
+
+function formatDay(day: string): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+interface GroupInfo {
+  key: string;
+  label: string;
+  /** Position of the group among the others; null goes last */
+  rank: number | string | null;
+}
+
+function getGroupInfo(
+  { revision, index }: IndexedRevision,
+  groupBy: Exclude<RevisionGroupBy, 'none'>,
+  revisionPages: (number | null)[] | undefined
+): GroupInfo {
+  switch (groupBy) {
+    case 'author':
+      return { key: revision.author, label: revision.author || 'Unknown', rank: revision.author || null };
+    case 'day': {
+      const day = toLocalDay(revision.date);
+      return { key: day ?? '', label: day ? formatDay(day) : 'No date', rank: day };
+    }
+    case 'type': {
+      const rank = TYPE_GROUPS.findIndex((group) => group.matches(revision));
+      return rank < 0
+        ? { key: 'other', label: 'Other', rank: null }
+        : { key: TYPE_GROUPS[rank].key, label: TYPE_GROUPS[rank].label, rank };
+    }
+    case 'page': {
+      const page = revisionPages?.[index] ?? null;
+      return { key: String(page ?? ''), label: page === null ? 'Not on a page' : `Page ${page}`, rank: page };
+    }
+  }
+}
+
+/**
+ * Split sorted revisions into groups, keeping their order within each group. Groups are in
+ * their natural order: authors by name, days following the sort order (newest first when
+ * sorting by newest), types as in the type filter and pages by number, with revisions that
+ * have no author, date or page in a last group.
+ */
+export function groupRevisions(
+  items: IndexedRevision[],
+  groupBy: RevisionGroupBy,
+  sortOrder: RevisionSortOrder,
+  revisionPages?: (number | null)[]
+): RevisionGroup[] {
+  if (groupBy === 'none') return [{ key: 'all', label: '', items }];
+
+  const groups = new Map<string, RevisionGroup & { rank: GroupInfo['rank'] }>();
+  items.forEach((item) => {
+    const { key, label, rank } = getGroupInfo(item, groupBy, revisionPages);
+    const group = groups.get(key);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.set(key, { key, label, rank, items: [item] });
+    }
+  });
+
+  const direction = groupBy === 'day' && sortOrder === 'newest' ? -1 : 1;
+  return Array.from(groups.values())
+    .sort((a, b) => compareNullable(a.rank, b.rank, direction))
+    .map(({ key, label, items: groupItems }) => ({ key, label, items: groupItems }));
+}
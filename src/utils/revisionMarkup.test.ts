@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import type { Revision } from 'docxodus'
+import { findRevisionMarkup, getRevisionPageNumbers } from './revisionMarkup'
+
+function renderPages(...pages: string[]) {
+  return pages.map((content, i) => {
+    const page = document.createElement('div')
+    page.dataset.pageNumber = String(i + 1)
+    page.innerHTML = content
+    return page
+  })
+}
+
+const revision = (revisionType: string, text: string, extra: Partial<Revision> = {}): Revision => ({
+  author: 'Ann',
+  date: '2024-01-15T10:30:00Z',
+  revisionType,
+  text,
+  ...extra,
+})
+
+describe('findRevisionMarkup', () => {
+  it('matches revisions to their markup in document order', () => {
+    const pages = renderPages(
+      '<p>One <ins data-author="Ann">added</ins> and <del data-author="Ann">removed</del></p>',
+      '<p><ins data-author="Ann">later</ins></p>'
+    )
+    const markup = findRevisionMarkup(
+      [revision('Inserted', 'added'), revision('Deleted', 'removed'), revision('Inserted', 'later')],
+      pages
+    )
+    expect(markup.map((elements) => elements.map((element) => element.textContent))).toEqual([
+      ['added'],
+      ['removed'],
+      ['later'],
+    ])
+  })
+
+  it('claims consecutive elements for a revision spanning runs and pages', () => {
+    const pages = renderPages(
+      '<p><ins>first <b>run</b></ins><ins class="rev-ins"> second</ins></p>',
+      '<p><ins class="rev-para-ins">continued</ins></p><p><ins>next</ins></p>'
+    )
+    const [spanning, next] = findRevisionMarkup(
+      [revision('Inserted', 'first run second\ncontinued'), revision('Inserted', 'next')],
+      pages
+    )
+    expect(spanning).toHaveLength(3)
+    expect(spanning[2]).toHaveTextContent('continued')
+    expect(next[0]).toHaveTextContent('next')
+  })
+
+  it('tells moves apart by direction and skips other authors', () => {
+    const pages = renderPages(
+      '<p><del class="rev-move-from" data-move-id="1">moved</del> <ins data-author="Bob">mine</ins></p>',
+      '<p><ins data-author="Ann">mine</ins> <ins class="rev-move-to" data-move-id="1">moved</ins></p>'
+    )
+    const [to, from, inserted] = findRevisionMarkup(
+      [
+        revision('Moved', 'moved', { moveGroupId: 1, isMoveSource: false }),
+        revision('Moved', 'moved', { moveGroupId: 1, isMoveSource: true }),
+        revision('Inserted', 'mine'),
+      ],
+      pages
+    )
+    expect(to[0]).toHaveClass('rev-move-to')
+    expect(from[0]).toHaveClass('rev-move-from')
+    expect(inserted[0]).toBe(pages[1].querySelector('ins'))
+  })
+
+  it('finds no markup for format changes or content left out of the rendering', () => {
+    const pages = renderPages('<p><ins>kept</ins></p>')
+    const markup = findRevisionMarkup(
+      [revision('FormatChanged', ''), revision('Deleted', 'hidden'), revision('Inserted', 'kept')],
+      pages
+    )
+    expect(markup[0]).toEqual([])
+    expect(markup[1]).toEqual([])
+    expect(markup[2]).toHaveLength(1)
+  })
+})
+
+describe('getRevisionPageNumbers', () => {
+  it('gives the page each revision starts on', () => {
+    const pages = renderPages('<p>Intro</p>', '<p><del>gone</del></p>', '<p><ins>new</ins></p>')
+    expect(getRevisionPageNumbers(
+      [revision('Deleted', 'gone'), revision('FormatChanged', ''), revision('Inserted', 'new')],
+      pages
+    )).toEqual([2, null, 3])
+  })
+})
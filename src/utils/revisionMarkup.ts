@@ -0,0 +1,106 @@
+import type { Revision } from 'docxodus';
+import { isInsertion, isDeletion, isMove } from 'docxodus';
+import type { ViewerSettings } from '../types';
+
+type MarkupKind = 'insertion' | 'deletion' | 'move-from' | 'move-to';
+
+// Tracked changes are rendered as <ins>/<del>, with move-from/move-to classes for moves
+const MARKUP_SELECTOR = 'ins, del';
+
+function getMarkupKind(element: HTMLElement): MarkupKind {
+  if (/\bmove-from\b/.test(element.className)) return 'move-from';
+  if (/\bmove-to\b/.test(element.className)) return 'move-to';
+  return element.localName === 'del' ? 'deletion' : 'insertion';
+}
+
+function getRevisionKind(revision: Revision): MarkupKind | null {
+  if (isInsertion(revision)) return 'insertion';
+  if (isDeletion(revision)) return 'deletion';
+  if (isMove(revision)) return revision.isMoveSource ? 'move-from' : 'move-to';
+  // Format changes have no markup of their own
+  return null;
+}
+
+/**
+ * Conversion settings under which a revision's markup is rendered, or null for revisions
+ * that have none (format changes)
+ */
+export function getRevisionRenderSettings(revision: Revision): Partial<ViewerSettings> | null {
+  switch (getRevisionKind(revision)) {
+    case 'insertion': return { renderTrackedChanges: true };
+    case 'deletion': return { renderTrackedChanges: true, showDeletedContent: true };
+    case 'move-to': return { renderTrackedChanges: true, renderMoveOperations: true };
+    case 'move-from': return { renderTrackedChanges: true, renderMoveOperations: true, showDeletedContent: true };
+    default: return null;
+  }
+}
+
+const normalizeText = (text: string) => text.replace(/\s+/g, '');
+
+/** Outermost tracked-change elements on the pages, in document order */
+function getRevisionMarkup(pages: HTMLElement[]): HTMLElement[] {
+  return pages.flatMap((page) =>
+    Array.from(page.querySelectorAll<HTMLElement>(MARKUP_SELECTOR))
+      .filter((element) => !element.parentElement?.closest(MARKUP_SELECTOR))
+  );
+}
+
+/**
+ * The rendered markup of each revision, by revision index: empty for revisions with no
+ * markup (format changes, or content the conversion settings leave out).
+ *
+ * Revisions carry no id linking them to the HTML, so they're matched in document order by
+ * kind, author and text. A revision spanning several runs or paragraphs claims consecutive
+ * elements until their text covers its own.
+ */
+export function findRevisionMarkup(revisions: Revision[], pages: HTMLElement[]): HTMLElement[][] {
+  const elements = getRevisionMarkup(pages);
+  const kinds = elements.map(getMarkupKind);
+  const texts = elements.map((element) => normalizeText(element.textContent ?? ''));
+  const claimed = new Set<number>();
+
+  const matches = (index: number, kind: MarkupKind, revision: Revision, text: string) => {
+    if (claimed.has(index) || kinds[index] !== kind) return false;
+    const author = elements[index].dataset.author;
+    if (author && revision.author && author !== revision.author) return false;
+    return !text || !texts[index] || text.includes(texts[index]) || texts[index].includes(text);
+  };
+
+  let cursor = 0;
+  return revisions.map((revision) => {
+    const kind = getRevisionKind(revision);
+    if (!kind) return [];
+    const text = normalizeText(revision.text);
+
+    // Usually the next element; earlier ones only when the order differs
+    const findFrom = (start: number) => {
+      for (let i = start; i < elements.length; i++) {
+        if (matches(i, kind, revision, text)) return i;
+      }
+      return -1;
+    };
+    let index = findFrom(cursor);
+    if (index < 0) index = findFrom(0);
+    if (index < 0) return [];
+
+    const markup = [elements[index]];
+    claimed.add(index);
+    let covered = texts[index].length;
+    while (covered < text.length && index + 1 < elements.length && matches(index + 1, kind, revision, text)) {
+      index++;
+      markup.push(elements[index]);
+      claimed.add(index);
+      covered += texts[index].length;
+    }
+    cursor = index + 1;
+    return markup;
+  });
+}
+
+/** Page each revision starts on, or null for revisions that aren't rendered */
+export function getRevisionPageNumbers(revisions: Revision[], pages: HTMLElement[]): (number | null)[] {
+  return findRevisionMarkup(revisions, pages).map(([first]) => {
+    const page = first?.closest<HTMLElement>('[data-page-number]');
+    return page ? parseInt(page.dataset.pageNumber!, 10) : null;
+  });
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { captureScrollAnchor, restoreScrollAnchor } from './scrollAnchor'
+
+function rect(left: number, top: number, width: number, height: number) {
+  return { left, top, width, height, right: left + width, bottom: top + height, x: left, y: top, toJSON: () => ({}) } as DOMRect
+}
+
+describe('scroll anchors', () => {
+  function setup() {
+    const container = document.createElement('div')
+    container.innerHTML = '<div data-page-number="1"></div><div data-page-number="2"></div>'
+    const [page1, page2] = container.querySelectorAll<HTMLElement>('[data-page-number]')
+    container.getBoundingClientRect = () => rect(0, 0, 800, 600)
+    page1.getBoundingClientRect = () => rect(100, 0, 400, 500)
+    page2.getBoundingClientRect = () => rect(100, 520, 400, 500)
+    return { container, page2 }
+  }
+
+  it('records the position within the page under the point', () => {
+    const { container } = setup()
+    expect(captureScrollAnchor(container, 200, 550)).toEqual({
+      pageNumber: 2,
+      pageX: 0.25,
+      pageY: 0.06,
+      viewportX: 200,
+      viewportY: 550,
+    })
+  })
+
+  it('uses the nearest page when the point is in a page gap', () => {
+    const { container } = setup()
+    expect(captureScrollAnchor(container, 200, 505)?.pageNumber).toBe(1)
+  })
+
+  it('scrolls the anchored position back under the same point', () => {
+    const { container, page2 } = setup()
+    const anchor = captureScrollAnchor(container, 200, 550)!
+
+    // Pages doubled in size after zooming in
+    page2.getBoundingClientRect = () => rect(0, 1040, 800, 1000)
+    restoreScrollAnchor(container, anchor)
+
+    expect(container.scrollLeft).toBe(0)
+    expect(container.scrollTop).toBe(1040 + 60 - 550)
+  })
+})
@@ -0,0 +1,60 @@
+/** Where the reader was looking, relative to a page so it survives repagination */
+export interface ScrollAnchor {
+  pageNumber: number;
+  /** Position within the page as a fraction of its width/height */
+  pageX: number;
+  pageY: number;
+  /** Position of the anchor point within the scroll container's viewport, in pixels */
+  viewportX: number;
+  viewportY: number;
+}
+
+/** Record the page position under a viewport point of the scroll container */
+export function captureScrollAnchor(
+  container: HTMLElement,
+  clientX: number,
+  clientY: number
+): ScrollAnchor | null {
+  const containerRect = container.getBoundingClientRect();
+  const pages = container.querySelectorAll<HTMLElement>('[data-page-number]');
+  let closest: { page: HTMLElement; rect: DOMRect; distance: number } | null = null;
+
+  // The point may fall in the gap between pages, so pick the nearest page vertically
+  for (const page of pages) {
+    const rect = page.getBoundingClientRect();
+    const distance = clientY < rect.top ? rect.top - clientY : clientY > rect.bottom ? clientY - rect.bottom : 0;
+    if (!closest || distance < closest.distance) {
+      closest = { page, rect, distance };
+    }
+    if (distance === 0) break;
+  }
+  if (!closest || closest.rect.width === 0 || closest.rect.height === 0) return null;
+
+  const { page, rect } = closest;
+  return {
+    pageNumber: parseInt(page.dataset.pageNumber || '1', 10),
+    pageX: (clientX - rect.left) / rect.width,
+    pageY: (clientY - rect.top) / rect.height,
+    viewportX: clientX - containerRect.left,
+    viewportY: clientY - containerRect.top,
+  };
+}
+
+/** Scroll so the anchored page position is back under the same viewport point */
+export function restoreScrollAnchor(container: HTMLElement, anchor: ScrollAnchor): void {
+  const page = container.querySelector<HTMLElement>(`[data-page-number="${anchor.pageNumber}"]`);
+  if (!page) return;
+
+  const containerRect = container.getBoundingClientRect();
+  const rect = page.getBoundingClientRect();
+  const left = container.scrollLeft + rect.left - containerRect.left + anchor.pageX * rect.width - anchor.viewportX;
+  const top = container.scrollTop + rect.top - containerRect.top + anchor.pageY * rect.height - anchor.viewportY;
+
+  // Jump rather than animate (the container uses smooth scrolling)
+  if (typeof container.scrollTo === 'function') {
+    container.scrollTo({ left, top, behavior: 'instant' });
+  } else {
+    container.scrollLeft = left;
+    container.scrollTop = top;
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { buildSearchPattern, highlightMatches, clearHighlights, DEFAULT_SEARCH_OPTIONS } from './search'
+
+function renderPages(...pages: string[]) {
+  const container = document.createElement('div')
+  container.innerHTML = pages
+    .map((content, i) => `<div class="page-box" data-page-number="${i + 1}">${content}</div>`)
+    .join('')
+  document.body.appendChild(container)
+  return container
+}
+
+function pagesOf(container: HTMLElement) {
+  return container.querySelectorAll<HTMLElement>('[data-page-number]')
+}
+
+describe('buildSearchPattern', () => {
+  it('returns null for an empty query', () => {
+    expect(buildSearchPattern('', DEFAULT_SEARCH_OPTIONS)).toBeNull()
+  })
+
+  it('escapes special characters unless regex is enabled', () => {
+    expect(buildSearchPattern('a.b', DEFAULT_SEARCH_OPTIONS)?.test('axb')).toBe(false)
+    expect(buildSearchPattern('a.b', { ...DEFAULT_SEARCH_OPTIONS, regex: true })?.test('axb')).toBe(true)
+  })
+
+  it('honours case sensitivity and whole words', () => {
+    expect(buildSearchPattern('Term', DEFAULT_SEARCH_OPTIONS)?.flags).toContain('i')
+    expect(buildSearchPattern('Term', { ...DEFAULT_SEARCH_OPTIONS, caseSensitive: true })?.flags).not.toContain('i')
+    expect(buildSearchPattern('term', { ...DEFAULT_SEARCH_OPTIONS, wholeWord: true })?.test('terms')).toBe(false)
+  })
+
+  it('throws for invalid regular expressions', () => {
+    expect(() => buildSearchPattern('(', { ...DEFAULT_SEARCH_OPTIONS, regex: true })).toThrow(SyntaxError)
+  })
+})
+
+describe('highlightMatches', () => {
+  beforeEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('highlights matches on every page with their page numbers', () => {
+    const container = renderPages('<p>The term and the Term</p>', '<p>another term</p>')
+    const hits = highlightMatches(pagesOf(container), buildSearchPattern('term', DEFAULT_SEARCH_OPTIONS)!)
+
+    expect(hits.map((hit) => hit.pageNumber)).toEqual([1, 1, 2])
+    expect(hits.map((hit) => hit.text)).toEqual(['term', 'Term', 'term'])
+    expect(container.querySelectorAll('mark.rdv-search-hit')).toHaveLength(3)
+  })
+
+  it('matches text split across formatting runs', () => {
+    const container = renderPages('<p><span>Gover</span><b>ning</b> law</p>')
+    const hits = highlightMatches(pagesOf(container), buildSearchPattern('governing', DEFAULT_SEARCH_OPTIONS)!)
+
+    expect(hits).toHaveLength(1)
+    expect(hits[0].elements).toHaveLength(2)
+    expect(hits[0].elements.map((el) => el.textContent)).toEqual(['Gover', 'ning'])
+  })
+
+  it('does not match across paragraphs', () => {
+    const container = renderPages('<p>end</p><p>start</p>')
+    const hits = highlightMatches(pagesOf(container), buildSearchPattern('endstart', DEFAULT_SEARCH_OPTIONS)!)
+    expect(hits).toHaveLength(0)
+  })
+
+  it('ignores page number labels', () => {
+    const container = renderPages('<p>Page content</p><div class="page-number">1</div>')
+    const pattern = buildSearchPattern('1', DEFAULT_SEARCH_OPTIONS)!
+    expect(highlightMatches(pagesOf(container), pattern)).toHaveLength(0)
+  })
+})
+
+describe('clearHighlights', () => {
+  it('restores the original text', () => {
+    const container = renderPages('<p>alpha beta alpha</p>')
+    const original = container.innerHTML
+    highlightMatches(pagesOf(container), buildSearchPattern('alpha', DEFAULT_SEARCH_OPTIONS)!)
+
+    clearHighlights(container)
+
+    expect(container.querySelector('mark')).toBeNull()
+    expect(container.innerHTML).toBe(original)
+    expect(container.querySelector('p')?.childNodes).toHaveLength(1)
+  })
+})
@@ -0,0 +1,144 @@
+import type { SearchOptions } from '../types';
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+};
+
+const HIT_CLASS = 'rdv-search-hit';
+export const ACTIVE_HIT_CLASS = 'rdv-search-hit--active';
+
+// Elements whose text is not part of the document body
+const SKIPPED_ELEMENTS = 'script, style, .page-number';
+// Text in different blocks is separated so matches don't run across paragraphs
+const BLOCK_ELEMENTS = 'p, h1, h2, h3, h4, h5, h6, li, td, th, caption, div';
+
+/** A highlighted search hit; `elements` are the marks wrapping its text (one per text node) */
+export interface SearchHit {
+  pageNumber: number;
+  text: string;
+  elements: HTMLElement[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the regular expression for a query.
+ * Returns null for an empty query; throws SyntaxError for an invalid regex query.
+ */
+export function buildSearchPattern(query: string, options: SearchOptions): RegExp | null {
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+interface TextSegment {
+  node: Text;
+  start: number;
+}
+
+// Collect the text nodes under a page with their offsets in the page's combined text
+function collectText(root: ParentNode): { text: string; segments: TextSegment[] } {
+  const ownerDocument = (root as Node).ownerDocument ?? document;
+  const walker = ownerDocument.createTreeWalker(root as Node, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest(SKIPPED_ELEMENTS) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+  });
+
+  const segments: TextSegment[] = [];
+  let text = '';
+  let previousBlock: Element | null = null;
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const block = node.parentElement?.closest(BLOCK_ELEMENTS) ?? null;
+    if (segments.length > 0 && block !== previousBlock) {
+      text += '\n';
+    }
+    previousBlock = block;
+    segments.push({ node, start: text.length });
+    text += node.data;
+  }
+  return { text, segments };
+}
+
+// Wrap [start, end) of the combined text in marks, splitting text nodes as needed
+function wrapRange(segments: TextSegment[], start: number, end: number): HTMLElement[] {
+  const marks: HTMLElement[] = [];
+  for (const { node, start: nodeStart } of segments) {
+    const nodeEnd = nodeStart + node.data.length;
+    if (nodeEnd <= start || nodeStart >= end) continue;
+
+    let target = node;
+    const localStart = Math.max(start, nodeStart) - nodeStart;
+    const localEnd = Math.min(end, nodeEnd) - nodeStart;
+    if (localStart > 0) {
+      target = target.splitText(localStart);
+    }
+    if (localEnd - localStart < target.data.length) {
+      target.splitText(localEnd - localStart);
+    }
+
+    const mark = target.ownerDocument.createElement('mark');
+    mark.className = HIT_CLASS;
+    target.parentNode?.replaceChild(mark, target);
+    mark.appendChild(target);
+    marks.push(mark);
+  }
+  return marks;
+}
+
+/**
+ * Highlight all matches of `pattern` inside the given page elements.
+ * Each page must carry a `data-page-number` attribute (as rendered by PaginatedDocument).
+ */
+export function highlightMatches(pages: Iterable<HTMLElement>, pattern: RegExp): SearchHit[] {
+  const hits: SearchHit[] = [];
+
+  for (const page of pages) {
+    const pageNumber = parseInt(page.dataset.pageNumber || '0', 10);
+    const { text, segments } = collectText(page);
+    const ranges: Array<[number, number]> = [];
+
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (match[0].length === 0) {
+        // Avoid infinite loops on empty matches (e.g. /a*/)
+        pattern.lastIndex++;
+        continue;
+      }
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+
+    // Wrap from the end so splitting nodes doesn't shift earlier offsets
+    const pageHits: SearchHit[] = [];
+    for (let i = ranges.length - 1; i >= 0; i--) {
+      const [start, end] = ranges[i];
+      pageHits.push({
+        pageNumber,
+        text: text.slice(start, end),
+        elements: wrapRange(segments, start, end),
+      });
+    }
+    hits.push(...pageHits.reverse());
+  }
+
+  return hits;
+}
+
+/** Remove all search highlights below `root`, restoring the original text nodes */
+export function clearHighlights(root: ParentNode): void {
+  root.querySelectorAll(`mark.${HIT_CLASS}`).forEach((mark) => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    while (mark.firstChild) {
+      parent.insertBefore(mark.firstChild, mark);
+    }
+    parent.removeChild(mark);
+    parent.normalize();
+  });
+}
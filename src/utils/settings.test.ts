@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_SETTINGS } from '../types'
+import { hasConversionChanges, isPresentationSetting } from './settings'
+
+describe('isPresentationSetting', () => {
+  it('separates presentation settings from conversion settings', () => {
+    expect(isPresentationSetting('paginationScale')).toBe(true)
+    expect(isPresentationSetting('showPageNumbers')).toBe(true)
+    expect(isPresentationSetting('revisionPanelSide')).toBe(true)
+    expect(isPresentationSetting('commentMode')).toBe(false)
+    expect(isPresentationSetting('renderTrackedChanges')).toBe(false)
+  })
+})
+
+describe('hasConversionChanges', () => {
+  it('ignores presentation-only changes', () => {
+    const next = { ...DEFAULT_SETTINGS, paginationScale: 1.5, showPageNumbers: false, pageGap: 40, backgroundColor: '#000' }
+    expect(hasConversionChanges(DEFAULT_SETTINGS, next)).toBe(false)
+  })
+
+  it('detects conversion changes', () => {
+    expect(hasConversionChanges(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS, commentMode: 'inline' })).toBe(true)
+  })
+})
@@ -0,0 +1,38 @@
+import type { ViewerSettings } from '../types';
+
+/** Range of the page gap offered by the settings panel, in pixels */
+export const MIN_PAGE_GAP = 0;
+export const MAX_PAGE_GAP = 200;
+
+/** Range of the split view's panel width, as a percentage of the viewer width */
+export const MIN_REVISION_PANEL_WIDTH = 20;
+export const MAX_REVISION_PANEL_WIDTH = 80;
+
+/**
+ * Settings that only change how converted HTML is presented. They are applied by
+ * re-paginating (or just re-styling) the existing HTML and never require a WASM conversion.
+ */
+export const PRESENTATION_SETTINGS = [
+  'paginationScale',
+  'zoomMode',
+  'showPageNumbers',
+  'pageGap',
+  'backgroundColor',
+  'revisionPanelWidth',
+  'revisionPanelSide',
+  'revisionGroupBy',
+  'revisionSortOrder',
+] as const satisfies readonly (keyof ViewerSettings)[];
+
+export type PresentationSetting = typeof PRESENTATION_SETTINGS[number];
+
+export function isPresentationSetting(key: keyof ViewerSettings): key is PresentationSetting {
+  return (PRESENTATION_SETTINGS as readonly string[]).includes(key);
+}
+
+/** Whether the document must be converted again to reflect `next` after converting with `previous` */
+export function hasConversionChanges(previous: ViewerSettings, next: ViewerSettings): boolean {
+  return (Object.keys(next) as (keyof ViewerSettings)[]).some(
+    (key) => !isPresentationSetting(key) && previous[key] !== next[key]
+  );
+}
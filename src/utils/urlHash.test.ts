@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { formatViewerHash, parseViewerHash } from './urlHash'
+
+describe('parseViewerHash', () => {
+  it('reads viewer state', () => {
+    expect(parseViewerHash('#page=14&zoom=125&view=revisions&search=force%20majeure&bookmark=_Toc1')).toEqual({
+      page: 14,
+      zoom: 1.25,
+      view: 'revisions',
+      search: 'force majeure',
+      bookmark: '_Toc1',
+    })
+    expect(parseViewerHash('zoom=fit-width')).toEqual({ zoom: 'fit-width' })
+    expect(parseViewerHash('view=split&page=2')).toEqual({ view: 'split', page: 2 })
+  })
+
+  it('ignores invalid values and unrelated parameters', () => {
+    expect(parseViewerHash('#page=0&zoom=huge&view=grid&tab=2')).toEqual({})
+    expect(parseViewerHash('')).toEqual({})
+  })
+})
+
+describe('formatViewerHash', () => {
+  it('writes viewer state, keeping other parameters', () => {
+    expect(formatViewerHash({ page: 3, zoom: 1.5, view: 'document', search: 'net terms' }, '#tab=2&page=9'))
+      .toBe('tab=2&page=3&zoom=150&search=net%20terms')
+    expect(formatViewerHash({ zoom: 'fit-page', view: 'revisions', bookmark: 'Intro' })).toBe('zoom=fit-page&view=revisions&bookmark=Intro')
+  })
+
+  it('round-trips through parseViewerHash', () => {
+    const state = { page: 2, zoom: 0.75, search: 'a&b=c #1', bookmark: 'Section_2' }
+    expect(parseViewerHash(formatViewerHash(state))).toEqual(state)
+  })
+})
@@ -0,0 +1,80 @@
+import type { UrlHashAdapter, ViewMode, ZoomMode } from '../types';
+
+/** Viewer state carried in the URL hash, e.g. `#page=14&zoom=125&search=indemnity` */
+export interface ViewerHashState {
+  page?: number;
+  /** Zoom as a scale (1 = 100%), or a fit mode */
+  zoom?: number | Exclude<ZoomMode, 'custom'>;
+  view?: ViewMode;
+  search?: string;
+  /** Bookmark (or other anchor) name to scroll to; takes precedence over `page` */
+  bookmark?: string;
+}
+
+// Hash parameters owned by the viewer; any others are left to the host
+const HASH_KEYS = ['page', 'zoom', 'view', 'search', 'bookmark'] as const;
+
+const stripHash = (hash: string) => (hash.startsWith('#') ? hash.slice(1) : hash);
+
+/** Read viewer state from a URL hash (with or without the leading `#`), ignoring invalid values */
+export function parseViewerHash(hash: string): ViewerHashState {
+  const params = new URLSearchParams(stripHash(hash));
+  const state: ViewerHashState = {};
+
+  const page = parseInt(params.get('page') ?? '', 10);
+  if (page > 0) state.page = page;
+
+  const zoom = params.get('zoom');
+  if (zoom === 'fit-width' || zoom === 'fit-page') {
+    state.zoom = zoom;
+  } else if (zoom && parseFloat(zoom) > 0) {
+    state.zoom = parseFloat(zoom) / 100;
+  }
+
+  const view = params.get('view');
+  if (view === 'document' || view === 'revisions' || view === 'split') state.view = view;
+
+  const search = params.get('search');
+  if (search) state.search = search;
+
+  const bookmark = params.get('bookmark');
+  if (bookmark) state.bookmark = bookmark;
+
+  return state;
+}
+
+/**
+ * Write viewer state into `currentHash`, replacing the viewer's parameters and keeping the
+ * host's. Zoom is written as a percentage. Returns the hash without the leading `#`.
+ */
+export function formatViewerHash(state: ViewerHashState, currentHash = ''): string {
+  const params = new URLSearchParams(stripHash(currentHash));
+  HASH_KEYS.forEach((key) => params.delete(key));
+
+  if (state.page) params.set('page', String(state.page));
+  if (state.zoom !== undefined) {
+    params.set('zoom', typeof state.zoom === 'number' ? String(Math.round(state.zoom * 100)) : state.zoom);
+  }
+  if (state.view && state.view !== 'document') params.set('view', state.view);
+  if (state.search) params.set('search', state.search);
+  if (state.bookmark) params.set('bookmark', state.bookmark);
+
+  // URLSearchParams encodes spaces as '+', which reads worse in an address bar
+  return params.toString().replace(/\+/g, '%20');
+}
+
+/** Hash adapter for `window.location`. Updates replace the history entry rather than adding one. */
+export function createWindowHashAdapter(): UrlHashAdapter {
+  return {
+    getHash: () => stripHash(window.location.hash),
+    setHash: (hash) => {
+      const url = new URL(window.location.href);
+      url.hash = hash;
+      window.history.replaceState(window.history.state, '', url);
+    },
+    subscribe: (listener) => {
+      window.addEventListener('hashchange', listener);
+      return () => window.removeEventListener('hashchange', listener);
+    },
+  };
+}
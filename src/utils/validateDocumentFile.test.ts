@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { validateDocumentFile, isAcceptedFileType, DocumentValidationError } from './validateDocumentFile'
+import { createDocxFile, createZipBytes } from '../test/createZipFile'
+
+async function rejectionReason(promise: Promise<void>) {
+  try {
+    await promise
+  } catch (err) {
+    expect(err).toBeInstanceOf(DocumentValidationError)
+    return (err as DocumentValidationError).reason
+  }
+  return null
+}
+
+describe('isAcceptedFileType', () => {
+  it('matches extensions case-insensitively', () => {
+    expect(isAcceptedFileType(new File([], 'Report.DOCX'), '.docx')).toBe(true)
+    expect(isAcceptedFileType(new File([], 'template.dotx'), '.docx')).toBe(false)
+    expect(isAcceptedFileType(new File([], 'template.dotx'), '.docx, .dotx')).toBe(true)
+  })
+
+  it('matches Word MIME types for files without an extension', () => {
+    const type = 'application/vnd.ms-word.document.macroEnabled.12'
+    expect(isAcceptedFileType(new File([], 'clipboard', { type }), '.docm')).toBe(true)
+    expect(isAcceptedFileType(new File([], 'clipboard', { type }), '.docx')).toBe(false)
+  })
+})
+
+describe('validateDocumentFile', () => {
+  it('accepts a Word package', async () => {
+    await expect(validateDocumentFile(createDocxFile(), { accept: '.docx' })).resolves.toBeUndefined()
+  })
+
+  it('rejects unaccepted types', async () => {
+    expect(await rejectionReason(validateDocumentFile(createDocxFile('macro.docm'), { accept: '.docx' }))).toBe('unsupported-type')
+  })
+
+  it('rejects files over the size limit', async () => {
+    expect(await rejectionReason(validateDocumentFile(createDocxFile(), { maxFileSize: 10 }))).toBe('too-large')
+  })
+
+  it('recognises legacy .doc files', async () => {
+    const file = new File([new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])], 'old.docx')
+    expect(await rejectionReason(validateDocumentFile(file))).toBe('legacy-format')
+  })
+
+  it('recognises password-protected documents', async () => {
+    // Compound file with 512-byte sectors whose directory (sector 0) lists an EncryptedPackage stream
+    const bytes = new Uint8Array(1024)
+    const view = new DataView(bytes.buffer)
+    bytes.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+    view.setUint16(0x1e, 9, true)
+    view.setUint32(0x30, 0, true)
+    const name = 'EncryptedPackage'
+    for (let i = 0; i < name.length; i++) view.setUint16(512 + 128 + i * 2, name.charCodeAt(i), true)
+    view.setUint16(512 + 128 + 64, (name.length + 1) * 2, true)
+
+    const error = await validateDocumentFile(new File([bytes], 'secret.docx')).catch((err) => err)
+    expect(error).toMatchObject({ reason: 'encrypted', code: 'ENCRYPTED_DOCUMENT' })
+  })
+
+  it('rejects files that are not ZIP archives', async () => {
+    expect(await rejectionReason(validateDocumentFile(new File(['hello'], 'a.docx')))).toBe('not-zip')
+  })
+
+  it('rejects truncated archives', async () => {
+    const bytes = createZipBytes(['[Content_Types].xml'])
+    const file = new File([bytes.slice(0, bytes.length - 22)], 'cut.docx')
+    expect(await rejectionReason(validateDocumentFile(file))).toBe('corrupt')
+  })
+
+  it('rejects ZIP archives without [Content_Types].xml', async () => {
+    const file = new File([createZipBytes(['readme.txt'])], 'archive.docx')
+    expect(await rejectionReason(validateDocumentFile(file))).toBe('missing-content-types')
+  })
+})
@@ -0,0 +1,154 @@
+import { formatBytes } from './loadDocumentSource';
+import { readBytes } from './readBytes';
+import { readZipEntries } from './zip';
+import { DocumentViewerError } from './errors';
+import type { DocumentViewerErrorCode } from './errors';
+
+export type DocumentValidationReason =
+  | 'unsupported-type'
+  | 'too-large'
+  | 'legacy-format'
+  | 'encrypted'
+  | 'not-zip'
+  | 'corrupt'
+  | 'missing-content-types';
+
+const REASON_CODES: Record<DocumentValidationReason, DocumentViewerErrorCode> = {
+  'unsupported-type': 'UNSUPPORTED_FORMAT',
+  'too-large': 'FILE_TOO_LARGE',
+  'legacy-format': 'UNSUPPORTED_FORMAT',
+  'encrypted': 'ENCRYPTED_DOCUMENT',
+  'not-zip': 'INVALID_PACKAGE',
+  'corrupt': 'INVALID_PACKAGE',
+  'missing-content-types': 'INVALID_PACKAGE',
+};
+
+/** Thrown when a file is rejected before conversion */
+export class DocumentValidationError extends DocumentViewerError {
+  readonly reason: DocumentValidationReason;
+
+  constructor(reason: DocumentValidationReason, message: string) {
+    super(REASON_CODES[reason], message);
+    this.name = 'DocumentValidationError';
+    this.reason = reason;
+  }
+}
+
+export const DEFAULT_ACCEPT = '.docx';
+
+// MIME types of the Word package formats, so files without a usable name (e.g. pasted) can be matched
+const WORD_MIME_TYPES: Record<string, string> = {
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.docm': 'application/vnd.ms-word.document.macroenabled.12',
+  '.dotx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.template',
+  '.dotm': 'application/vnd.ms-word.template.macroenabled.12',
+};
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+// Compound File Binary header used by legacy .doc files, and by password-protected .docx files
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+// Stream holding the encrypted package inside a password-protected Office file
+const ENCRYPTED_PACKAGE_STREAM = 'EncryptedPackage';
+// Directory sectors scanned for it; the few streams of an encrypted package sit at the start
+const CFB_DIRECTORY_SECTORS = 4;
+
+/** Whether `file` matches an `accept` list in `<input accept>` syntax (extensions and MIME types) */
+export function isAcceptedFileType(file: File, accept: string): boolean {
+  const tokens = accept.split(',').map((token) => token.trim().toLowerCase()).filter(Boolean);
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+
+  return tokens.some((token) => {
+    if (token.startsWith('.')) {
+      return name.endsWith(token) || (type !== '' && WORD_MIME_TYPES[token] === type);
+    }
+    if (token.endsWith('/*')) {
+      return type.startsWith(token.slice(0, -1));
+    }
+    return type === token;
+  });
+}
+
+/**
+ * Whether a Compound File Binary file is an encrypted Office package, by looking for the
+ * EncryptedPackage stream among the first directory entries.
+ */
+async function isEncryptedPackage(file: File): Promise<boolean> {
+  const header = new DataView(await readBytes(file.slice(0, 512)));
+  if (header.byteLength < 512) return false;
+  const sectorSize = 1 << header.getUint16(0x1e, true);
+  const firstDirectorySector = header.getUint32(0x30, true);
+  // The header occupies the first sector
+  const directoryOffset = (firstDirectorySector + 1) * sectorSize;
+  if (directoryOffset >= file.size) return false;
+
+  const directory = new DataView(await readBytes(
+    file.slice(directoryOffset, directoryOffset + sectorSize * CFB_DIRECTORY_SECTORS)
+  ));
+  const decoder = new TextDecoder('utf-16le');
+  // Directory entries are 128 bytes: a UTF-16 name (up to 64 bytes) followed by its byte length
+  for (let offset = 0; offset + 128 <= directory.byteLength; offset += 128) {
+    const nameLength = directory.getUint16(offset + 64, true);
+    if (nameLength < 2 || nameLength > 64) continue;
+    const name = decoder.decode(new Uint8Array(directory.buffer, offset, nameLength - 2));
+    if (name === ENCRYPTED_PACKAGE_STREAM) return true;
+  }
+  return false;
+}
+
+export interface ValidateDocumentOptions {
+  /** Accepted types in `<input accept>` syntax; the type is not checked when omitted */
+  accept?: string;
+  /** Maximum size in bytes */
+  maxFileSize?: number;
+}
+
+/**
+ * Check that `file` looks like a Word package before handing it to the converter, so users
+ * get a clear message instead of an opaque conversion failure.
+ * @throws DocumentValidationError
+ */
+export async function validateDocumentFile(file: File, options: ValidateDocumentOptions = {}): Promise<void> {
+  const { accept, maxFileSize } = options;
+
+  if (accept && !isAcceptedFileType(file, accept)) {
+    throw new DocumentValidationError(
+      'unsupported-type',
+      `"${file.name}" is not a supported file type (expected ${accept.split(',').map((t) => t.trim()).join(', ')}).`
+    );
+  }
+  if (maxFileSize !== undefined && file.size > maxFileSize) {
+    throw new DocumentValidationError(
+      'too-large',
+      `"${file.name}" is ${formatBytes(file.size)}, which exceeds the ${formatBytes(maxFileSize)} limit.`
+    );
+  }
+
+  const header = new Uint8Array(await readBytes(file.slice(0, 4)));
+  if (CFB_SIGNATURE.every((byte, i) => header[i] === byte)) {
+    if (await isEncryptedPackage(file)) {
+      throw new DocumentValidationError(
+        'encrypted',
+        `"${file.name}" is password protected. Remove the password in Word and try again.`
+      );
+    }
+    throw new DocumentValidationError(
+      'legacy-format',
+      `"${file.name}" is a legacy Word 97-2003 document. Save it as .docx and try again.`
+    );
+  }
+  if (header.length < 4 || new DataView(header.buffer).getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+    throw new DocumentValidationError('not-zip', `"${file.name}" is not a Word document.`);
+  }
+
+  const entries = await readZipEntries(file);
+  if (!entries) {
+    throw new DocumentValidationError('corrupt', `"${file.name}" appears to be damaged or incomplete.`);
+  }
+  if (!entries.some((entry) => entry.name === '[Content_Types].xml')) {
+    throw new DocumentValidationError(
+      'missing-content-types',
+      `"${file.name}" is a ZIP archive but not an Office document ([Content_Types].xml is missing).`
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { crc32, readZipEntries, readZipEntryContent, replaceZipEntry } from './zip'
+import { createZipBytes } from '../test/createZipFile'
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+async function readText(file: Blob, name: string) {
+  const entry = (await readZipEntries(file))!.find((candidate) => candidate.name === name)!
+  return decode(await readZipEntryContent(file, entry))
+}
+
+describe('zip', () => {
+  it('computes CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926)
+    expect(crc32(new Uint8Array())).toBe(0)
+  })
+
+  it('lists entries from the central directory', async () => {
+    const file = new Blob([createZipBytes({ 'a.txt': 'alpha', 'b/c.xml': '<c/>' })])
+    const entries = await readZipEntries(file)
+    expect(entries?.map(({ name, method, uncompressedSize }) => ({ name, method, uncompressedSize }))).toEqual([
+      { name: 'a.txt', method: 0, uncompressedSize: 5 },
+      { name: 'b/c.xml', method: 0, uncompressedSize: 4 },
+    ])
+    expect(await readZipEntries(new Blob(['not a zip']))).toBeNull()
+  })
+
+  it('reads deflated entries', async () => {
+    const content = 'compressed '.repeat(20)
+    const stream = new Response(content).body!.pipeThrough(new CompressionStream('deflate-raw'))
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer())
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    const file = new Blob([new Uint8Array(header.buffer), compressed])
+
+    const entry = { name: 'a.txt', method: 8, crc32: 0, compressedSize: compressed.length, uncompressedSize: content.length, localHeaderOffset: 0 }
+    expect(decode(await readZipEntryContent(file, entry))).toBe(content)
+    await expect(readZipEntryContent(file, { ...entry, method: 12 })).rejects.toThrow('unsupported compression method 12')
+  })
+
+  it('replaces one entry and copies the others', async () => {
+    const file = new Blob([createZipBytes({ 'a.txt': 'alpha', 'b.txt': 'beta', 'c.txt': 'gamma' })])
+    const entries = (await readZipEntries(file))!
+
+    const replaced = await replaceZipEntry(file, entries, 'b.txt', new TextEncoder().encode('a longer beta'))
+    const [, second] = (await readZipEntries(replaced))!
+    expect(second.crc32).toBe(crc32(new TextEncoder().encode('a longer beta')))
+    expect(await readText(replaced, 'a.txt')).toBe('alpha')
+    expect(await readText(replaced, 'b.txt')).toBe('a longer beta')
+    expect(await readText(replaced, 'c.txt')).toBe('gamma')
+  })
+})
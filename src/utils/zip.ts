@@ -0,0 +1,182 @@
+import { readBytes } from './readBytes';
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// General purpose flag marking UTF-8 entry names
+const FLAG_UTF8 = 0x0800;
+
+/** An entry of a ZIP archive, as listed in its central directory */
+export interface ZipEntry {
+  name: string;
+  /** Compression method: 0 (stored) or 8 (deflate) in Office packages */
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Entries of a ZIP archive, read from its central directory.
+ * Returns null when the archive has no readable end-of-central-directory record.
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[] | null> {
+  const tailSize = Math.min(file.size, EOCD_MIN_SIZE + MAX_COMMENT_SIZE);
+  const tail = new DataView(await readBytes(file.slice(file.size - tailSize)));
+
+  // The record sits at the very end unless the archive has a comment, so scan backwards
+  let eocd = -1;
+  for (let offset = tail.byteLength - EOCD_MIN_SIZE; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (directoryOffset + directorySize > file.size) return null;
+
+  const directory = new DataView(await readBytes(file.slice(directoryOffset, directoryOffset + directorySize)));
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < entryCount && offset + 46 <= directory.byteLength; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) return null;
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(directory.buffer, offset + 46, nameLength)),
+      method: directory.getUint16(offset + 10, true),
+      crc32: directory.getUint32(offset + 16, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      uncompressedSize: directory.getUint32(offset + 24, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// The entry's (possibly compressed) data, which follows its local header
+async function sliceEntryData(file: Blob, entry: ZipEntry): Promise<Blob> {
+  const header = new DataView(await readBytes(file.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30)));
+  if (header.byteLength < 30 || header.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`ZIP entry "${entry.name}" has no local header`);
+  }
+  const start = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  return file.slice(start, start + entry.compressedSize);
+}
+
+/**
+ * Read and decompress an entry. Deflated entries need `DecompressionStream`.
+ * @throws Error for unsupported compression methods
+ */
+export async function readZipEntryContent(file: Blob, entry: ZipEntry): Promise<Uint8Array<ArrayBuffer>> {
+  const data = new Uint8Array(await readBytes(await sliceEntryData(file, entry)));
+  if (entry.method === METHOD_STORED) return data;
+  if (entry.method === METHOD_DEFLATE && typeof DecompressionStream !== 'undefined') {
+    const stream = new Response(data).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+  throw new Error(`ZIP entry "${entry.name}" uses unsupported compression method ${entry.method}`);
+}
+
+let crcTable: Uint32Array | null = null;
+
+/** CRC-32 checksum, as stored in ZIP headers */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+type EntryFields = Pick<ZipEntry, 'method' | 'crc32' | 'compressedSize' | 'uncompressedSize'>;
+
+function writeLocalHeader(name: Uint8Array, fields: EntryFields): Uint8Array<ArrayBuffer> {
+  const header = new DataView(new ArrayBuffer(30 + name.length));
+  header.setUint32(0, LOCAL_FILE_HEADER, true);
+  header.setUint16(4, 20, true);
+  header.setUint16(6, FLAG_UTF8, true);
+  header.setUint16(8, fields.method, true);
+  header.setUint32(14, fields.crc32, true);
+  header.setUint32(18, fields.compressedSize, true);
+  header.setUint32(22, fields.uncompressedSize, true);
+  header.setUint16(26, name.length, true);
+  new Uint8Array(header.buffer).set(name, 30);
+  return new Uint8Array(header.buffer);
+}
+
+function writeCentralHeader(name: Uint8Array, fields: EntryFields, localHeaderOffset: number): Uint8Array<ArrayBuffer> {
+  const header = new DataView(new ArrayBuffer(46 + name.length));
+  header.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+  header.setUint16(4, 20, true);
+  header.setUint16(6, 20, true);
+  header.setUint16(8, FLAG_UTF8, true);
+  header.setUint16(10, fields.method, true);
+  header.setUint32(16, fields.crc32, true);
+  header.setUint32(20, fields.compressedSize, true);
+  header.setUint32(24, fields.uncompressedSize, true);
+  header.setUint16(28, name.length, true);
+  header.setUint32(42, localHeaderOffset, true);
+  new Uint8Array(header.buffer).set(name, 46);
+  return new Uint8Array(header.buffer);
+}
+
+/**
+ * A copy of the archive with the content of entry `name` replaced (stored uncompressed).
+ * Other entries are copied without recompressing them.
+ */
+export async function replaceZipEntry(
+  file: Blob,
+  entries: ZipEntry[],
+  name: string,
+  content: Uint8Array<ArrayBuffer>
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const records: BlobPart[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const replaced = entry.name === name;
+    const fields: EntryFields = replaced
+      ? { method: METHOD_STORED, crc32: crc32(content), compressedSize: content.length, uncompressedSize: content.length }
+      : entry;
+    const encodedName = encoder.encode(entry.name);
+    const localHeader = writeLocalHeader(encodedName, fields);
+    records.push(localHeader, replaced ? content : await sliceEntryData(file, entry));
+    directory.push(writeCentralHeader(encodedName, fields, offset));
+    offset += localHeader.length + fields.compressedSize;
+  }
+
+  const directorySize = directory.reduce((size, header) => size + header.length, 0);
+  const end = new DataView(new ArrayBuffer(EOCD_MIN_SIZE));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...records, ...directory, new Uint8Array(end.buffer)]);
+}
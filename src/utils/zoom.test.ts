@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import type { DocumentMetadata } from 'docxodus/react'
+import { clampZoom, getPageSizes, getFitScale } from './zoom'
+
+const LETTER = { widthPt: 612, heightPt: 792 } // 816 x 1056 px
+
+describe('clampZoom', () => {
+  it('keeps scales within the supported range', () => {
+    expect(clampZoom(0.1)).toBe(0.3)
+    expect(clampZoom(1.2)).toBe(1.2)
+    expect(clampZoom(5)).toBe(2)
+  })
+})
+
+describe('getPageSizes', () => {
+  it('prefers section sizes from the document metadata', () => {
+    const metadata = { sections: [{ pageWidthPt: 842, pageHeightPt: 595 }] } as DocumentMetadata
+    expect(getPageSizes(metadata, [])).toEqual([{ widthPt: 842, heightPt: 595 }])
+  })
+
+  it('falls back to US Letter without metadata or pages', () => {
+    expect(getPageSizes(null, [])).toEqual([LETTER])
+  })
+})
+
+describe('getFitScale', () => {
+  it('fits the page width inside the gutters', () => {
+    expect(getFitScale('fit-width', { width: 856, height: 300 }, [LETTER])).toBeCloseTo(1)
+  })
+
+  it('fits the whole page for fit-page', () => {
+    expect(getFitScale('fit-page', { width: 2000, height: 568 }, [LETTER])).toBeCloseTo(0.5)
+  })
+
+  it('fits the widest section', () => {
+    const landscape = { widthPt: 792, heightPt: 612 }
+    expect(getFitScale('fit-width', { width: 1096, height: 800 }, [LETTER, landscape])).toBeCloseTo(1)
+  })
+
+  it('clamps to the supported range', () => {
+    expect(getFitScale('fit-width', { width: 100, height: 100 }, [LETTER])).toBe(0.3)
+  })
+})
@@ -0,0 +1,72 @@
+import type { DocumentMetadata, PaginationResult } from 'docxodus/react';
+import type { ZoomMode } from '../types';
+
+export const MIN_ZOOM = 0.3;
+export const MAX_ZOOM = 2.0;
+
+/** Scales offered in the toolbar zoom menu */
+export const ZOOM_PRESETS = [0.5, 0.75, 0.8, 0.9, 1, 1.25, 1.5, 2];
+
+const POINTS_TO_PIXELS = 96 / 72;
+
+// Space kept around the page when fitting it to the viewport (matches the default page gap)
+const FIT_GUTTER = 20;
+
+/** Page size in points */
+export interface PageSize {
+  widthPt: number;
+  heightPt: number;
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+/** Clamp a scale to the supported range, rounded to whole percents */
+export function clampZoom(scale: number): number {
+  return Math.round(Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale)) * 100) / 100;
+}
+
+/**
+ * Page sizes to fit against: every section from the document metadata, falling back to
+ * the paginated pages (e.g. for pre-converted HTML) and finally to US Letter.
+ */
+export function getPageSizes(
+  metadata: DocumentMetadata | null,
+  pages: PaginationResult['pages']
+): PageSize[] {
+  if (metadata && metadata.sections.length > 0) {
+    return metadata.sections.map((section) => ({
+      widthPt: section.pageWidthPt,
+      heightPt: section.pageHeightPt,
+    }));
+  }
+  if (pages.length > 0) {
+    return pages.map((page) => ({
+      widthPt: page.dimensions.pageWidth,
+      heightPt: page.dimensions.pageHeight,
+    }));
+  }
+  return [{ widthPt: 612, heightPt: 792 }];
+}
+
+/**
+ * Scale at which the largest page fits the viewport: by width only (`fit-width`)
+ * or entirely (`fit-page`).
+ */
+export function getFitScale(
+  mode: Exclude<ZoomMode, 'custom'>,
+  viewport: ViewportSize,
+  pageSizes: PageSize[]
+): number {
+  const widthPx = Math.max(...pageSizes.map((size) => size.widthPt)) * POINTS_TO_PIXELS;
+  const heightPx = Math.max(...pageSizes.map((size) => size.heightPt)) * POINTS_TO_PIXELS;
+
+  const widthScale = (viewport.width - FIT_GUTTER * 2) / widthPx;
+  if (mode === 'fit-width') {
+    return clampZoom(widthScale);
+  }
+  const heightScale = (viewport.height - FIT_GUTTER * 2) / heightPx;
+  return clampZoom(Math.min(widthScale, heightScale));
+}